@@ -5,7 +5,7 @@ const sharedOptions = {
     entryPoints: ["./src/DirfileDB.ts"],
     bundle: true,
     platform: "node",
-    external: ["fs", "fs/promises", "path", "crypto"],
+    external: ["fs", "fs/promises", "path", "crypto", "os", "events", "zlib", "util"],
     tsconfig: path.resolve("./configs/tsconfig.build.json")
 }
 
@@ -21,8 +21,18 @@ const esmOptions = {
     format: "esm"
 }
 
+const cliOptions = {
+    ...sharedOptions,
+    entryPoints: ["./src/bin.ts"],
+    outfile: "./dist/bin/dirfile-db.mjs",
+    format: "esm"
+}
+
 // Build CommonJS
 esbuild.build(cjsOptions).catch(() => process.exit(1))
 
 // Build ESM
 esbuild.build(esmOptions).catch(() => process.exit(1))
+
+// Build command line tool
+esbuild.build(cliOptions).catch(() => process.exit(1))
@@ -0,0 +1,349 @@
+/**
+ * @module Cipher
+ * @fileoverview This file contains the types and class definition for the AES-256-GCM encryption
+ * of the files of a DirfileDB database.
+ *
+ * @exports {
+ *     @name EncryptionKey
+ *     @name EncryptionConfig
+ *     @name EncryptionMetadata
+ *     @name KeyRotationJournal
+ *     @name FileCodec
+ * }
+ *
+ * @default Cipher
+ */
+
+/**
+ * ------ NodeJs  Dependencies ------
+ */
+
+import {
+    CipherGCMTypes,
+    createCipheriv,
+    createDecipheriv,
+    createHash,
+    randomBytes,
+    scryptSync
+} from "crypto"
+
+/**
+ * ------ Local Dependencies ------
+ */
+
+import { decompress } from "~/util/index.js"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @interface EncryptionKey
+ * @description An encryption key, given either as is or as a passphrase.
+ * @property {Buffer | string} [key] - A 32 bytes key, as a Buffer or a hex string.
+ * @property {string} [passphrase] - A passphrase the key is derived from with scrypt.
+ */
+export interface EncryptionKey {
+    key?: Buffer | string
+    passphrase?: string
+}
+
+/**
+ * @interface EncryptionConfig
+ * @description Configuration options for encryption at rest.
+ * @extends EncryptionKey
+ * @property {boolean} [perCollection] - Only encrypts the collections created with the
+ * `encrypted` option, every collection is encrypted otherwise.
+ */
+export interface EncryptionConfig extends EncryptionKey {
+    perCollection?: boolean
+}
+
+/**
+ * @interface EncryptionMetadata
+ * @description Encryption settings stored in the database metadata, which is never encrypted.
+ * @property {string} algorithm - Always `Cipher.ALGORITHM`.
+ * @property {string} keyId - Identifies the key, without revealing it.
+ * @property {string} [salt] - The scrypt salt, for keys derived from a passphrase.
+ */
+export interface EncryptionMetadata {
+    algorithm: string
+    keyId: string
+    salt?: string
+}
+
+/**
+ * @interface KeyRotationJournal
+ * @description Written under the root directory while a key rotation runs. Each side holds its
+ * key encrypted with the key of the other side, so that an interrupted rotation can be finished
+ * with either key.
+ * @property {object} from - The previous key.
+ * @property {object} to - The new key.
+ */
+export interface KeyRotationJournal {
+    from: EncryptionMetadata & { wrappedKey: string }
+    to: EncryptionMetadata & { wrappedKey: string }
+}
+
+/**
+ * @interface FileCodec
+ * @description Turns the text of a file into its stored contents and back. Stored contents may be
+ * compressed, and are then read as a Buffer.
+ * @property {Function} encode - Returns the contents to store for a text.
+ * @property {Function} decode - Returns the text of stored contents.
+ */
+export interface FileCodec {
+    encode: (text: string) => string | Buffer
+    decode: (contents: string | Buffer) => string
+}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class Cipher
+ * @classdesc
+ * Encrypts file contents with AES-256-GCM. Encrypted contents are a JSON envelope holding the id
+ * of the key, a random IV, the authentication tag and the ciphertext, so that encrypted and plain
+ * files can be told apart and files written with a previous key are still read during a rotation.
+ */
+class Cipher {
+
+    static ALGORITHM: CipherGCMTypes = "aes-256-gcm"
+    // start of every encrypted file, the envelope key comes first
+    static ENVELOPE_PREFIX = "{\"$encrypted\":"
+    // fields of an encrypted envelope, a plain document may start with the same key
+    static ENVELOPE_FIELDS = ["$encrypted", "keyId", "iv", "tag", "data"]
+
+    // reads plain (or compressed) files and rejects encrypted ones, used without an encryption key
+    static PLAINTEXT: FileCodec = {
+        encode: text => text,
+        decode: contents => {
+            if (Cipher.isEncrypted(contents)) {
+                throw Error("file is encrypted and no encryption key is configured")
+            }
+            return decompress(contents)
+        }
+    }
+
+    #key: Buffer
+    #keyId: string
+    // keys files may still be encrypted with, Map<key id, key>
+    #previousKeys: Map<string, Buffer>
+
+    /**
+     * @constructor
+     * @param {Buffer} key - The 32 bytes key new contents are encrypted with.
+     * @param {Buffer[]} [previousKeys] - Other keys existing contents may be encrypted with.
+     */
+    constructor(key: Buffer, previousKeys: Buffer[] = []) {
+        this.#key = key
+        this.#keyId = Cipher.keyId(key)
+        this.#previousKeys = new Map(
+            previousKeys.map(previous => [Cipher.keyId(previous), previous])
+        )
+    }
+
+    /**
+     * @description Returns the key described by an encryption key option.
+     *
+     * @param {EncryptionKey} option - The key, or the passphrase to derive it from.
+     * @param {string} [salt] - The hex scrypt salt, required for a passphrase.
+     *
+     * @returns {Buffer} The 32 bytes key.
+     * @throws {Error} If neither or both of `key` and `passphrase` are given, or the key is not 32
+     * bytes long.
+     */
+    static resolveKey(option: EncryptionKey, salt?: string): Buffer {
+        if ((option.key === undefined) === (option.passphrase === undefined)) {
+            throw Error("encryption requires either a key or a passphrase")
+        }
+
+        if (option.passphrase !== undefined) {
+            if (salt === undefined) throw Error("a passphrase requires a salt")
+            return scryptSync(option.passphrase, Buffer.from(salt, "hex"), 32)
+        }
+
+        const key = typeof option.key === "string" ? Buffer.from(option.key, "hex") : option.key!
+        if (key.length !== 32) throw Error("encryption key must be 32 bytes long")
+
+        return key
+    }
+
+    /**
+     * @description Returns a new random scrypt salt.
+     *
+     * @returns {string} The hex salt.
+     */
+    static newSalt(): string {
+        return randomBytes(16).toString("hex")
+    }
+
+    /**
+     * @description Returns the id of a key: a short hash that identifies it without revealing it.
+     *
+     * @param {Buffer} key - The key.
+     *
+     * @returns {string} The key id.
+     */
+    static keyId(key: Buffer): string {
+        return createHash("sha256").update("dirfile-db key").update(key).digest("hex").slice(0, 16)
+    }
+
+    /**
+     * @description Returns whether file contents are encrypted.
+     *
+     * @param {string | Buffer} contents - The file contents.
+     *
+     * @returns {boolean} Whether the contents are an encrypted envelope.
+     */
+    static isEncrypted(contents: string | Buffer): boolean {
+        return Cipher.#envelope(contents) !== undefined
+    }
+
+    /**
+     * @private
+     * @description Parses the encrypted envelope of file contents, `undefined` for plain contents.
+     * Envelopes are told apart from plain documents by their exact set of fields.
+     */
+    static #envelope(contents: string | Buffer): Record<string, string> | undefined {
+        const start = typeof contents === "string"
+            ? contents
+            : contents.subarray(0, Cipher.ENVELOPE_PREFIX.length).toString("utf8")
+        if (!start.startsWith(Cipher.ENVELOPE_PREFIX)) return undefined
+
+        try {
+            const envelope = JSON.parse(contents.toString("utf8"))
+            const isEnvelope = Object.keys(envelope).length === Cipher.ENVELOPE_FIELDS.length &&
+                Cipher.ENVELOPE_FIELDS.every(field => typeof envelope[field] === "string")
+
+            return isEnvelope ? envelope : undefined
+        } catch (error) {
+            return undefined
+        }
+    }
+
+    /**
+     * @description The id of the key new contents are encrypted with.
+     */
+    get keyId(): string {
+        return this.#keyId
+    }
+
+    /**
+     * @description Encrypts a text, or binary contents, with the current key.
+     *
+     * @param {string | Buffer} text - The text to encrypt.
+     *
+     * @returns {string} The encrypted envelope.
+     */
+    encrypt(text: string | Buffer): string {
+        const iv = randomBytes(12)
+        const cipher = createCipheriv(Cipher.ALGORITHM, this.#key, iv)
+        const data = Buffer.concat([
+            typeof text === "string" ? cipher.update(text, "utf8") : cipher.update(text),
+            cipher.final()
+        ])
+
+        return JSON.stringify({
+            $encrypted: Cipher.ALGORITHM,
+            keyId: this.#keyId,
+            iv: iv.toString("base64"),
+            tag: cipher.getAuthTag().toString("base64"),
+            data: data.toString("base64")
+        })
+    }
+
+    /**
+     * @description Decrypts file contents to text, plain contents are returned as is unless
+     * rejected.
+     *
+     * @param {string | Buffer} contents - The file contents.
+     * @param {boolean} [plainAllowed] - Whether plain contents are accepted. Defaults to `true`.
+     *
+     * @returns {string} The decrypted text.
+     * @throws {Error} If the contents were encrypted with an unknown key, were modified, or are
+     * plain while rejected.
+     */
+    decrypt(contents: string | Buffer, plainAllowed = true): string {
+        return this.decryptBuffer(contents, plainAllowed).toString("utf8")
+    }
+
+    /**
+     * @description Decrypts file contents, see `decrypt`, keeping binary (compressed) contents
+     * intact.
+     *
+     * @param {string | Buffer} contents - The file contents.
+     * @param {boolean} [plainAllowed] - Whether plain contents are accepted. Defaults to `true`.
+     *
+     * @returns {Buffer} The decrypted contents.
+     * @throws {Error} If the contents were encrypted with an unknown key, were modified, or are
+     * plain while rejected.
+     */
+    decryptBuffer(contents: string | Buffer, plainAllowed = true): Buffer {
+        const envelope = Cipher.#envelope(contents)
+        if (!envelope) {
+            if (!plainAllowed) throw Error("file is not encrypted")
+            return typeof contents === "string" ? Buffer.from(contents, "utf8") : contents
+        }
+
+        const key = envelope.keyId === this.#keyId
+            ? this.#key
+            : this.#previousKeys.get(envelope.keyId)
+        if (!key) throw Error(`file is encrypted with an unknown key ${envelope.keyId}`)
+
+        try {
+            const decipher = createDecipheriv(
+                Cipher.ALGORITHM,
+                key,
+                Buffer.from(envelope.iv, "base64")
+            )
+            decipher.setAuthTag(Buffer.from(envelope.tag, "base64"))
+
+            return Buffer.concat([
+                decipher.update(Buffer.from(envelope.data, "base64")),
+                decipher.final()
+            ])
+        } catch (error) {
+            throw Error("file cannot be decrypted, its contents were modified")
+        }
+    }
+
+    /**
+     * @description Returns a cipher encrypting with a new key, which still decrypts the contents
+     * encrypted with the keys of this cipher.
+     *
+     * @param {Buffer} key - The new key.
+     *
+     * @returns {Cipher} The new cipher.
+     */
+    rotate(key: Buffer): Cipher {
+        return new Cipher(key, [this.#key, ...this.#previousKeys.values()])
+    }
+
+    /**
+     * @description Encrypts the key of another cipher with the key of this one, see `unwrap`.
+     *
+     * @param {Cipher} other - The cipher whose key is encrypted.
+     *
+     * @returns {string} The encrypted key.
+     */
+    wrap(other: Cipher): string {
+        return this.encrypt(other.#key.toString("base64"))
+    }
+
+    /**
+     * @description Decrypts a key encrypted by `wrap`.
+     *
+     * @param {string} wrappedKey - The encrypted key.
+     *
+     * @returns {Buffer} The key.
+     * @throws {Error} If the key was not encrypted with the key of this cipher.
+     */
+    unwrap(wrappedKey: string): Buffer {
+        return Buffer.from(this.decrypt(wrappedKey), "base64")
+    }
+}
+
+export default Cipher
@@ -0,0 +1,598 @@
+/**
+ * @module Cli
+ * @fileoverview This file contains the types and class definition for the `dirfile-db` command
+ * line tool, which wraps the functions of a DirfileDB instance in subcommands.
+ *
+ * @exports {
+ *     @name CliIO
+ * }
+ *
+ * @default Cli
+ */
+
+// Commands print arbitrary JSON documents, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * ------ NodeJs  Dependencies ------
+ */
+
+import { parseArgs } from "util"
+
+/**
+ * ------ Local Dependencies ------
+ */
+
+import {
+    dirExists,
+    formatFromPath,
+    fromCsv,
+    fromNdjson,
+    toCsv,
+    toNdjson,
+    DocumentFormat
+} from "~/util/index.js"
+import DirfileDB, { EncryptionConfig, IdStrategy } from "./DirfileDB.js"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @interface CliIO
+ * @description The streams used by the command line tool, `process` streams by default.
+ * @property {AsyncIterable | Iterable} stdin - Chunks read by commands taking input from stdin.
+ * @property {Function} stdout - Writes command output.
+ * @property {Function} stderr - Writes errors and, with `--verbose`, database logs.
+ */
+export interface CliIO {
+    stdin: AsyncIterable<string | Buffer> | Iterable<string | Buffer>
+    stdout: (text: string) => void
+    stderr: (text: string) => void
+}
+
+/**
+ * @type CliOptions
+ * @description The parsed options shared by every command.
+ */
+type CliOptions = {
+    db: string
+    output: string
+    format?: string
+    limit?: string
+    sort?: string
+    snapshot?: string
+    "id-strategy"?: string
+    delete: boolean
+    cascade: boolean
+    verbose: boolean
+    help: boolean
+}
+
+/**
+ * @description Thrown for invalid command lines, exits with `Cli.EXIT_USAGE`.
+ */
+class UsageError extends Error {}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class Cli
+ * @classdesc
+ * Parses a `dirfile-db` command line and runs it against the database of the `--db` directory.
+ * Output is JSON by default, or a text table with `--output table`. Database logs are silenced
+ * unless `--verbose` is given, so the output of a command can always be piped.
+ */
+class Cli {
+
+    // exit code of a successful command
+    static EXIT_SUCCESS = 0
+    // exit code of a command that failed, or found problems (ex: `verify`)
+    static EXIT_FAILURE = 1
+    // exit code of an invalid command line
+    static EXIT_USAGE = 2
+
+    static USAGE = [
+        "usage: dirfile-db [--db <dir>] [--output json|table] [--verbose] <command>",
+        "",
+        "commands:",
+        "  init                                   create or load the database",
+        "  collections ls                         list the collections",
+        "  collections create <name>              create a collection",
+        "                                         [--id-strategy uuid|timestamp]",
+        "  collections drop <name>                delete a collection and its documents",
+        "  find <collection> [query]              find documents [--sort <json>] [--limit <n>]",
+        "  insert <collection> [documents]        create documents, read from stdin when missing",
+        "  update <collection> <query> [changes]  update matching documents, changes from stdin",
+        "  delete <collection> <query>            delete matching documents [--cascade to",
+        "                                         delete their sub-collections too]",
+        "  export <collection> [file]             export as ndjson or csv [--format], to stdout",
+        "                                         when no file is given",
+        "  export --snapshot <file>               write a snapshot of the whole database",
+        "  import <collection> [file]             import ndjson or csv [--format], from stdin",
+        "                                         when no file is given",
+        "  import --snapshot <file>               restore a snapshot into the --db directory",
+        "  stats                                  print database and collection statistics",
+        "  verify                                 check every file and document against the",
+        "                                         collection schemas, exits 1 on problems",
+        "  repair                                 quarantine the files verify reports and rebuild",
+        "                                         the metadata [--delete to delete them instead]",
+        "",
+        "queries, documents and changes are JSON, the --db directory defaults to $DIRFILE_DB_DIR",
+        "or ./defaultDB, encrypted databases are opened with the hex key of $DIRFILE_DB_KEY or the",
+        "passphrase of $DIRFILE_DB_PASSPHRASE"
+    ].join("\n")
+
+    #io: CliIO
+
+    /**
+     * @constructor
+     * @param {CliIO} [io] - The streams to use, `process` streams by default.
+     */
+    constructor(io?: CliIO) {
+        this.#io = io ?? {
+            stdin: process.stdin,
+            stdout: text => process.stdout.write(text),
+            stderr: text => process.stderr.write(text)
+        }
+    }
+
+    /**
+     * @description Runs a command line. Errors are written to stderr rather than thrown.
+     *
+     * @param {string[]} argv - The command line arguments, without the node and script paths.
+     *
+     * @returns {Promise<number>} The exit code: `EXIT_SUCCESS`, `EXIT_FAILURE` or `EXIT_USAGE`.
+     */
+    async run(argv: string[]): Promise<number> {
+        const { log, error } = console
+
+        try {
+            const { values, positionals } = parseArgs({
+                args: argv,
+                allowPositionals: true,
+                options: {
+                    db: { type: "string", default: process.env.DIRFILE_DB_DIR ?? "./defaultDB" },
+                    output: { type: "string", short: "o", default: "json" },
+                    format: { type: "string" },
+                    limit: { type: "string" },
+                    sort: { type: "string" },
+                    snapshot: { type: "string" },
+                    "id-strategy": { type: "string" },
+                    delete: { type: "boolean", default: false },
+                    cascade: { type: "boolean", default: false },
+                    verbose: { type: "boolean", short: "v", default: false },
+                    help: { type: "boolean", short: "h", default: false }
+                }
+            })
+            const options = values as CliOptions
+
+            if (options.help || positionals.length === 0) {
+                this.#io.stdout(Cli.USAGE + "\n")
+                return options.help ? Cli.EXIT_SUCCESS : Cli.EXIT_USAGE
+            }
+            if (options.output !== "json" && options.output !== "table") {
+                throw new UsageError(`unknown output ${options.output}`)
+            }
+
+            const logger = options.verbose
+                ? (...args: any[]) => this.#io.stderr(args.map(String).join(" ") + "\n")
+                : () => undefined
+            console.log = logger
+            console.error = logger
+
+            const result = await this.#dispatch(positionals, options)
+            if (result.output !== undefined) this.#print(result.output, options.output)
+
+            return result.ok ? Cli.EXIT_SUCCESS : Cli.EXIT_FAILURE
+        } catch (caught) {
+            const code = (caught as NodeJS.ErrnoException).code
+            const usage = caught instanceof UsageError || code?.startsWith("ERR_PARSE_ARGS")
+            this.#io.stderr(`dirfile-db: ${(caught as Error).message}\n`)
+            if (usage) this.#io.stderr("run dirfile-db --help for usage\n")
+
+            return usage ? Cli.EXIT_USAGE : Cli.EXIT_FAILURE
+        } finally {
+            console.log = log
+            console.error = error
+        }
+    }
+
+    /**
+     * @private
+     * @description Runs a command, returning its output and whether it succeeded.
+     *
+     * @throws {UsageError} If the command or its arguments are invalid.
+     */
+    async #dispatch(
+        [command, ...args]: string[],
+        options: CliOptions
+    ): Promise<{ output?: any, ok: boolean }> {
+        switch (command) {
+            case "init": {
+                const metadata = new DirfileDB({
+                    rootDir: options.db,
+                    encryption: this.#encryption()
+                }).getMetadata()
+                return {
+                    ok: true,
+                    output: {
+                        _id: metadata._id,
+                        version: metadata.version,
+                        collections: Array.from(metadata.collections.keys())
+                    }
+                }
+            }
+            case "collections":
+                return this.#collections(args, options)
+            case "find": {
+                const [collection, query] = this.#expect(args, ["collection"], ["query"])
+                const limit = options.limit === undefined ? undefined : Number(options.limit)
+                if (limit !== undefined && !(Number.isInteger(limit) && limit >= 0)) {
+                    throw new UsageError("--limit must be a non-negative integer")
+                }
+
+                const documents = await this.#open(options).findAll(
+                    collection,
+                    query === undefined ? {} : this.#parseJson(query, "query"),
+                    {
+                        sort: options.sort === undefined
+                            ? undefined
+                            : this.#parseJson(options.sort, "sort"),
+                        limit
+                    }
+                )
+                return { ok: true, output: documents }
+            }
+            case "insert": {
+                const [collection, input] = this.#expect(args, ["collection"], ["documents"])
+                const documents = await this.#readDocuments(input)
+
+                const result = await this.#open(options).createMany(collection, documents)
+                const errors = this.#bulkErrors(result.results)
+                return {
+                    ok: errors.length === 0,
+                    output: {
+                        insertedCount: result.insertedCount,
+                        insertedIds: result.insertedIds,
+                        errors
+                    }
+                }
+            }
+            case "update": {
+                const [collection, query, input] = this.#expect(
+                    args,
+                    ["collection", "query"],
+                    ["changes"]
+                )
+                const changes = input === undefined
+                    ? this.#parseJson(await this.#readStdin(), "changes")
+                    : this.#parseJson(input, "changes")
+
+                const result = await this.#open(options).updateMany(
+                    collection,
+                    this.#parseJson(query, "query"),
+                    changes
+                )
+                const errors = this.#bulkErrors(result.results)
+                return {
+                    ok: errors.length === 0,
+                    output: {
+                        matchedCount: result.matchedCount,
+                        modifiedCount: result.modifiedCount,
+                        errors
+                    }
+                }
+            }
+            case "delete": {
+                const [collection, query] = this.#expect(args, ["collection", "query"], [])
+                const deletedCount = await this.#open(options).deleteAll(
+                    collection,
+                    this.#parseJson(query, "query"),
+                    { cascade: options.cascade }
+                )
+                return { ok: true, output: { deletedCount } }
+            }
+            case "export":
+                return this.#export(args, options)
+            case "import":
+                return this.#import(args, options)
+            case "stats": {
+                this.#expect(args, [], [])
+                const db = this.#open(options)
+                const metadata = db.getMetadata()
+                return {
+                    ok: true,
+                    output: {
+                        _id: metadata._id,
+                        version: metadata.version,
+                        rootDir: db.getRootDir(),
+                        collections: db.listCollections().map(name => {
+                            const info = db.getCollectionInfo(name)
+                            return {
+                                name,
+                                documentCount: info?.documentCount,
+                                totalSize: info?.totalSize,
+                                indexes: db.listIndexes(name).map(index => index.field)
+                            }
+                        })
+                    }
+                }
+            }
+            case "verify": {
+                this.#expect(args, [], [])
+                const db = this.#open(options)
+                const report = await db.verify()
+                const invalidDocuments: any[] = []
+
+                // schemas are only checked once every document can be read
+                if (report.ok) {
+                    for (const collection of db.listCollections()) {
+                        for (const result of await db.validateCollection(collection)) {
+                            invalidDocuments.push({ collection, ...result })
+                        }
+                    }
+                }
+
+                const ok = report.ok && invalidDocuments.length === 0
+                return { ok, output: { ...report, ok, invalidDocuments } }
+            }
+            case "repair": {
+                this.#expect(args, [], [])
+                const report = await this.#open(options).repair({ quarantine: !options.delete })
+                return { ok: true, output: report }
+            }
+            default:
+                throw new UsageError(`unknown command ${command}`)
+        }
+    }
+
+    /**
+     * @private
+     * @description Runs the `collections ls|create|drop` commands.
+     */
+    async #collections(
+        [action, ...args]: string[],
+        options: CliOptions
+    ): Promise<{ output?: any, ok: boolean }> {
+        const db = this.#open(options)
+
+        switch (action) {
+            case "ls":
+                this.#expect(args, [], [])
+                return {
+                    ok: true,
+                    output: db.listCollections().map(name => {
+                        const info = db.getCollectionInfo(name)
+                        return {
+                            name,
+                            documentCount: info?.documentCount,
+                            totalSize: info?.totalSize,
+                            createdAt: info?.createdAt
+                        }
+                    })
+                }
+            case "create": {
+                const [name] = this.#expect(args, ["name"], [])
+                const idStrategy = options["id-strategy"]
+                if (idStrategy !== undefined && !["uuid", "timestamp"].includes(idStrategy)) {
+                    throw new UsageError(`unknown id strategy ${idStrategy}`)
+                }
+
+                await db.newCollection(name, { idStrategy: idStrategy as IdStrategy | undefined })
+                return { ok: true, output: db.getCollectionInfo(name) }
+            }
+            case "drop": {
+                const [name] = this.#expect(args, ["name"], [])
+                await db.deleteCollection(name)
+                return { ok: true, output: { dropped: name } }
+            }
+            default:
+                throw new UsageError(`unknown collections command ${action ?? ""}`.trim())
+        }
+    }
+
+    /**
+     * @private
+     * @description Runs the `export` command, of a collection or of a snapshot.
+     */
+    async #export(args: string[], options: CliOptions): Promise<{ output?: any, ok: boolean }> {
+        if (options.snapshot !== undefined) {
+            this.#expect(args, [], [])
+            return { ok: true, output: await this.#open(options).exportSnapshot(options.snapshot) }
+        }
+
+        const [collection, file] = this.#expect(args, ["collection"], ["file"])
+        const db = this.#open(options)
+        const format = this.#format(options, file)
+
+        if (file !== undefined) {
+            return { ok: true, output: {
+                exportedCount: await db.exportCollection(collection, file, { format })
+            } }
+        }
+
+        if (!db.listCollections().includes(collection)) throw Error("collection does not exist")
+
+        const documents = await db.findAll(collection, undefined, { sort: { _id: 1 } })
+        this.#io.stdout(format === "csv" ? toCsv(documents) : toNdjson(documents))
+
+        return { ok: true }
+    }
+
+    /**
+     * @private
+     * @description Runs the `import` command, of a collection or of a snapshot.
+     */
+    async #import(args: string[], options: CliOptions): Promise<{ output?: any, ok: boolean }> {
+        if (options.snapshot !== undefined) {
+            this.#expect(args, [], [])
+            const db = await DirfileDB.restoreSnapshot(
+                options.snapshot,
+                options.db,
+                { encryption: this.#encryption() }
+            )
+            return { ok: true, output: { restored: db.getRootDir() } }
+        }
+
+        const [collection, file] = this.#expect(args, ["collection"], ["file"])
+        const db = this.#open(options)
+        const format = this.#format(options, file)
+
+        const result = file === undefined
+            ? await db.createMany(collection, format === "csv"
+                ? fromCsv(await this.#readStdin())
+                : fromNdjson(await this.#readStdin()))
+            : await db.importCollection(collection, file, { format })
+        const errors = this.#bulkErrors(result.results)
+
+        return { ok: errors.length === 0, output: { insertedCount: result.insertedCount, errors } }
+    }
+
+    /**
+     * @private
+     * @description Opens the database of the `--db` directory.
+     *
+     * @throws {Error} If the directory does not exist, `init` creates databases.
+     */
+    #open(options: CliOptions): DirfileDB {
+        if (!dirExists(options.db)) {
+            throw Error(`no database at ${options.db}, run dirfile-db init first`)
+        }
+
+        return new DirfileDB({ rootDir: options.db, encryption: this.#encryption() })
+    }
+
+    /**
+     * @private
+     * @description Returns the encryption option given through the environment, if any.
+     */
+    #encryption(): EncryptionConfig | undefined {
+        const { DIRFILE_DB_KEY: key, DIRFILE_DB_PASSPHRASE: passphrase } = process.env
+        if (key === undefined && passphrase === undefined) return undefined
+
+        return { key, passphrase }
+    }
+
+    /**
+     * @private
+     * @description Returns the positional arguments of a command, checking their count.
+     *
+     * @throws {UsageError} If a required argument is missing or there are extra arguments.
+     */
+    #expect(args: string[], required: string[], optional: string[]): string[] {
+        if (args.length < required.length) {
+            throw new UsageError(`missing ${required.slice(args.length).join(", ")} argument`)
+        }
+        if (args.length > required.length + optional.length) {
+            throw new UsageError(`unexpected argument ${args[required.length + optional.length]}`)
+        }
+
+        return args
+    }
+
+    /**
+     * @private
+     * @description Parses a JSON argument.
+     *
+     * @throws {UsageError} If the argument is not valid JSON.
+     */
+    #parseJson(text: string, name: string): any {
+        try {
+            return JSON.parse(text)
+        } catch (caught) {
+            throw new UsageError(`${name} is not valid JSON: ${(caught as Error).message}`)
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns the file format of an export or import, stdin and stdout use NDJSON
+     * unless `--format` is given.
+     *
+     * @throws {UsageError} If the format is unknown.
+     */
+    #format(options: CliOptions, file?: string): DocumentFormat {
+        const format = options.format ?? (file === undefined ? "ndjson" : formatFromPath(file))
+        if (format !== "ndjson" && format !== "csv") {
+            throw new UsageError(`unknown format ${format}`)
+        }
+
+        return format
+    }
+
+    /**
+     * @private
+     * @description Reads documents from an argument or stdin: a JSON document, a JSON array of
+     * documents or NDJSON.
+     */
+    async #readDocuments(input?: string): Promise<any[]> {
+        const text = input ?? await this.#readStdin()
+
+        try {
+            const parsed = JSON.parse(text)
+            return Array.isArray(parsed) ? parsed : [parsed]
+        } catch (caught) {
+            try {
+                return fromNdjson(text)
+            } catch (ndjsonError) {
+                throw new UsageError(`documents are not valid JSON or NDJSON: ${ndjsonError}`)
+            }
+        }
+    }
+
+    /**
+     * @private
+     * @description Reads stdin to the end.
+     */
+    async #readStdin(): Promise<string> {
+        let text = ""
+        for await (const chunk of this.#io.stdin) text += chunk.toString()
+
+        return text
+    }
+
+    /**
+     * @private
+     * @description Returns the failed items of a bulk write, in a printable form.
+     */
+    #bulkErrors(results: { index: number, _id?: string, error?: Error }[]): any[] {
+        return results
+            .filter(result => result.error)
+            .map(result => ({ index: result.index, _id: result._id, error: result.error!.message }))
+    }
+
+    /**
+     * @private
+     * @description Prints a command output as JSON or as a text table.
+     */
+    #print(output: any, format: string) {
+        if (format === "json") {
+            this.#io.stdout(JSON.stringify(output, null, 2) + "\n")
+            return
+        }
+
+        const rows: any[] = Array.isArray(output)
+            ? output
+            : Object.entries(output).map(([key, value]) => ({ key, value }))
+        const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+            .sort((a, b) => Number(b === "_id") - Number(a === "_id"))
+        const cells = rows.map(row => columns.map(column => {
+            const value = row[column]
+            if (value === undefined) return ""
+
+            return typeof value === "string" ? value : JSON.stringify(value)
+        }))
+        const widths = columns.map((column, index) =>
+            Math.max(column.length, ...cells.map(row => row[index].length))
+        )
+        const line = (fields: string[]) =>
+            fields.map((field, index) => field.padEnd(widths[index])).join("  ").trimEnd() + "\n"
+
+        this.#io.stdout([columns, ...cells].map(line).join(""))
+    }
+}
+
+export default Cli
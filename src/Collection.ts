@@ -0,0 +1,332 @@
+/**
+ * @module Collection
+ * @fileoverview This file contains the types and class definition for a typed handle over a
+ * single DirfileDB collection.
+ *
+ * @exports {
+ *     @name WithId
+ *     @name NewDocument
+ *     @name CollectionQuery
+ *     @name CollectionChanges
+ *     @name CollectionUpdate
+ *     @name CollectionPage
+ * }
+ *
+ * @default Collection
+ */
+
+/**
+ * ------ Local Dependencies ------
+ */
+
+import type { QueryOperators, UpdateOperators } from "~/util/index.js"
+import type DirfileDB from "./DirfileDB.js"
+import type {
+    BulkWriteOptions,
+    FindOptions,
+    FindPageOptions,
+    IterateOptions,
+    CreateManyResult,
+    UpdateManyResult,
+    UpsertResult,
+    UpdateOptions,
+    DeleteOptions
+} from "./DirfileDB.js"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @type WithId
+ * @description A stored document of type `T`, including its `_id` and, in collections with
+ * revisions, its `_rev`.
+ */
+export type WithId<T> = T & { _id: string, _rev?: string }
+
+/**
+ * @type NewDocument
+ * @description The data accepted when creating a document of type `T`, `_id` is optional and
+ * generated when missing.
+ */
+export type NewDocument<T> = T & { _id?: string }
+
+/**
+ * @type FieldCondition
+ * @description The condition accepted for a single field: a literal value, an element of an array
+ * field or a `QueryOperators` object.
+ */
+type FieldCondition<V> = V | (V extends (infer E)[] ? E : never) | QueryOperators
+
+/**
+ * @type CollectionQuery
+ * @description A query typed against the documents of a collection. Each field of `T` (and `_id`)
+ * accepts a `FieldCondition`, dot-paths into nested objects are accepted untyped and the logical
+ * operators `$and`, `$or` and `$not` combine nested queries.
+ */
+export type CollectionQuery<T> = {
+    [K in keyof WithId<T>]?: FieldCondition<WithId<T>[K]>
+} & {
+    $and?: CollectionQuery<T>[]
+    $or?: CollectionQuery<T>[]
+    $not?: CollectionQuery<T>
+    [path: `${string}.${string}`]: unknown
+}
+
+/**
+ * @type CollectionChanges
+ * @description The changes accepted when updating documents of type `T`: data to merge, where
+ * every field is optional, or `UpdateOperators`.
+ */
+export type CollectionChanges<T> = Partial<T> | UpdateOperators
+
+/**
+ * @type CollectionUpdate
+ * @description The changes accepted when updating a document of type `T`, `_id` identifies the
+ * document and `_rev` is the revision the changes are based on.
+ */
+export type CollectionUpdate<T> = CollectionChanges<T> & { _id: string, _rev?: string }
+
+/**
+ * @interface CollectionPage
+ * @description A page of documents returned by `Collection.findPage`.
+ * @property {D[]} documents - The documents of the page.
+ * @property {string} [nextCursor] - Passed as `cursor` to get the next page.
+ */
+export interface CollectionPage<D> {
+    documents: D[]
+    nextCursor?: string
+}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class Collection
+ * @classdesc
+ * A handle over a single collection of a DirfileDB instance, returned by `DirfileDB.collection`.
+ * Every function forwards to the untyped function of the same name on the database, typing its
+ * arguments and results against the document type `T`.
+ */
+class Collection<T extends object> {
+
+    readonly name: string
+    #db: DirfileDB
+
+    /**
+     * @constructor
+     * @param {DirfileDB} db - The database holding the collection.
+     * @param {string} name - The name of the collection.
+     */
+    constructor(db: DirfileDB, name: string) {
+        this.#db = db
+        this.name = name
+    }
+
+    /**
+     * @description Creates a new document, see `DirfileDB.create`.
+     *
+     * @param {NewDocument<T>} data - The data to be stored in the new document.
+     *
+     * @returns {Promise<WithId<T>>} The stored document.
+     */
+    create(data: NewDocument<T>): Promise<WithId<T>> {
+        return this.#db.create(this.name, data)
+    }
+
+    /**
+     * @description Creates several documents, see `DirfileDB.createMany`.
+     *
+     * @param {NewDocument<T>[]} items - The data of each new document.
+     * @param {BulkWriteOptions} [options] - Ordered or unordered error handling.
+     *
+     * @returns {Promise<CreateManyResult>} The inserted ids and the outcome of each item.
+     */
+    createMany(items: NewDocument<T>[], options?: BulkWriteOptions): Promise<CreateManyResult> {
+        return this.#db.createMany(this.name, items, options)
+    }
+
+    /**
+     * @description Returns the first document matching the query, see `DirfileDB.find`.
+     *
+     * @param {CollectionQuery<T>} query - The query to match against documents.
+     *
+     * @returns {Promise<WithId<T> | null>} The first document found or `null`.
+     */
+    find(query: CollectionQuery<T>): Promise<WithId<T> | null> {
+        return this.#db.find(this.name, query)
+    }
+
+    /**
+     * @description Returns all documents matching the query, see `DirfileDB.findAll`. Documents
+     * are typed as partial when a projection is given.
+     *
+     * @param {CollectionQuery<T>} [query] - The optional query to match documents against.
+     * @param {FindOptions} [options] - Sorting, skip, limit and projection.
+     *
+     * @returns {Promise<WithId<T>[]>} The documents found.
+     */
+    findAll(
+        query?: CollectionQuery<T>,
+        options?: Omit<FindOptions, "projection">
+    ): Promise<WithId<T>[]>
+    findAll(
+        query: CollectionQuery<T> | undefined,
+        options: FindOptions
+    ): Promise<Partial<WithId<T>>[]>
+    findAll(query?: CollectionQuery<T>, options?: FindOptions): Promise<Partial<WithId<T>>[]> {
+        return this.#db.findAll(this.name, query, options)
+    }
+
+    /**
+     * @description Returns a page of the documents matching the query, see `DirfileDB.findPage`.
+     * Documents are typed as partial when a projection is given.
+     *
+     * @param {CollectionQuery<T>} [query] - The optional query to match documents against.
+     * @param {FindPageOptions} [options] - Sorting, page size (`limit`), projection and cursor.
+     *
+     * @returns {Promise<CollectionPage<WithId<T>>>} The documents of the page and the next cursor.
+     */
+    findPage(
+        query?: CollectionQuery<T>,
+        options?: Omit<FindPageOptions, "projection">
+    ): Promise<CollectionPage<WithId<T>>>
+    findPage(
+        query: CollectionQuery<T> | undefined,
+        options: FindPageOptions
+    ): Promise<CollectionPage<Partial<WithId<T>>>>
+    findPage(
+        query?: CollectionQuery<T>,
+        options?: FindPageOptions
+    ): Promise<CollectionPage<Partial<WithId<T>>>> {
+        return this.#db.findPage(this.name, query, options)
+    }
+
+    /**
+     * @description Streams the documents matching the query, see `DirfileDB.iterate`.
+     *
+     * @param {CollectionQuery<T>} [query] - The optional query to match documents against.
+     * @param {IterateOptions} [options] - Read concurrency and abort signal.
+     *
+     * @returns {AsyncGenerator<WithId<T>>} The matching documents.
+     */
+    iterate(
+        query?: CollectionQuery<T>,
+        options?: IterateOptions
+    ): AsyncGenerator<WithId<T>, void, undefined> {
+        return this.#db.iterate(this.name, query, options)
+    }
+
+    /**
+     * @description Counts the documents matching the query, see `DirfileDB.count`.
+     *
+     * @param {CollectionQuery<T>} [query] - The optional query to match documents against.
+     *
+     * @returns {Promise<number>} The number of matching documents.
+     */
+    count(query?: CollectionQuery<T>): Promise<number> {
+        return this.#db.count(this.name, query)
+    }
+
+    /**
+     * @description Updates the document identified by its `_id`, see `DirfileDB.update`.
+     *
+     * @param {CollectionUpdate<T>} newData - The update operators or data to merge into the
+     * document.
+     * @param {UpdateOptions} [options] - Merge (default) or replace the document.
+     *
+     * @returns {Promise<WithId<T>>} The updated document.
+     */
+    update(newData: CollectionUpdate<T>, options?: UpdateOptions): Promise<WithId<T>> {
+        return this.#db.update(this.name, newData, options)
+    }
+
+    /**
+     * @description Applies the same changes to every document matching the query, see
+     * `DirfileDB.updateMany`.
+     *
+     * @param {CollectionQuery<T>} query - The query to match the documents to update.
+     * @param {CollectionChanges<T>} changes - The update operators or data to merge into each
+     * matching document.
+     * @param {BulkWriteOptions} [options] - Ordered or unordered error handling.
+     *
+     * @returns {Promise<UpdateManyResult>} The matched and modified counts and the outcome of each
+     * matched document.
+     */
+    updateMany(
+        query: CollectionQuery<T>,
+        changes: CollectionChanges<T>,
+        options?: BulkWriteOptions
+    ): Promise<UpdateManyResult> {
+        return this.#db.updateMany(this.name, query, changes, options)
+    }
+
+    /**
+     * @description Updates the first document matching the query or creates it, see
+     * `DirfileDB.upsert`.
+     *
+     * @param {CollectionQuery<T>} query - The query to match the document to update.
+     * @param {CollectionChanges<T>} data - The update operators or data to merge into the
+     * document, or to create it with.
+     *
+     * @returns {Promise<UpsertResult>} The stored document and whether it was created.
+     */
+    upsert(
+        query: CollectionQuery<T>,
+        data: CollectionChanges<T>
+    ): Promise<UpsertResult & { document: WithId<T> }> {
+        return this.#db.upsert(this.name, query, data)
+    }
+
+    /**
+     * @description Returns the previous revisions of a document, see `DirfileDB.getHistory`.
+     *
+     * @param {string} id - The `_id` of the document.
+     *
+     * @returns {Promise<WithId<T>[]>} The previous revisions, newest first.
+     */
+    getHistory(id: string): Promise<WithId<T>[]> {
+        return this.#db.getHistory(this.name, id)
+    }
+
+    /**
+     * @description Restores a previous revision of a document, see `DirfileDB.revert`.
+     *
+     * @param {string} id - The `_id` of the document.
+     * @param {string} rev - The `_rev` of the revision to restore.
+     *
+     * @returns {Promise<WithId<T>>} The document after the revert.
+     */
+    revert(id: string, rev: string): Promise<WithId<T>> {
+        return this.#db.revert(this.name, id, rev)
+    }
+
+    /**
+     * @description Deletes the first document matching the query, see `DirfileDB.delete`.
+     *
+     * @param {CollectionQuery<T>} query - The query to match the document to delete.
+     * @param {DeleteOptions} [options] - `cascade` also deletes the sub-collections of the
+     * document.
+     *
+     * @returns {Promise<number>} The number of documents deleted, `0` or `1`.
+     */
+    delete(query: CollectionQuery<T>, options?: DeleteOptions): Promise<number> {
+        return this.#db.delete(this.name, query, options)
+    }
+
+    /**
+     * @description Deletes every document matching the query, see `DirfileDB.deleteAll`.
+     *
+     * @param {CollectionQuery<T>} query - The query to match the documents to delete.
+     * @param {DeleteOptions} [options] - `cascade` also deletes the sub-collections of the
+     * documents.
+     *
+     * @returns {Promise<number>} The number of documents deleted.
+     */
+    deleteAll(query: CollectionQuery<T>, options?: DeleteOptions): Promise<number> {
+        return this.#db.deleteAll(this.name, query, options)
+    }
+}
+
+export default Collection
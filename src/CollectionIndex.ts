@@ -0,0 +1,268 @@
+/**
+ * @module CollectionIndex
+ * @fileoverview This file contains the types and class definition for a persistent secondary index
+ * over a single field of a DirfileDB collection.
+ *
+ * @exports {
+ *     @name IndexOptions
+ *     @name IndexDefinition
+ *     @name CollectionIndexFile
+ * }
+ *
+ * @default CollectionIndex
+ */
+
+// Indexed values are arbitrary JSON data, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * ------ Local Dependencies ------
+ */
+
+import { getPathValue, isOperatorObject, compareValues } from "~/util/index.js"
+import type { KeyValuePair } from "./DirfileDB.js"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @interface IndexOptions
+ * @description Options accepted when creating a new index.
+ * @property {boolean} [unique] - Reject documents that would share an indexed value.
+ */
+export interface IndexOptions {
+    unique?: boolean
+}
+
+/**
+ * @interface IndexDefinition
+ * @description Describes an existing index on a collection.
+ * @property {string} field - The field name or dot-path that is indexed.
+ * @property {boolean} unique - Whether the index enforces unique values.
+ */
+export interface IndexDefinition {
+    field: string
+    unique: boolean
+}
+
+/**
+ * @interface CollectionIndexFile
+ * @description File-based format for a collection index. Maps are stored as key-value pairs of
+ * the serialized indexed value and the ids of the documents holding that value.
+ * @extends IndexDefinition
+ * @property {KeyValuePair<string, string[]>[]} entries - The serialized value to ids pairs.
+ */
+export interface CollectionIndexFile extends IndexDefinition {
+    entries: KeyValuePair<string, string[]>[]
+}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class CollectionIndex
+ * @classdesc
+ * An in-memory map from the values of one field to the ids of documents holding them. Values are
+ * keyed by their JSON serialization, array values index each of their elements and documents
+ * missing the field are not indexed.
+ *
+ * The index only answers equality (`value`, `$eq`, `$in`) and range (`$gt`, `$gte`, `$lt`, `$lte`)
+ * conditions, anything else is left to a full collection scan.
+ */
+class CollectionIndex {
+
+    readonly field: string
+    readonly unique: boolean
+
+    // Map<serialized value, Set<document _id>>
+    #entries: Map<string, Set<string>>
+
+    /**
+     * @constructor
+     * @param {IndexDefinition} definition
+     */
+    constructor(definition: IndexDefinition) {
+        this.field = definition.field
+        this.unique = definition.unique
+        this.#entries = new Map<string, Set<string>>()
+    }
+
+    /**
+     * @description Creates an index from its file-based format.
+     *
+     * @param {CollectionIndexFile} file - The parsed contents of an index file.
+     * @returns {CollectionIndex} The loaded index.
+     */
+    static fromFile(file: CollectionIndexFile): CollectionIndex {
+        const index = new CollectionIndex({ field: file.field, unique: file.unique })
+
+        for (const [key, ids] of file.entries) {
+            index.#entries.set(key, new Set(ids))
+        }
+
+        return index
+    }
+
+    /**
+     * @description Converts the index to its file-based format for serialization.
+     *
+     * @returns {CollectionIndexFile} The serializable index.
+     */
+    toFile(): CollectionIndexFile {
+        return {
+            field: this.field,
+            unique: this.unique,
+            entries: Array.from(this.#entries, ([key, ids]) => [key, Array.from(ids)])
+        }
+    }
+
+    /**
+     * @description Returns the definition of this index.
+     *
+     * @returns {IndexDefinition} The indexed field and uniqueness flag.
+     */
+    definition(): IndexDefinition {
+        return { field: this.field, unique: this.unique }
+    }
+
+    /**
+     * @private
+     * @description Returns the serialized keys a document is indexed under.
+     */
+    #keysFor(document: any): string[] {
+        const value = getPathValue(document, this.field)
+        if (value === undefined) return []
+
+        const values = Array.isArray(value) ? value : [value]
+        return Array.from(new Set(values.map(item => JSON.stringify(item))))
+    }
+
+    /**
+     * @description Ensures adding the document would not break the unique constraint.
+     *
+     * @param {string} id - The `_id` of the document being written.
+     * @param {any} document - The document being written.
+     *
+     * @throws {Error} If the index is unique and another document holds the same value.
+     */
+    assertUnique(id: string, document: any) {
+        if (!this.unique) return
+
+        for (const key of this.#keysFor(document)) {
+            const ids = this.#entries.get(key)
+            if (ids && (ids.size > 1 || !ids.has(id))) {
+                throw Error(`duplicate value ${key} for unique index on ${this.field}`)
+            }
+        }
+    }
+
+    /**
+     * @description Adds a document to the index.
+     *
+     * @param {string} id - The `_id` of the document.
+     * @param {any} document - The document to index.
+     */
+    add(id: string, document: any) {
+        for (const key of this.#keysFor(document)) {
+            const ids = this.#entries.get(key) ?? new Set<string>()
+            ids.add(id)
+            this.#entries.set(key, ids)
+        }
+    }
+
+    /**
+     * @description Removes a document from the index.
+     *
+     * @param {string} id - The `_id` of the document.
+     * @param {any} document - The last indexed version of the document.
+     */
+    remove(id: string, document: any) {
+        for (const key of this.#keysFor(document)) {
+            const ids = this.#entries.get(key)
+            if (!ids) continue
+
+            ids.delete(id)
+            if (ids.size === 0) this.#entries.delete(key)
+        }
+    }
+
+    /**
+     * @description Resolves a query condition on the indexed field to the ids of the documents
+     * that may match it.
+     *
+     * @param {any} condition - The query value for the indexed field.
+     *
+     * @returns {Set<string> | undefined} The candidate ids, or `undefined` if the condition cannot
+     * be answered by the index.
+     */
+    lookup(condition: any): Set<string> | undefined {
+        if (!isOperatorObject(condition)) return this.#lookupEqual(condition)
+
+        const rangeOperators = ["$gt", "$gte", "$lt", "$lte"]
+        let candidates: Set<string> | undefined
+
+        const intersect = (ids: Set<string>) => {
+            candidates = candidates
+                ? new Set(Array.from(candidates).filter(id => ids.has(id)))
+                : ids
+        }
+
+        for (const [operator, operand] of Object.entries(condition)) {
+            if (operator === "$eq") {
+                const ids = this.#lookupEqual(operand)
+                if (!ids) return undefined
+                intersect(ids)
+            } else if (operator === "$in" && Array.isArray(operand)) {
+                const ids = new Set<string>()
+                for (const value of operand) {
+                    const valueIds = this.#lookupEqual(value)
+                    if (!valueIds) return undefined
+                    valueIds.forEach(id => ids.add(id))
+                }
+                intersect(ids)
+            } else if (rangeOperators.includes(operator)) {
+                intersect(this.#lookupRange(operator, operand))
+            } else {
+                return undefined
+            }
+        }
+
+        return candidates
+    }
+
+    /**
+     * @private
+     * @description Looks up the ids for a primitive value, objects and arrays are not answerable.
+     */
+    #lookupEqual(value: any): Set<string> | undefined {
+        if (value !== null && typeof value === "object") return undefined
+
+        return new Set(this.#entries.get(JSON.stringify(value)))
+    }
+
+    /**
+     * @private
+     * @description Collects the ids of all indexed values satisfying a range operator.
+     */
+    #lookupRange(operator: string, operand: any): Set<string> {
+        const ids = new Set<string>()
+
+        for (const [key, keyIds] of this.#entries) {
+            const order = compareValues(JSON.parse(key), operand)
+            if (order === undefined) continue
+
+            const inRange = operator === "$gt" ? order > 0
+                : operator === "$gte" ? order >= 0
+                    : operator === "$lt" ? order < 0
+                        : order <= 0
+
+            if (inRange) keyIds.forEach(id => ids.add(id))
+        }
+
+        return ids
+    }
+}
+
+export default CollectionIndex
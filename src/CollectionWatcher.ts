@@ -0,0 +1,206 @@
+/**
+ * @module CollectionWatcher
+ * @fileoverview This file contains the types and class definition for the `fs.watch` based
+ * detection of document files changed outside of a DirfileDB instance.
+ *
+ * @exports {
+ *     @name WatchedChange
+ * }
+ *
+ * @default CollectionWatcher
+ */
+
+/**
+ * ------ NodeJs  Dependencies ------
+ */
+
+import { FSWatcher, watch } from "fs"
+import { readdir, readFile } from "fs/promises"
+import { createHash } from "crypto"
+import { join, sep } from "path"
+
+/**
+ * ------ Local Dependencies ------
+ */
+
+import { isDocumentFileName, isShardDir } from "~/util/index.js"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @interface WatchedChange
+ * @description A change of a document file detected by a `CollectionWatcher`.
+ * @property {"created" | "updated" | "deleted"} type - The kind of change.
+ * @property {string} fileName - The name of the document file within the collection directory.
+ * @property {Buffer | null} contents - The new file contents, `null` once deleted.
+ */
+export interface WatchedChange {
+    type: "created" | "updated" | "deleted"
+    fileName: string
+    contents: Buffer | null
+}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class CollectionWatcher
+ * @classdesc
+ * Watches the document files of a collection directory. `fs.watch` reports a burst of events for a
+ * single write, so events are coalesced per file before the file is read and compared with the
+ * last contents seen. Writes made by the database itself are recorded with `record`, so they match
+ * the last contents seen and are not reported as changes.
+ */
+class CollectionWatcher {
+
+    static DEBOUNCE_DELAY = 50
+
+    #collectionPath: string
+    #onChange: (change: WatchedChange) => void
+    // hash of the last contents seen for each document file, Map<relative path, sha1 hash>
+    #known: Map<string, string>
+    // pending coalesced checks, Map<file name, timer>
+    #pending: Map<string, NodeJS.Timeout>
+    #watcher?: FSWatcher
+
+    /**
+     * @constructor
+     * @param {string} collectionPath - The collection directory to watch.
+     * @param {Function} onChange - Called with every change made outside of the database.
+     */
+    constructor(collectionPath: string, onChange: (change: WatchedChange) => void) {
+        this.#collectionPath = collectionPath
+        this.#onChange = onChange
+        this.#known = new Map<string, string>()
+        this.#pending = new Map<string, NodeJS.Timeout>()
+    }
+
+    /**
+     * @description Records the current contents of every document file and starts watching.
+     *
+     * @returns {Promise<void>} A promise that resolves once the watcher is running.
+     */
+    async start(): Promise<void> {
+        const entries = await readdir(this.#collectionPath, { recursive: true })
+        for (const fileName of entries) {
+            if (!this.#isDocumentFile(fileName)) continue
+
+            const contents = await this.#readContents(fileName)
+            if (contents !== null) this.#known.set(fileName, this.#hash(contents))
+        }
+
+        this.#watcher = watch(this.#collectionPath, { recursive: true }, (_event, fileName) => {
+            if (fileName && this.#isDocumentFile(fileName.toString())) {
+                this.#schedule(fileName.toString())
+            }
+        })
+        this.#watcher.on("error", error => console.error("failed to watch collection: ", error))
+    }
+
+    /**
+     * @description Stops watching and drops pending checks.
+     */
+    stop() {
+        this.#watcher?.close()
+        this.#watcher = undefined
+
+        for (const timer of this.#pending.values()) clearTimeout(timer)
+        this.#pending.clear()
+    }
+
+    /**
+     * @description Records a write made by the database itself so it is not reported as a change.
+     *
+     * @param {string} fileName - The name of the written document file.
+     * @param {string | Buffer | null} contents - The written contents, `null` for a deletion.
+     */
+    record(fileName: string, contents: string | Buffer | null) {
+        if (contents === null) {
+            this.#known.delete(fileName)
+        } else {
+            this.#known.set(fileName, this.#hash(contents))
+        }
+    }
+
+    /**
+     * @private
+     * @description Schedules a check of a file, restarting the delay of an already pending check.
+     */
+    #schedule(fileName: string) {
+        clearTimeout(this.#pending.get(fileName))
+
+        this.#pending.set(fileName, setTimeout(() => {
+            this.#pending.delete(fileName)
+            this.#check(fileName).catch(error => {
+                console.error(`failed to check watched file ${fileName}: `, error)
+            })
+        }, CollectionWatcher.DEBOUNCE_DELAY))
+    }
+
+    /**
+     * @private
+     * @description Compares a file with the last contents seen and reports the difference.
+     */
+    async #check(fileName: string) {
+        const contents = await this.#readContents(fileName)
+        if (!this.#watcher) return
+
+        const previousHash = this.#known.get(fileName)
+
+        if (contents === null) {
+            if (previousHash === undefined) return
+
+            this.#known.delete(fileName)
+            this.#onChange({ type: "deleted", fileName, contents })
+            return
+        }
+
+        const hash = this.#hash(contents)
+        if (hash === previousHash) return
+
+        this.#known.set(fileName, hash)
+        this.#onChange({
+            type: previousHash === undefined ? "created" : "updated",
+            fileName,
+            contents
+        })
+    }
+
+    /**
+     * @private
+     * @description Reads a document file, `null` if it does not exist.
+     */
+    async #readContents(fileName: string): Promise<Buffer | null> {
+        try {
+            return await readFile(join(this.#collectionPath, fileName))
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns whether a path relative to the collection directory is a document file,
+     * directly or within shard directories. Hidden entries are internal.
+     */
+    #isDocumentFile(fileName: string): boolean {
+        const segments = fileName.split(sep)
+        const name = segments.pop()!
+
+        return isDocumentFileName(name) && segments.every(isShardDir)
+    }
+
+    /**
+     * @private
+     * @description Hashes file contents, keeping the known state small for large collections.
+     */
+    #hash(contents: string | Buffer): string {
+        return createHash("sha1").update(contents).digest("hex")
+    }
+}
+
+export default CollectionWatcher
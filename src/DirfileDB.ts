@@ -6,9 +6,79 @@
  *
  * @exports {
  *     @name DirfileDBConfig
+ *     @name ExpirationConfig
  *     @name KeyValuePair
  *     @name DirfileDBMetadata
  *     @name DirfileDBMetadataFile
+ *     @name IdStrategy
+ *     @name CollectionSettings
+ *     @name CollectionMetadata
+ *     @name NewCollectionOptions
+ *     @name Query
+ *     @name QueryOperators
+ *     @name IndexOptions
+ *     @name IndexDefinition
+ *     @name CacheEvictionPolicy
+ *     @name DocumentCacheConfig
+ *     @name DocumentCacheStats
+ *     @name Transaction
+ *     @name LockConfig
+ *     @name LockHolder
+ *     @name LockError
+ *     @name SchemaType
+ *     @name CollectionSchema
+ *     @name ValidationIssue
+ *     @name DocumentValidationResult
+ *     @name SchemaValidationError
+ *     @name Collection
+ *     @name WithId
+ *     @name NewDocument
+ *     @name CollectionQuery
+ *     @name CollectionChanges
+ *     @name CollectionUpdate
+ *     @name CollectionPage
+ *     @name DocumentChangeEvent
+ *     @name CollectionChangeEvent
+ *     @name DirfileDBEvents
+ *     @name MigrationStep
+ *     @name MigrationConfig
+ *     @name MigrationRecord
+ *     @name MigrationReport
+ *     @name BulkWriteOptions
+ *     @name BulkItemResult
+ *     @name CreateManyResult
+ *     @name UpdateManyResult
+ *     @name UpsertResult
+ *     @name SortDirection
+ *     @name Sort
+ *     @name Projection
+ *     @name FindOptions
+ *     @name FindPageOptions
+ *     @name FindPageResult
+ *     @name IterateOptions
+ *     @name UpdateOperators
+ *     @name UpdateOptions
+ *     @name DeleteOptions
+ *     @name SnapshotManifest
+ *     @name DocumentFormat
+ *     @name CollectionExportOptions
+ *     @name CollectionImportOptions
+ *     @name VerifyIssueType
+ *     @name VerifyIssue
+ *     @name VerifyReport
+ *     @name RepairOptions
+ *     @name RepairReport
+ *     @name RevisionOptions
+ *     @name ConflictError
+ *     @name TrashConfig
+ *     @name TrashEntryType
+ *     @name TrashEntry
+ *     @name EncryptionKey
+ *     @name EncryptionConfig
+ *     @name EncryptionMetadata
+ *     @name Compression
+ *     @name StorageOptions
+ *     @name ParentDocument
  * }
  *
  * @default DirfileDB
@@ -19,29 +89,144 @@
  */
 
 import {
+    Dirent,
     PathLike,
+    Stats,
+    existsSync,
     statSync,
     mkdirSync,
-    writeFileSync,
     readFileSync,
-    readdirSync
+    readdirSync,
+    rmSync
 } from "fs"
 import {
     mkdir,
-    writeFile,
     readFile,
     readdir,
+    rename,
     rm,
-    unlink
+    rmdir,
+    stat
 } from "fs/promises"
-import { randomUUID } from "crypto"
-import { join } from "path"
+import { randomBytes, randomUUID } from "crypto"
+import { basename, dirname, join, relative, sep } from "path"
+import { EventEmitter } from "events"
+import { AsyncLocalStorage } from "async_hooks"
 
 /**
  * ------ Local Dependencies ------
  */
 
-import { undefinedReplacer, getPackageVersion, dirExists } from "~/util/index.js"
+import {
+    undefinedReplacer,
+    getPackageVersion,
+    dirExists,
+    pathExists,
+    writeFileAtomic,
+    writeFileAtomicSync,
+    removeTempFilesSync,
+    isTempFile,
+    matchesQuery,
+    isOperatorObject,
+    deepEqual,
+    validateSchema,
+    applyUpdate,
+    isExpired,
+    documentIndent,
+    compress,
+    decompress,
+    StorageOptions,
+    documentFilePath,
+    streamDocumentFiles,
+    listDocumentFilesSync,
+    removeEmptyShardDirs,
+    COLLECTION_PATH_SEPARATOR,
+    assertCollectionPath,
+    parentDocument,
+    listSubCollectionsSync,
+    formatFromPath,
+    toNdjson,
+    fromNdjson,
+    toCsv,
+    fromCsv,
+    sortKey,
+    compareSortKeys,
+    sortDocuments,
+    applyProjection,
+    encodeCursor,
+    decodeCursor,
+    Query,
+    FindOptions,
+    DocumentFormat,
+    CollectionSchema,
+    ValidationIssue,
+    SchemaValidationError
+} from "~/util/index.js"
+import CollectionIndex, {
+    CollectionIndexFile,
+    IndexDefinition,
+    IndexOptions
+} from "./CollectionIndex.js"
+import DocumentCache, { DocumentCacheConfig, DocumentCacheStats } from "./DocumentCache.js"
+import Transaction, { TransactionJournal, TransactionOperation } from "./Transaction.js"
+import LockManager, { LockConfig, LockError } from "./LockManager.js"
+import Collection from "./Collection.js"
+import CollectionWatcher, { WatchedChange } from "./CollectionWatcher.js"
+import Migrator, { MigrationConfig, MigrationRecord, MigrationReport } from "./Migrator.js"
+import Snapshot, { SnapshotManifest } from "./Snapshot.js"
+import Verifier, { RepairOptions, RepairReport, VerifyReport } from "./Verifier.js"
+import RevisionHistory, { ConflictError, RevisionOptions } from "./RevisionHistory.js"
+import Trash, { TrashConfig, TrashEntry } from "./Trash.js"
+import Cipher, {
+    EncryptionConfig,
+    EncryptionKey,
+    EncryptionMetadata,
+    FileCodec,
+    KeyRotationJournal
+} from "./Cipher.js"
+
+export type { Query, QueryOperators } from "~/util/index.js"
+export type { SortDirection, Sort, Projection, FindOptions } from "~/util/index.js"
+export type { IndexOptions, IndexDefinition } from "./CollectionIndex.js"
+export type {
+    CacheEvictionPolicy,
+    DocumentCacheConfig,
+    DocumentCacheStats
+} from "./DocumentCache.js"
+export type { Transaction }
+export type { LockConfig, LockHolder } from "./LockManager.js"
+export { LockError } from "./LockManager.js"
+export type { SchemaType, CollectionSchema, ValidationIssue } from "~/util/index.js"
+export type { UpdateOperators, DocumentFormat } from "~/util/index.js"
+export type { Compression, StorageOptions, ParentDocument } from "~/util/index.js"
+export { SchemaValidationError } from "~/util/index.js"
+export type { Collection }
+export type {
+    WithId,
+    NewDocument,
+    CollectionQuery,
+    CollectionChanges,
+    CollectionUpdate,
+    CollectionPage
+} from "./Collection.js"
+export type {
+    MigrationStep,
+    MigrationConfig,
+    MigrationRecord,
+    MigrationReport
+} from "./Migrator.js"
+export type { SnapshotManifest } from "./Snapshot.js"
+export type {
+    VerifyIssueType,
+    VerifyIssue,
+    VerifyReport,
+    RepairOptions,
+    RepairReport
+} from "./Verifier.js"
+export type { RevisionOptions } from "./RevisionHistory.js"
+export { ConflictError } from "./RevisionHistory.js"
+export type { TrashConfig, TrashEntryType, TrashEntry } from "./Trash.js"
+export type { EncryptionKey, EncryptionConfig, EncryptionMetadata } from "./Cipher.js"
 
 /**
  * ------ Interfaces and Types ------
@@ -51,9 +236,35 @@ import { undefinedReplacer, getPackageVersion, dirExists } from "~/util/index.js
  * @interface DirfileDBConfig
  * @description Configuration options for the DirfileDB constructor
  * @property {string} [rootDir] - Relative path to the root directory of the DirfileDB instance.
+ * @property {DocumentCacheConfig} [cache] - Enables an in-memory cache of parsed documents.
+ * @property {LockConfig | false} [locking] - Lock file timeouts used to coordinate processes
+ * sharing the root directory, `false` disables locking for single process use.
+ * @property {MigrationConfig} [migrations] - Migration steps run by `init()` when the database was
+ * written by a different package version.
+ * @property {TrashConfig} [trash] - Enables soft deletes, deleted documents and collections are
+ * moved to a trash under the root directory instead of being removed.
+ * @property {ExpirationConfig} [expiration] - Enables the background removal of expired documents.
+ * @property {EncryptionConfig} [encryption] - Enables the encryption of the files of every
+ * collection, or of the collections created with the `encrypted` option.
  */
 export interface DirfileDBConfig {
     rootDir?: string
+    cache?: DocumentCacheConfig
+    locking?: LockConfig | false
+    migrations?: MigrationConfig
+    trash?: TrashConfig
+    expiration?: ExpirationConfig
+    encryption?: EncryptionConfig
+}
+
+/**
+ * @interface ExpirationConfig
+ * @description Configuration options for the removal of expired documents, see `sweepExpired`.
+ * @property {number} [sweepInterval] - Delay between two sweeps of every collection, in
+ * milliseconds. No background sweep runs when not set.
+ */
+export interface ExpirationConfig {
+    sweepInterval?: number
 }
 
 /**
@@ -74,12 +285,16 @@ export type KeyValuePair<K, V> = [K, V]
  * @property {string} dbSignature - Signature string to validate a directory is a DirfileDB instance
  * @property {Map<string, PathLike>} collections - A map of collection names to their fs paths.
  * @property {string} version - The version of the DirfileDB client associated with this database.
+ * @property {MigrationRecord[]} [migrations] - The history of the migrations applied.
+ * @property {EncryptionMetadata} [encryption] - The key the database is encrypted with, if any.
  */
 export interface DirfileDBMetadata {
     readonly _id: string
     readonly dbSignature: string
     collections: Map<string, PathLike>
     version: string
+    migrations?: MigrationRecord[]
+    encryption?: EncryptionMetadata
 }
 
 /**
@@ -94,6 +309,275 @@ export interface DirfileDBMetadataFile extends Omit<DirfileDBMetadata, "collecti
     collections: KeyValuePair<string, PathLike>[]
 }
 
+/**
+ * @type IdStrategy
+ * @description How `_id` values are generated for documents created without one.
+ * - `uuid`: a random UUID (default).
+ * - `timestamp`: a time-ordered id made of the creation time and a random suffix, so that ids of
+ * the same collection sort by creation order.
+ */
+export type IdStrategy = "uuid" | "timestamp"
+
+/**
+ * @interface CollectionSettings
+ * @description Per-collection settings stored in the collection metadata file.
+ * @property {IdStrategy} idStrategy - How ids are generated for new documents.
+ * @property {IndexDefinition[]} indexes - The indexes defined on the collection.
+ * @property {CollectionSchema} [schema] - The schema documents must conform to, if any.
+ * @property {RevisionOptions} [revisions] - The revision settings, if documents get a `_rev`.
+ * @property {number} [ttl] - Lifetime of new documents in milliseconds, if they expire.
+ * @property {boolean} [encrypted] - Whether the files are encrypted when encryption is enabled per
+ * collection.
+ * @property {StorageOptions} [storage] - How the document files are written.
+ * @property {number} [shardDepth] - Number of hash-prefix directory levels the document files are
+ * nested in, flat when not set.
+ * @property {object} [resharding] - The shard depths a running `reshardCollection` converts
+ * between. Document files are written in both layouts until the collection switches to the new
+ * one, then the files of the previous layout are removed.
+ */
+export interface CollectionSettings {
+    idStrategy: IdStrategy
+    indexes: IndexDefinition[]
+    schema?: CollectionSchema
+    revisions?: RevisionOptions
+    ttl?: number
+    encrypted?: boolean
+    storage?: StorageOptions
+    shardDepth?: number
+    resharding?: { from: number, to: number }
+}
+
+/**
+ * @interface CollectionMetadata
+ * @description Metadata stored in each collection directory.
+ * @property {string} name - The name of the collection.
+ * @property {string} createdAt - ISO timestamp of the collection creation.
+ * @property {string} lastModified - ISO timestamp of the last document write or deletion.
+ * @property {number} documentCount - Number of documents in the collection.
+ * @property {number} totalSize - Total size of the document files in bytes.
+ * @property {CollectionSettings} settings - Per-collection settings.
+ */
+export interface CollectionMetadata {
+    name: string
+    createdAt: string
+    lastModified: string
+    documentCount: number
+    totalSize: number
+    settings: CollectionSettings
+}
+
+/**
+ * @interface NewCollectionOptions
+ * @description Options accepted when creating a new collection.
+ * @property {IdStrategy} [idStrategy] - How ids are generated for new documents, default `uuid`.
+ * @property {CollectionSchema} [schema] - The schema documents must conform to.
+ * @property {RevisionOptions} [revisions] - Gives documents a `_rev`, see `setRevisions`.
+ * @property {number} [ttl] - Lifetime of new documents in milliseconds, see `setTtl`.
+ * @property {boolean} [encrypted] - Encrypts the files of the collection, when encryption is
+ * enabled per collection.
+ * @property {StorageOptions} [storage] - Compresses or compacts the document files, see
+ * `recompactCollection`.
+ * @property {number} [shardDepth] - Nests the document files in hash-prefix directories, see
+ * `reshardCollection`.
+ */
+export interface NewCollectionOptions {
+    idStrategy?: IdStrategy
+    schema?: CollectionSchema
+    revisions?: RevisionOptions
+    ttl?: number
+    encrypted?: boolean
+    storage?: StorageOptions
+    shardDepth?: number
+}
+
+/**
+ * @interface DocumentValidationResult
+ * @description A stored document that does not conform to its collection schema.
+ * @property {string} _id - The `_id` of the document.
+ * @property {ValidationIssue[]} issues - The schema violations of the document.
+ */
+export interface DocumentValidationResult {
+    _id: string
+    issues: ValidationIssue[]
+}
+
+/**
+ * @interface FindPageOptions
+ * @description Options of `findPage`, the `skip` option is replaced by a pagination cursor.
+ * @extends Omit<FindOptions, "skip">
+ * @property {string} [cursor] - The `nextCursor` of the previous page, omitted for the first page.
+ */
+export interface FindPageOptions extends Omit<FindOptions, "skip"> {
+    cursor?: string
+}
+
+/**
+ * @interface FindPageResult
+ * @description A page of documents returned by `findPage`.
+ * @property {any[]} documents - The documents of the page.
+ * @property {string} [nextCursor] - Passed as `cursor` to get the next page, omitted on the last
+ * page.
+ */
+export interface FindPageResult {
+    documents: any[]
+    nextCursor?: string
+}
+
+/**
+ * @interface IterateOptions
+ * @description Options of `iterate`.
+ * @property {number} [concurrency] - Maximum number of document files read in parallel, defaults
+ * to `DirfileDB.DEFAULT_READ_CONCURRENCY`.
+ * @property {AbortSignal} [signal] - Stops the iteration, which then throws the abort reason.
+ */
+export interface IterateOptions {
+    concurrency?: number
+    signal?: AbortSignal
+}
+
+/**
+ * @interface UpdateOptions
+ * @description Options of `update`.
+ * @property {boolean} [replace] - Replaces the whole document with the new data instead of merging
+ * the data into it. Defaults to `false`.
+ */
+export interface UpdateOptions {
+    replace?: boolean
+}
+
+/**
+ * @interface DeleteOptions
+ * @description Options of `delete` and `deleteAll`.
+ * @property {boolean} [cascade] - Also deletes the sub-collections of the deleted documents, which
+ * are kept otherwise. Defaults to `false`.
+ */
+export interface DeleteOptions {
+    cascade?: boolean
+}
+
+/**
+ * @interface BulkWriteOptions
+ * @description Options accepted by the bulk write functions.
+ * @property {boolean} [ordered] - Stop at the first failing item (default), or attempt every item
+ * when `false`.
+ */
+export interface BulkWriteOptions {
+    ordered?: boolean
+}
+
+/**
+ * @interface BulkItemResult
+ * @description The outcome of a single item of a bulk write.
+ * @property {number} index - The position of the item within the bulk write.
+ * @property {string} [_id] - The `_id` of the written document, if known.
+ * @property {any} [document] - The stored document, when the write succeeded.
+ * @property {Error} [error] - The reason the write failed.
+ */
+export interface BulkItemResult {
+    index: number
+    _id?: string
+    document?: any
+    error?: Error
+}
+
+/**
+ * @interface CreateManyResult
+ * @description The outcome of `createMany`. Items after the first failure of an ordered write are
+ * not attempted and have no result.
+ * @property {number} insertedCount - The number of documents created.
+ * @property {string[]} insertedIds - The `_id` of each created document, in input order.
+ * @property {BulkItemResult[]} results - The outcome of each attempted item.
+ */
+export interface CreateManyResult {
+    insertedCount: number
+    insertedIds: string[]
+    results: BulkItemResult[]
+}
+
+/**
+ * @interface UpdateManyResult
+ * @description The outcome of `updateMany`.
+ * @property {number} matchedCount - The number of documents matching the query.
+ * @property {number} modifiedCount - The number of documents whose content changed.
+ * @property {BulkItemResult[]} results - The outcome of each matched document.
+ */
+export interface UpdateManyResult {
+    matchedCount: number
+    modifiedCount: number
+    results: BulkItemResult[]
+}
+
+/**
+ * @interface UpsertResult
+ * @description The outcome of `upsert`.
+ * @property {any} document - The stored document.
+ * @property {boolean} upserted - Whether the document was created rather than updated.
+ */
+export interface UpsertResult {
+    document: any
+    upserted: boolean
+}
+
+/**
+ * @interface CollectionExportOptions
+ * @description Options of `exportCollection`.
+ * @property {DocumentFormat} [format] - The format of the file, inferred from its extension
+ * (`.ndjson`, `.jsonl` or `.csv`) when missing.
+ */
+export interface CollectionExportOptions {
+    format?: DocumentFormat
+}
+
+/**
+ * @interface CollectionImportOptions
+ * @description Options of `importCollection`.
+ * @property {DocumentFormat} [format] - The format of the file, inferred from its extension
+ * (`.ndjson`, `.jsonl` or `.csv`) when missing.
+ */
+export interface CollectionImportOptions extends BulkWriteOptions {
+    format?: DocumentFormat
+}
+
+/**
+ * @interface DocumentChangeEvent
+ * @description Payload of the `documentCreated`, `documentUpdated` and `documentDeleted` events.
+ * @property {string} collection - The name of the collection holding the document.
+ * @property {string} _id - The `_id` of the document.
+ * @property {any | null} document - The new version of the document, `null` once deleted.
+ * @property {any | null} [previous] - The replaced version of the document, only known for writes
+ * made through the database.
+ * @property {boolean} external - Whether the change was made outside of this instance (by hand or
+ * by another process) and detected by `watch()`.
+ */
+export interface DocumentChangeEvent {
+    collection: string
+    _id: string
+    document: any | null
+    previous?: any | null
+    external: boolean
+}
+
+/**
+ * @interface CollectionChangeEvent
+ * @description Payload of the `collectionCreated` and `collectionDeleted` events.
+ * @property {string} collection - The name of the collection.
+ */
+export interface CollectionChangeEvent {
+    collection: string
+}
+
+/**
+ * @interface DirfileDBEvents
+ * @description The events emitted by a DirfileDB instance and their payloads.
+ */
+export interface DirfileDBEvents {
+    documentCreated: DocumentChangeEvent
+    documentUpdated: DocumentChangeEvent
+    documentDeleted: DocumentChangeEvent
+    collectionCreated: CollectionChangeEvent
+    collectionDeleted: CollectionChangeEvent
+}
+
 /**
  * @type
  * @description A type for the data passed to the `update` function. The `_id` field is required,
@@ -104,6 +588,18 @@ type UpdateData = {
     [key: string]: any
 }
 
+/**
+ * @type
+ * @description An entry of a directory walked by `#reencrypt`: a file to rewrite, or a directory
+ * to walk with whether its plain files are encrypted and the collection it belongs to.
+ */
+type ReencryptEntry = {
+    path: string
+    isDirectory: boolean
+    encryptPlain: boolean
+    collection?: string
+}
+
 /**
  * ------ Class Definition ------
  */
@@ -128,10 +624,6 @@ type UpdateData = {
  * ```
  *
  *
- * @todo add index for faster queries
- * @todo add cache for frequently requested data
- * @todo query needs to handle arrays and objects, detect array/object then string comparison
- * @todo collections directory should have their own metadata file
  */
 class DirfileDB {
 
@@ -139,17 +631,79 @@ class DirfileDB {
     static DB_SIGNATURE = "DirfileDB"
     // expected filename of the database metadata file
     static METADATA_FILENAME = "metadata-dirfile-db.json"
+    // expected filename of the metadata file within each collection directory
+    static COLLECTION_METADATA_FILENAME = ".metadata-dirfile-collection.json"
+    // name of the directory holding the index files within each collection directory
+    static INDEX_DIRNAME = ".dirfile-indexes"
+    // name of the directory holding transaction journals within the root directory
+    static JOURNAL_DIRNAME = ".dirfile-journal"
+    // name of the directory holding lock files within the root directory
+    static LOCK_DIRNAME = ".dirfile-locks"
+    // deepest shard layout of a collection, see reshardCollection
+    static MAX_SHARD_DEPTH = 4
+    // name of the file describing a running key rotation within the root directory
+    static KEY_ROTATION_FILENAME = ".dirfile-key-rotation.json"
     // current version of the running client, should match metadata version
     static VERSION = getPackageVersion()
+    // number of document files read in parallel by queries
+    static DEFAULT_READ_CONCURRENCY = 8
 
     // root directory of DirfileDB database
     #rootDir: string
     // metadata about the database instance
     #metadata!: DirfileDBMetadata
     // path to the metadata file
-    #metadataPath: PathLike
+    #metadataPath: string
     // the collections in the database, Map<collection name, collection path>
     #collections: Map<string, PathLike>
+    // the indexes of each collection, Map<collection name, Map<indexed field, index>>
+    #indexes: Map<string, Map<string, CollectionIndex>>
+    // version of each index file the in-memory index was read from or written to,
+    // Map<index file path, version>
+    #indexVersions: Map<string, string>
+    // metadata of each collection, Map<collection name, collection metadata>
+    #collectionMetadata: Map<string, CollectionMetadata>
+    // optional cache of parsed documents, keyed by document file path
+    #cache?: DocumentCache
+    // lock files coordinating writers sharing the root directory, undefined when disabled
+    #locks?: LockManager
+    // marks the calls made within a write, or within the write barrier
+    #writeScope: AsyncLocalStorage<boolean>
+    // lock resources held by the calls made within a locked write
+    #heldLocks: AsyncLocalStorage<Set<string>>
+    // number of writes in flight in this process
+    #activeWrites: number
+    // shared hold of the write barrier lock, taken while writes are in flight in this process
+    #sharedWrites?: Promise<() => Promise<void>>
+    // set while this process holds the write barrier, new writes wait for it
+    #writeBarrier?: Promise<void>
+    // called once the writes in flight in this process are done
+    #onWritesDrained?: () => void
+    // emitter of the change events
+    #events: EventEmitter
+    // watchers of external document changes, Map<collection name, watcher>
+    #watchers: Map<string, CollectionWatcher>
+    // whether every collection is watched, including the ones created later
+    #watchAll: boolean
+    // migration steps run on a version mismatch
+    #migrationConfig?: MigrationConfig
+    // outcome of the migration run by the last init, if any
+    #migrationReport?: MigrationReport
+    // trash of soft deleted items, undefined when deletes are permanent
+    #trash?: Trash
+    // timer of the background sweeps of expired documents, if configured
+    #sweepTimer?: NodeJS.Timeout
+    // aborts the running background sweep, if any
+    #sweep?: AbortController
+    // key or passphrase the database is encrypted with
+    #encryptionConfig?: EncryptionConfig
+    // encrypts and decrypts files, undefined when encryption is disabled
+    #cipher?: Cipher
+    // key rotation interrupted by a crash, finished once the database is loaded
+    #pendingKeyRotation?: { target: EncryptionMetadata }
+    // whether plain files of encrypted collections are read: while initializing, until the files
+    // written before encryption was enabled are encrypted, and on an unmigrated dry run
+    #plainAccepted: boolean
 
     /**
      * @constructor
@@ -158,9 +712,34 @@ class DirfileDB {
     constructor(args?: DirfileDBConfig) {
         this.#rootDir = args?.rootDir || "./defaultDB"
         this.#collections = new Map<string, PathLike>()
+        this.#indexes = new Map<string, Map<string, CollectionIndex>>()
+        this.#indexVersions = new Map<string, string>()
+        this.#collectionMetadata = new Map<string, CollectionMetadata>()
+        this.#cache = args?.cache ? new DocumentCache(args.cache) : undefined
         this.#metadataPath = join(this.#rootDir, DirfileDB.METADATA_FILENAME)
+        this.#locks = args?.locking === false
+            ? undefined
+            : new LockManager(join(this.#rootDir, DirfileDB.LOCK_DIRNAME), args?.locking)
+        this.#writeScope = new AsyncLocalStorage<boolean>()
+        this.#heldLocks = new AsyncLocalStorage<Set<string>>()
+        this.#activeWrites = 0
+        this.#events = new EventEmitter()
+        this.#watchers = new Map<string, CollectionWatcher>()
+        this.#watchAll = false
+        this.#migrationConfig = args?.migrations
+        this.#trash = args?.trash
+            ? new Trash(join(this.#rootDir, Trash.TRASH_DIRNAME), args.trash, this.#codec())
+            : undefined
+        this.#encryptionConfig = args?.encryption
+        this.#plainAccepted = false
 
         this.init()
+
+        const sweepInterval = args?.expiration?.sweepInterval
+        if (sweepInterval && !this.#migrationReport?.dryRun) {
+            this.#sweepTimer = setInterval(() => this.#runSweep(), sweepInterval)
+            this.#sweepTimer.unref()
+        }
     }
 
     /**
@@ -170,17 +749,23 @@ class DirfileDB {
     /**
      * @description Initializes a client instance of DirfileDB.
      * - For a new database instance, it creates the root directory and initializes metadata.
-     * - For an existing database structure, it loads metadata and populates in-memory values.
+     * - For an existing database structure, it loads metadata and populates in-memory values, then
+     * recovers from a crash (see `#recoverSync`). Databases written by a different package version
+     * are migrated (see `#migrateSync`), nothing is written to them before their backup is taken.
      *
      * @returns {DirfileDBMetadata} The metadata for the initialized or loaded database instance.
      * @throws {Error} Throws an error if the directory structure is invalid or metadata is invalid.
      */
     init(): DirfileDBMetadata {
+        this.#plainAccepted = true
+
         try {
             if (!dirExists(this.#rootDir)) {
                 mkdirSync(this.#rootDir, { recursive: true })
 
                 this.#initMetadata()
+                const newKey = this.#initEncryptionSync()
+                if (newKey) this.#updateMetadataSync(metadata => { metadata.encryption = newKey })
 
                 console.log("initialized database at:", this.#rootDir)
             } else {
@@ -192,15 +777,25 @@ class DirfileDB {
                     throw Error("root directory exists, but could not validate instance metadata")
                 }
 
-                if (metadata.version !== DirfileDB.VERSION) {
-                    throw Error("metadata version does not match package version")
-                }
-
                 //set the in memory metadata
                 this.#metadata = metadata
 
-                //initialize existing DB to load collections
-                this.#initExistingDB()
+                //check the encryption key before reading any encrypted file
+                const newKey = this.#initEncryptionSync()
+
+                //initialize existing DB to load collections, without writing anything yet
+                const unbuilt = this.#initExistingDB()
+
+                //bring databases written by another package version up to date, the recovery is
+                //run by the migration once the database is backed up, or finishes a migration
+                //interrupted while its documents were committed
+                const recover = () => this.#recoverSync(unbuilt, newKey)
+                const migrating = existsSync(join(this.#rootDir, Migrator.JOURNAL_FILENAME))
+                if (metadata.version !== DirfileDB.VERSION && !migrating) {
+                    this.#migrateSync(recover)
+                } else {
+                    recover()
+                }
 
                 console.log("loaded database from:", this.#rootDir)
             }
@@ -208,36 +803,238 @@ class DirfileDB {
             return this.#metadata
         } catch (error) {
             throw Error(`failed to initialize DB: ${error}`)
+        } finally {
+            this.#plainAccepted = this.#migrationReport?.dryRun === true
         }
     }
 
     /**
      * @private
      * @description Initializes the in-memory collections map by scanning the root directory for
-     * subdirectories (which represent collections in DirfileDB). This function is called when the
-     * database is initialized from an existing file structure.
+     * subdirectories (which represent collections in DirfileDB). Hidden (dot-prefixed) directories
+     * are reserved for internal use and are not collections. This function is called when the
+     * database is initialized from an existing file structure. Each collection metadata file is
+     * loaded, collections that do not have one yet are returned to be built from their directory
+     * contents. Sub-collections are loaded recursively along with their parent collection.
      *
+     * @returns {string[]} The collections without a metadata file.
      * @throws {Error} Throws an error if there is an issue reading the directory contents.
      */
-    #initExistingDB () {
+    #initExistingDB (): string[] {
         try {
             const collections = readdirSync(this.#rootDir)
+            const unbuilt: string[] = []
 
             for (const collection of collections) {
                 const collectionPath = join(this.#rootDir, collection)
                 const stats = statSync(collectionPath)
 
-                if (stats.isDirectory()) {
-                    this.#collections.set(collection, collectionPath)
+                if (stats.isDirectory() && !collection.startsWith(".")) {
+                    unbuilt.push(...this.#loadCollectionSync(collection, collectionPath))
                 }
             }
 
+            return unbuilt
         } catch (error) {
             console.error("Failed to initialize existing DB:", error)
             throw error
         }
     }
 
+    /**
+     * @private
+     * @description Synchronously loads a collection along with its indexes and metadata, then the
+     * sub-collections found under its document directories, recursively.
+     *
+     * @returns {string[]} The loaded collections without a metadata file, to be built with
+     * `#rebuildCollectionSync`.
+     * @throws {Error} If a metadata or index file cannot be read.
+     */
+    #loadCollectionSync(collection: string, collectionPath: string): string[] {
+        this.#collections.set(collection, collectionPath)
+        this.#loadIndexesSync(collection, collectionPath)
+        const unbuilt = this.#loadCollectionMetadataSync(collection, collectionPath)
+            ? [collection]
+            : []
+
+        const subCollections = listSubCollectionsSync(
+            collectionPath,
+            DirfileDB.COLLECTION_METADATA_FILENAME
+        )
+        for (const subCollection of subCollections) {
+            unbuilt.push(...this.#loadCollectionSync(
+                `${collection}${COLLECTION_PATH_SEPARATOR}${subCollection}`,
+                join(collectionPath, subCollection)
+            ))
+        }
+
+        return unbuilt
+    }
+
+    /**
+     * @private
+     * @description Synchronously brings an existing database back to a consistent state once it
+     * is safe to write to it: finishes an interrupted migration, records a newly configured key,
+     * removes temporary files left by interrupted writes, builds the metadata of the collections
+     * that have none and recovers the transactions and key rotation interrupted by a crash.
+     * Expired trash entries are purged.
+     *
+     * @param {string[]} unbuilt - The collections without a metadata file.
+     * @param {EncryptionMetadata} [newKey] - The configured key, if not recorded yet.
+     *
+     * @throws {Error} If a file cannot be recovered.
+     */
+    #recoverSync(unbuilt: string[], newKey?: EncryptionMetadata) {
+        //finish a migration interrupted by a crash, before its staged documents are removed
+        this.#recoverMigrationSync()
+
+        //encrypt the files written before encryption was enabled, then record the key
+        if (newKey) {
+            this.#withLockSync("writes", () => this.#reencryptSync(this.#rootDir, false))
+            this.#updateMetadataSync(metadata => { metadata.encryption = newKey })
+        }
+
+        //remove leftovers of writes interrupted by a crash, targets are still intact
+        const tempFiles = removeTempFilesSync(this.#rootDir)
+        if (tempFiles.length > 0) {
+            console.log("removed interrupted write files:", tempFiles)
+        }
+
+        for (const collection of unbuilt) this.#rebuildCollectionSync(collection)
+
+        //finish or undo transactions interrupted by a crash
+        this.#recoverJournalsSync()
+
+        //finish a key rotation interrupted by a crash
+        if (this.#pendingKeyRotation) this.#recoverKeyRotationSync()
+
+        //remove trashed items past their retention period
+        const purged = this.#trash?.purgeExpiredSync() ?? 0
+        if (purged > 0) console.log("purged expired trash entries:", purged)
+    }
+
+    /**
+     * @private
+     * @description Synchronously migrates a database written by a different package version with
+     * the configured migration steps, while holding the migration lock. A copy of the database is
+     * taken first, before `recover` writes anything, and the applied steps are recorded in the
+     * metadata history. A dry run only reports the outcome, nothing is written and the database is
+     * left at its stored version, the instance then refuses writes (see `#assertWritable`).
+     *
+     * @param {Function} recover - Brings the database to a consistent state, see `#recoverSync`.
+     *
+     * @throws {Error} If no migration steps are configured, no chain of steps leads to the package
+     * version, or a step fails.
+     */
+    #migrateSync(recover: () => void) {
+        const config = this.#migrationConfig
+        if (!config) {
+            throw Error(
+                `metadata version ${this.#metadata.version} does not match package version ` +
+                `${DirfileDB.VERSION} and no migrations are configured`
+            )
+        }
+
+        const migrate = () => {
+            // another process may have migrated the database while waiting for the lock
+            const metadata = this.#readMetadataFileSync()
+            if (metadata.version === DirfileDB.VERSION) {
+                this.#metadata = metadata
+                recover()
+                return
+            }
+
+            const migrator = new Migrator(
+                this.#rootDir,
+                config.steps,
+                [DirfileDB.LOCK_DIRNAME, Verifier.QUARANTINE_DIRNAME],
+                collection => ({
+                    codec: this.#documentCodec(collection),
+                    indent: documentIndent(this.#storage(collection)),
+                    shardDepth: this.#shardDepth(collection)
+                })
+            )
+            if (config.dryRun) {
+                const { report } = migrator.migrate(
+                    { ...metadata, collections: Array.from(metadata.collections) },
+                    this.#collections,
+                    DirfileDB.VERSION,
+                    config
+                )
+                this.#migrationReport = report
+
+                console.log("migration dry run:", report)
+                return
+            }
+
+            const backupDir = (config.backup ?? true)
+                ? migrator.backup(metadata.version)
+                : undefined
+            recover()
+
+            const recovered = this.#readMetadataFileSync()
+            const { metadata: migrated, report } = migrator.migrate(
+                { ...recovered, collections: Array.from(recovered.collections) },
+                this.#collections,
+                DirfileDB.VERSION,
+                { ...config, backup: false }
+            )
+            if (backupDir) report.backupDir = backupDir
+            this.#migrationReport = report
+
+            this.#metadata = { ...migrated, collections: new Map(migrated.collections) }
+            this.#withLockSync("database", () => this.#writeMetadataFileSync())
+            migrator.removeJournal()
+
+            if (report.steps.some(step => step.documentsChanged > 0)) {
+                for (const collection of this.#collections.keys()) {
+                    this.#rebuildCollectionSync(collection)
+                }
+            }
+
+            console.log(`migrated database from ${report.from} to ${report.to}`)
+        }
+
+        if (this.#locks) {
+            this.#locks.withLockSync("migration", migrate)
+        } else {
+            migrate()
+        }
+    }
+
+    /**
+     * @private
+     * @description Synchronously finishes a migration interrupted by a crash while its documents
+     * were committed (see `Migrator.recoverSync`), while holding the migration lock. The migrated
+     * metadata is written and every collection is rebuilt from its migrated documents.
+     *
+     * @throws {Error} If the migration journal cannot be read or a document cannot be committed.
+     */
+    #recoverMigrationSync() {
+        if (!existsSync(join(this.#rootDir, Migrator.JOURNAL_FILENAME))) return
+
+        this.#withLockSync("migration", () => {
+            const migrator = new Migrator(this.#rootDir, [])
+            const migrated = migrator.recoverSync()
+
+            // finished by another process while waiting for the lock
+            if (!migrated) {
+                this.#metadata = this.#readMetadataFileSync()
+                return
+            }
+
+            this.#metadata = { ...migrated, collections: new Map(migrated.collections) }
+            this.#withLockSync("database", () => this.#writeMetadataFileSync())
+            migrator.removeJournal()
+
+            for (const collection of this.#collections.keys()) {
+                this.#rebuildCollectionSync(collection)
+            }
+
+            console.log(`finished the interrupted migration to ${migrated.version}`)
+        })
+    }
+
     /**
      * ------ Metadata Functions ------
      */
@@ -262,7 +1059,7 @@ class DirfileDB {
         this.#metadata = metadata
 
         //save to file for persistence
-        this.#writeMetadataFileSync()
+        this.#withLockSync("database", () => this.#writeMetadataFileSync())
     }
 
     /**
@@ -275,19 +1072,7 @@ class DirfileDB {
      */
     #readMetadataFileSync(): DirfileDBMetadata | never {
         try {
-            const rawMetadata = readFileSync(this.#metadataPath, "utf8")
-            const metadataFile = JSON.parse(rawMetadata) as DirfileDBMetadataFile
-
-            // Create a new DirfileDBMetadata object from metadataFile
-            const metadata: DirfileDBMetadata = {
-                _id: metadataFile._id,
-                dbSignature: metadataFile.dbSignature,
-                version: metadataFile.version,
-                // convert <K, V>[] from metadata file to Map<K, V>
-                collections: new Map(metadataFile.collections)
-            }
-
-            return metadata
+            return this.#parseMetadata(readFileSync(this.#metadataPath, "utf8"))
         } catch (error) {
             throw Error(`failed to read metadata file: ${error}` )
         }
@@ -295,333 +1080,3639 @@ class DirfileDB {
 
     /**
      * @private
-     * @description Synchronously writes the current metadata to the metadata file in the database
-     * directory. It serializes the DirfileDBMetadata object and saves it in JSON format.
+     * @description Asynchronous version of `#readMetadataFileSync`.
      *
-     * @throws {Error} If the metadata file cannot be written.
+     * @returns {Promise<DirfileDBMetadata>} The metadata of the DirfileDB instance.
+     * @throws {Error} If the metadata file cannot be read or is invalid.
      */
-    #writeMetadataFileSync() {
+    async #readMetadataFile(): Promise<DirfileDBMetadata> {
         try {
-            const writeMetadata: DirfileDBMetadataFile = {
-                ...this.#metadata,
-                collections: Array.from(this.#metadata.collections)
-            }
-
-            writeFileSync(
-                this.#metadataPath,
-                JSON.stringify(writeMetadata, undefinedReplacer, 2),
-                { encoding: "utf8" }
-            )
+            return this.#parseMetadata(await readFile(this.#metadataPath, "utf8"))
         } catch (error) {
-            console.error(error)
+            throw Error(`failed to read metadata file: ${error}` )
         }
-
     }
 
     /**
      * @private
-     * @description Updates the metadata of the DirfileDB instance with the given partial updates.
-     * It merges the current metadata with the provided updates and writes the updated
-     * metadata to the metadata file.
-     *
-     * @param {Partial<DirfileDBMetadata>} updates - A partial metadata object containing updates.
-     *
-     * @throws {Error} If the metadata file cannot be written after the update.
+     * @description Parses the contents of the metadata file into a DirfileDBMetadata object.
      */
-    #updateMetadata(updates: Partial<DirfileDBMetadata>) {
-        this.#metadata = {
-            ...this.#metadata,
-            ...updates
+    #parseMetadata(rawMetadata: string): DirfileDBMetadata {
+        const metadataFile = JSON.parse(rawMetadata) as DirfileDBMetadataFile
+
+        // Create a new DirfileDBMetadata object from metadataFile
+        const metadata: DirfileDBMetadata = {
+            _id: metadataFile._id,
+            dbSignature: metadataFile.dbSignature,
+            version: metadataFile.version,
+            // convert <K, V>[] from metadata file to Map<K, V>
+            collections: new Map(metadataFile.collections)
         }
+        if (metadataFile.migrations) metadata.migrations = metadataFile.migrations
+        if (metadataFile.encryption) metadata.encryption = metadataFile.encryption
 
-        this.#writeMetadataFileSync()
+        return metadata
     }
 
     /**
-     * ------ Collection Functions ------
-     */
-
-    /**
-     * @description Creates a new collection directory within the database. If the collection
-     * already exists, it returns the existing collection path. Otherwise, it creates a new
-     * directory and adds the collection to the in-memory collection list and metadata.
-     *
-     * @param {string} name - The name of the collection to create.
+     * @private
+     * @description Synchronously writes the current metadata to the metadata file in the database
+     * directory. It serializes the DirfileDBMetadata object and atomically saves it in JSON format.
+     * Callers hold the database lock.
      *
-     * @returns {Promise<string | PathLike>} The path of created or existing collection directory.
-     * @throws {Error} If there is a failure during the collection creation process.
+     * @throws {Error} If the metadata file cannot be written.
      */
-    async newCollection(name: string): Promise<string | PathLike> {
+    #writeMetadataFileSync() {
         try {
-            const collection = this.#collections.get(name)
-            if (collection) {
-                console.log("collection already exists")
-                return collection
-            }
-
-            const collectionDir = join(this.#rootDir, name)
-            await mkdir(collectionDir, { recursive: true })
-
-            this.#collections.set(name, collectionDir)
-
-            this.#updateMetadata({
-                collections: this.#collections
-            })
-
-            return collectionDir
+            writeFileAtomicSync(this.#metadataPath, this.#serializeMetadata())
         } catch (error) {
-            console.error("failed to create new collection: ", error)
-            throw error
+            throw Error(`failed to write metadata file: ${error}`)
         }
     }
 
     /**
-     * @description Returns the names of all collections stored in the DirfileDB instance.
-     *
-     * @returns {string[]} An array of collection names.
-     */
-    listCollections(): string[] { return Array.from(this.#collections.keys()) }
-
-    /**
-     * @description Removes the specified collection directory from the filesystem and deletes it
-     * from the in-memory collections list. The metadata is updated to reflect collection removal.
-     *
-     * @param {string} collection - The name of the collection to delete.
+     * @private
+     * @description Asynchronous version of `#writeMetadataFileSync`.
      *
-     * @returns {Promise<void>} A promise indicating completion.
-     * @throws {Error} If the collection does not exist or if deletion fails.
+     * @throws {Error} If the metadata file cannot be written.
      */
-    async deleteCollection(collection: string): Promise<void> {
+    async #writeMetadataFile() {
         try {
-            const collectionPath = this.#collections.get(collection)
-            if (!collectionPath) throw Error("collection does not exist")
-
-            await rm(collectionPath, { recursive: true, force: true })
-            this.#collections.delete(collection)
+            await writeFileAtomic(this.#metadataPath, this.#serializeMetadata())
         } catch (error) {
-            console.error(`failed to delete collection ${collection}: `, error)
-            throw error
+            throw Error(`failed to write metadata file: ${error}`)
         }
     }
 
     /**
-     * ------ Document Functions ------
+     * @private
+     * @description Serializes the current metadata into the contents of the metadata file.
      */
+    #serializeMetadata(): string {
+        const writeMetadata: DirfileDBMetadataFile = {
+            ...this.#metadata,
+            collections: Array.from(this.#metadata.collections)
+        }
+
+        return JSON.stringify(writeMetadata, undefinedReplacer, 2)
+    }
 
     /**
-     * @description Creates a new document by converting the data to a JSON string, and saving it
-     * as a `.json` file within the specified collection directory. If document _id is not provided
-     * a UUID value will be appeneded to the JSON document.
-     *
-     * @param {string} collection - The name of the collection where the document will be created.
-     * @param {any} data - The data to be stored in the new document.
+     * @private
+     * @description Applies a change to the metadata of the DirfileDB instance and writes it to the
+     * metadata file while holding the database lock. When locking is enabled the file is re-read
+     * under the lock first, so only this change is applied over the changes made by other
+     * processes.
      *
-     * @returns {Promise<void>} A promise indicating completion of the document creation process.
-     * @throws {Error} If the collection does not exist or there is a document creation failure.
+     * @param {Function} updater - Applies the change to the metadata.
      *
-     * @todo return minimal version of created entity id atleast
-     * @todo verify id uniqueness from index, fail on existing _id
+     * @throws {Error} If the metadata file cannot be read or written.
+     * @throws {LockError} If the database lock is still held after the lock timeout.
      */
-    async create(collection: string, data: any): Promise<void> {
-        try {
-            const collectionPath = this.#collections.get(collection)
-            if (!collectionPath) throw Error(`collection ${collection}, does not exist`)
-
-            const id = data._id ?  data._id : randomUUID({ disableEntropyCache: true })
+    async #updateMetadata(updater: (metadata: DirfileDBMetadata) => void) {
+        await this.#withLock("database", async () => {
+            if (this.#locks) this.#metadata = await this.#readMetadataFile()
 
-            const jsonDataString = JSON.stringify(data, undefinedReplacer, 2)
-            const documentPath = join(collectionPath.toString(), `${id}.json`)
+            updater(this.#metadata)
 
-            await writeFile(documentPath, jsonDataString, { encoding: "utf8" })
-
-        } catch (error) {
-            console.error(`failed to add data to ${collection}: `, error)
-            throw error
-        }
+            await this.#writeMetadataFile()
+        })
     }
 
     /**
-     * @description Searches through the documents in the specified collection directory and returns
-     * the first document that matches the query. The query is matched by comparing key-value pairs
-     * between the document and the query object.
-     *
-     * @param {string} collection - The name of the collection to search within.
-     * @param {any} query - The query object of key-value pairs to match against documents.
-     *
-     * @returns {Promise<any | null>} The first document found or `null` if no document is found.
+     * @private
+     * @description Synchronous version of `#updateMetadata`, blocking the thread while waiting
+     * for the database lock. Only used while initializing the database.
      */
-    async find(collection: string, query: any): Promise<any | null> {
-        try {
-            const collectionPath = this.#collections.get(collection)
-            if (!collectionPath) throw new Error("Collection does not exist")
+    #updateMetadataSync(updater: (metadata: DirfileDBMetadata) => void) {
+        this.#assertWritable()
 
-            const files = await readdir(collectionPath)
+        this.#withLockSync("database", () => {
+            if (this.#locks) this.#metadata = this.#readMetadataFileSync()
 
-            for (const file of files) {
+            updater(this.#metadata)
+
+            this.#writeMetadataFileSync()
+        })
+    }
+
+    /**
+     * @private
+     * @description Returns the path of the metadata file within a collection directory.
+     */
+    #collectionMetadataPath(collectionPath: PathLike): string {
+        return join(collectionPath.toString(), DirfileDB.COLLECTION_METADATA_FILENAME)
+    }
+
+    /**
+     * @private
+     * @description Synchronously loads the metadata file of a collection into memory. Collections
+     * created before metadata files existed get empty metadata, to be built from their current
+     * document files by `#rebuildCollectionSync`.
+     *
+     * @returns {boolean} Whether the collection has no metadata file and needs to be built.
+     * @throws {Error} If the metadata file cannot be read or parsed.
+     */
+    #loadCollectionMetadataSync(collection: string, collectionPath: PathLike): boolean {
+        const metadataPath = this.#collectionMetadataPath(collectionPath)
+
+        try {
+            const rawMetadata = this.#codec(collection).decode(readFileSync(metadataPath, "utf8"))
+            this.#collectionMetadata.set(collection, JSON.parse(rawMetadata) as CollectionMetadata)
+            return false
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+        }
+
+        const stats = statSync(collectionPath)
+        const metadata = this.#newCollectionMetadata(collection)
+        metadata.createdAt = stats.birthtime.toISOString()
+        metadata.settings.indexes = this.listIndexes(collection)
+
+        this.#collectionMetadata.set(collection, metadata)
+
+        return true
+    }
+
+    /**
+     * @private
+     * @description Synchronously recomputes the document count, total size and indexes of a
+     * collection from its document files, then writes the collection metadata and index files.
+     * Used when documents were written without going through the regular write path.
+     *
+     * @throws {Error} If a document, index or metadata file cannot be read or written.
+     */
+    #rebuildCollectionSync(collection: string) {
+        const collectionPath = this.#collections.get(collection)
+        const metadata = this.#collectionMetadata.get(collection)
+        if (!collectionPath || !metadata) throw Error("collection does not exist")
+
+        const collectionIndexes = this.#indexes.get(collection) ?? new Map()
+        for (const [field, index] of collectionIndexes) {
+            collectionIndexes.set(field, new CollectionIndex(index.definition()))
+        }
+
+        metadata.documentCount = 0
+        metadata.totalSize = 0
+
+        const depth = metadata.settings.shardDepth ?? 0
+        for (const file of listDocumentFilesSync(collectionPath.toString(), depth)) {
+            const filePath = join(collectionPath.toString(), file)
+            metadata.documentCount++
+            metadata.totalSize += statSync(filePath).size
+
+            if (collectionIndexes.size === 0) continue
+
+            const document = JSON.parse(this.#codec(collection).decode(readFileSync(filePath)))
+            for (const index of collectionIndexes.values()) {
+                index.add(basename(file, ".json"), document)
+            }
+        }
+
+        if (collectionIndexes.size > 0) {
+            mkdirSync(join(collectionPath.toString(), DirfileDB.INDEX_DIRNAME), { recursive: true })
+        }
+        for (const index of collectionIndexes.values()) {
+            writeFileAtomicSync(
+                this.#indexPath(collectionPath, index.field),
+                this.#codec(collection).encode(JSON.stringify(index.toFile()))
+            )
+        }
+
+        this.#cache?.deletePrefix(`${collectionPath.toString()}${sep}`)
+
+        writeFileAtomicSync(
+            this.#collectionMetadataPath(collectionPath),
+            this.#codec(collection).encode(JSON.stringify(metadata, undefinedReplacer, 2))
+        )
+    }
+
+    /**
+     * @private
+     * @description Creates the metadata of an empty collection.
+     */
+    #newCollectionMetadata(name: string, options?: NewCollectionOptions): CollectionMetadata {
+        const now = new Date().toISOString()
+
+        return {
+            name,
+            createdAt: now,
+            lastModified: now,
+            documentCount: 0,
+            totalSize: 0,
+            settings: {
+                idStrategy: options?.idStrategy ?? "uuid",
+                indexes: [],
+                schema: options?.schema,
+                revisions: options?.revisions,
+                ttl: options?.ttl,
+                encrypted: options?.encrypted,
+                storage: options?.storage,
+                shardDepth: options?.shardDepth
+            }
+        }
+    }
+
+    /**
+     * @private
+     * @description Applies changes to the metadata of a collection and writes it to the collection
+     * metadata file. When locking is enabled the file is re-read while holding the collection lock,
+     * so changes made by other processes are not lost.
+     *
+     * @throws {Error} If the collection does not exist or the metadata file cannot be written.
+     */
+    async #updateCollectionMetadata(
+        collection: string,
+        updater: (metadata: CollectionMetadata) => void
+    ) {
+        const collectionPath = this.#collections.get(collection)
+        if (!collectionPath || !this.#collectionMetadata.has(collection)) {
+            throw Error("collection does not exist")
+        }
+
+        await this.#withLock(`collections/${collection}`, async () => {
+            if (this.#locks) {
+                const rawMetadata = await readFile(
+                    this.#collectionMetadataPath(collectionPath),
+                    "utf8"
+                )
+                this.#collectionMetadata.set(
+                    collection,
+                    JSON.parse(this.#codec(collection).decode(rawMetadata))
+                )
+            }
+
+            updater(this.#collectionMetadata.get(collection)!)
+
+            await this.#writeCollectionMetadata(collection)
+        })
+    }
+
+    /**
+     * @private
+     * @description Writes the in-memory metadata of a collection to the collection metadata file.
+     *
+     * @throws {Error} If the collection does not exist or the metadata file cannot be written.
+     */
+    async #writeCollectionMetadata(collection: string) {
+        const collectionPath = this.#collections.get(collection)
+        const metadata = this.#collectionMetadata.get(collection)
+        if (!collectionPath || !metadata) throw Error("collection does not exist")
+
+        await writeFileAtomic(
+            this.#collectionMetadataPath(collectionPath),
+            this.#codec(collection).encode(JSON.stringify(metadata, undefinedReplacer, 2))
+        )
+    }
+
+    /**
+     * @private
+     * @description Records a document write or deletion in the collection metadata.
+     *
+     * @param {string} collection - The name of the collection that changed.
+     * @param {number} countChange - The change in number of documents.
+     * @param {number} sizeChange - The change in total size of the documents in bytes.
+     */
+    async #recordCollectionChange(collection: string, countChange: number, sizeChange: number) {
+        await this.#updateCollectionMetadata(collection, metadata => {
+            metadata.documentCount += countChange
+            metadata.totalSize += sizeChange
+            metadata.lastModified = new Date().toISOString()
+        })
+    }
+
+    /**
+     * ------ Collection Functions ------
+     */
+
+    /**
+     * @description Creates a new collection directory within the database. If the collection
+     * already exists, it returns the existing collection path. Otherwise, it creates a new
+     * directory and adds the collection to the in-memory collection list and metadata. The new
+     * collection directory holds its own metadata file with statistics and settings.
+     * A collection path (ex: `projects/<_id>/tasks`) creates a sub-collection of a document, kept
+     * under `projects/<_id>/tasks/`. The parent collection must exist, the document need not.
+     *
+     * @param {string} name - The name of the collection to create, or the path of a
+     * sub-collection.
+     * @param {NewCollectionOptions} [options] - Settings for the new collection.
+     *
+     * @returns {Promise<string | PathLike>} The path of created or existing collection directory.
+     * @throws {Error} If the collection path is invalid, the parent collection does not exist or
+     * there is a failure during the collection creation process.
+     */
+    async newCollection(
+        name: string,
+        options?: NewCollectionOptions
+    ): Promise<string | PathLike> {
+        try {
+            const collection = this.#collections.get(name)
+            if (collection) {
+                console.log("collection already exists")
+                return collection
+            }
+
+            assertCollectionPath(name)
+            const parent = parentDocument(name)
+            if (parent && !this.#collections.has(parent.collection)) {
+                throw Error(`parent collection ${parent.collection} does not exist`)
+            }
+
+            if (options?.encrypted && !this.#cipher) {
+                throw Error("encrypted collections require the encryption option")
+            }
+            if (options?.shardDepth !== undefined) this.#assertShardDepth(options.shardDepth)
+
+            const collectionDir = join(this.#rootDir, name)
+            await this.#withWrite(async () => {
+                await mkdir(collectionDir, { recursive: true })
+
+                this.#collections.set(name, collectionDir)
+                this.#collectionMetadata.set(name, this.#newCollectionMetadata(name, options))
+                await this.#writeCollectionMetadata(name)
+            })
+
+            await this.#updateMetadata(metadata => metadata.collections.set(name, collectionDir))
+
+            this.#emit("collectionCreated", { collection: name })
+            if (this.#watchAll) await this.#startWatcher(name)
+
+            return collectionDir
+        } catch (error) {
+            console.error("failed to create new collection: ", error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Returns the names of all collections stored in the DirfileDB instance,
+     * sub-collections included under their path.
+     *
+     * @returns {string[]} An array of collection names.
+     */
+    listCollections(): string[] { return Array.from(this.#collections.keys()) }
+
+    /**
+     * @description Returns the paths of the sub-collections of the documents of a collection.
+     *
+     * @param {string} collection - The name of the parent collection.
+     * @param {string} [id] - The `_id` of the parent document, every document when omitted.
+     *
+     * @returns {string[]} An array of sub-collection paths.
+     */
+    listSubCollections(collection: string, id?: string): string[] {
+        return this.listCollections().filter(name => {
+            const parent = parentDocument(name)
+
+            if (parent?.collection !== collection) return false
+
+            return id === undefined || parent.documentId === id
+        })
+    }
+
+    /**
+     * @description Returns a handle over a collection whose document functions are typed against
+     * the document type `T`. The handle forwards to the untyped functions, so the collection must
+     * exist by the time they are called.
+     *
+     * @param {string} name - The name of the collection.
+     *
+     * @returns {Collection<T>} A typed handle over the collection.
+     */
+    collection<T extends object>(name: string): Collection<T> {
+        return new Collection<T>(this, name)
+    }
+
+    /**
+     * @description Returns the metadata of a collection: its creation and last-modified times,
+     * document count, total size and settings.
+     *
+     * @param {string} name - The name of the collection.
+     *
+     * @returns {CollectionMetadata | undefined} A copy of the collection metadata, or `undefined`
+     * if the collection does not exist.
+     */
+    getCollectionInfo(name: string): CollectionMetadata | undefined {
+        const metadata = this.#collectionMetadata.get(name)
+        return metadata ? structuredClone(metadata) : undefined
+    }
+
+    /**
+     * @description Removes the specified collection directory from the filesystem and deletes it
+     * from the in-memory collections list. The metadata is updated to reflect collection removal.
+     * With soft deletes enabled the directory is moved to the trash instead, see `restore`.
+     * The sub-collections of the collection are kept within its directory and go along with it.
+     *
+     * @param {string} collection - The name of the collection to delete.
+     *
+     * @returns {Promise<void>} A promise indicating completion.
+     * @throws {Error} If the collection does not exist or if deletion fails.
+     */
+    async deleteCollection(collection: string): Promise<void> {
+        try {
+            const collectionPath = this.#collections.get(collection)
+            if (!collectionPath) throw Error("collection does not exist")
+
+            const removed = [collection, ...this.#descendantCollections(collection)]
+            for (const name of removed) {
+                this.#watchers.get(name)?.stop()
+                this.#watchers.delete(name)
+            }
+
+            await this.#withWrite(async () => {
+                if (this.#trash) {
+                    await this.#trash.addCollection(collection, collectionPath)
+                    await this.#trash.purgeExpired()
+                } else {
+                    await rm(collectionPath, { recursive: true, force: true })
+                }
+            })
+            for (const name of removed) {
+                this.#collections.delete(name)
+                this.#collectionMetadata.delete(name)
+                this.#indexes.delete(name)
+            }
+            this.#cache?.deletePrefix(`${collectionPath.toString()}${sep}`)
+
+            // the directory of the parent document only holds its sub-collections
+            if (parentDocument(collection)) {
+                await rmdir(dirname(collectionPath.toString())).catch(error => {
+                    if ((error as NodeJS.ErrnoException).code !== "ENOTEMPTY") throw error
+                })
+            }
+
+            await this.#updateMetadata(metadata => {
+                for (const name of removed) metadata.collections.delete(name)
+            })
+
+            for (const name of removed) this.#emit("collectionDeleted", { collection: name })
+        } catch (error) {
+            console.error(`failed to delete collection ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns the paths of the sub-collections nested at any depth under a
+     * collection.
+     */
+    #descendantCollections(collection: string): string[] {
+        const prefix = `${collection}${COLLECTION_PATH_SEPARATOR}`
+
+        return this.listCollections().filter(name => name.startsWith(prefix))
+    }
+
+    /**
+     * ------ Document Functions ------
+     */
+
+    /**
+     * @description Creates a new document by converting the data to a JSON string, and saving it
+     * as a `.json` file within the specified collection directory. If document _id is not provided
+     * an id is generated using the collection `idStrategy`, the stored document always holds its
+     * `_id`.
+     *
+     * @param {string} collection - The name of the collection where the document will be created.
+     * @param {any} data - The data to be stored in the new document.
+     *
+     * @returns {Promise<any>} A promise that resolves to the stored document, including its `_id`.
+     * @throws {Error} If the collection does not exist, a document with the same `_id` already
+     * exists, a unique index is violated or there is a document creation failure.
+     * @throws {SchemaValidationError} If the document does not conform to the collection schema.
+     */
+    async create(collection: string, data: any): Promise<any> {
+        try {
+            return await this.#createDocument(collection, data)
+        } catch (error) {
+            console.error(`failed to add data to ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Creates several documents, see `create`. Failing items do not throw, their
+     * error is reported in the result instead. An ordered write (default) stops at the first
+     * failing item, an unordered write attempts every item.
+     *
+     * @param {string} collection - The name of the collection where the documents will be created.
+     * @param {any[]} items - The data of each new document.
+     * @param {BulkWriteOptions} [options] - Ordered or unordered error handling.
+     *
+     * @returns {Promise<CreateManyResult>} The inserted ids and the outcome of each item.
+     * @throws {Error} If the collection does not exist.
+     */
+    async createMany(
+        collection: string,
+        items: any[],
+        options?: BulkWriteOptions
+    ): Promise<CreateManyResult> {
+        try {
+            if (!this.#collections.has(collection)) {
+                throw Error(`collection ${collection}, does not exist`)
+            }
+
+            const result: CreateManyResult = { insertedCount: 0, insertedIds: [], results: [] }
+
+            for (const [index, data] of items.entries()) {
+                try {
+                    const document = await this.#createDocument(collection, data)
+
+                    result.insertedCount++
+                    result.insertedIds.push(document._id)
+                    result.results.push({ index, _id: document._id, document })
+                } catch (error) {
+                    result.results.push({ index, _id: data?._id, error: error as Error })
+                    if (options?.ordered ?? true) break
+                }
+            }
+
+            return result
+        } catch (error) {
+            console.error(`failed to add data to ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Creates a new document while holding its lock, see `create`.
+     *
+     * @returns {Promise<any>} The stored document.
+     */
+    async #createDocument(collection: string, data: any): Promise<any> {
+        if (!this.#collections.has(collection)) {
+            throw Error(`collection ${collection}, does not exist`)
+        }
+
+        const id = data._id ? data._id : this.#generateId(collection)
+        const document = { ...data, _id: id }
+
+        this.#assignExpiration(collection, document)
+        if (this.#revisionOptions(collection)) {
+            document._rev = RevisionHistory.nextRevision(document)
+        }
+
+        return this.#withLock(`documents/${collection}/${id}`, async () => {
+            const existing = await this.#readDocumentFile(
+                collection,
+                this.#documentPath(collection, id)
+            )
+            if (existing && !isExpired(existing)) {
+                throw Error(`document with _id ${id} already exists`)
+            }
+
+            this.#assertValidDocument(collection, document)
+
+            return this.#withUniqueIndexes([collection], async () => {
+                await this.#assertUniqueIndexes([
+                    { type: "put", collection, id, document, previous: null }
+                ])
+
+                // an expired document not swept yet is replaced
+                if (existing) await this.#removeDocument(collection, id, existing)
+
+                return this.#putDocument(collection, id, document, null)
+            })
+        })
+    }
+
+    /**
+     * @description Searches through the documents in the specified collection directory and returns
+     * the first document that matches the query. See `matchesQuery` for the supported query syntax.
+     * Queries on `_id` or on indexed fields only read the candidate documents.
+     *
+     * @param {string} collection - The name of the collection to search within.
+     * @param {Query} query - The query to match against documents.
+     *
+     * @returns {Promise<any | null>} The first document found or `null` if no document is found.
+     */
+    async find(collection: string, query: Query): Promise<any | null> {
+        try {
+            for await (const { document } of this.#iterateMatches(collection, query)) {
+                return document
+            }
+
+            return null // Return null if no document matches the query
+        } catch (error) {
+            console.error(`Failed to find data in ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Searches through all documents in the specified collection directory and returns
+     * all documents that match the query. If no query is provided, all documents are returned.
+     * Documents are returned in directory order unless a `sort` is given, ties are then broken by
+     * `_id`. `skip` and `limit` apply after sorting and the `projection` last.
+     *
+     * @param {string} collection - The name of the collection to search within.
+     * @param {Query} [query] - The optional query to match documents against.
+     * @param {FindOptions} [options] - Sorting, skip, limit and projection.
+     *
+     * @returns {Promise<any[]>} A promise that resolves to an array of found documents.
+     * @throws {Error} If the collection does not exist or the projection is invalid.
+     */
+    async findAll(collection: string, query?: Query, options?: FindOptions): Promise<any[]> {
+        try {
+            let results = await this.#findMatches(collection, query)
+
+            if (options?.sort) sortDocuments(results, options.sort)
+
+            const skip = options?.skip ?? 0
+            const end = options?.limit !== undefined ? skip + options.limit : undefined
+            results = results.slice(skip, end)
+
+            return results.map(document => applyProjection(document, options?.projection))
+        } catch (error) {
+            console.error(`Failed to find data in ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Returns a page of the documents matching the query. Pages are always sorted,
+     * by the `sort` fields then by `_id`, and each page but the last returns a `nextCursor` to
+     * pass as `cursor` for the next page. Cursors point after the last document of a page, so
+     * documents written between two calls do not shift the following pages.
+     *
+     * @param {string} collection - The name of the collection to search within.
+     * @param {Query} [query] - The optional query to match documents against.
+     * @param {FindPageOptions} [options] - Sorting, page size (`limit`), projection and cursor.
+     *
+     * @returns {Promise<FindPageResult>} The documents of the page and the next cursor.
+     * @throws {Error} If the collection does not exist, or the cursor or projection is invalid.
+     */
+    async findPage(
+        collection: string,
+        query?: Query,
+        options?: FindPageOptions
+    ): Promise<FindPageResult> {
+        try {
+            const sort = options?.sort
+            const after = options?.cursor ? decodeCursor(options.cursor, sort) : undefined
+
+            let results = sortDocuments(await this.#findMatches(collection, query), sort)
+            if (after) {
+                results = results.filter(
+                    document => compareSortKeys(sortKey(document, sort), after, sort) > 0
+                )
+            }
+
+            const limit = options?.limit ?? results.length
+            const page = results.slice(0, limit)
+            const lastDocument = page[page.length - 1]
+
+            return {
+                documents: page.map(document => applyProjection(document, options?.projection)),
+                nextCursor: results.length > limit && lastDocument
+                    ? encodeCursor(lastDocument, sort)
+                    : undefined
+            }
+        } catch (error) {
+            console.error(`Failed to find data in ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Counts the documents matching the query without returning them. Expired
+     * documents are not counted, even before they are swept.
+     *
+     * @param {string} collection - The name of the collection to count within.
+     * @param {Query} [query] - The optional query to match documents against.
+     *
+     * @returns {Promise<number>} The number of matching documents.
+     * @throws {Error} If the collection does not exist.
+     */
+    async count(collection: string, query?: Query): Promise<number> {
+        try {
+            if (!this.#collections.has(collection)) throw Error("collection does not exist")
+
+            const matches = this.#iterateMatches(collection, query)
+            let count = 0
+            while (!(await matches.next()).done) count++
+
+            return count
+        } catch (error) {
+            console.error(`failed to count documents in ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Reads every document of a collection matching the query, in directory order.
+     *
+     * @throws {Error} If the collection does not exist.
+     */
+    async #findMatches(collection: string, query?: Query): Promise<any[]> {
+        const results: any[] = []
+
+        for await (const { document } of this.#iterateMatches(collection, query)) {
+            results.push(document)
+        }
+
+        return results
+    }
+
+    /**
+     * @description Streams the documents matching the query as they are read, without holding the
+     * whole collection in memory. Up to `concurrency` document files are read in parallel while
+     * documents are yielded in directory order. Leaving the loop early (`break`, `return` or a
+     * thrown error) stops reading, and aborting the `signal` makes the iteration throw.
+     *
+     * @param {string} collection - The name of the collection to search within.
+     * @param {Query} [query] - The optional query to match documents against.
+     * @param {IterateOptions} [options] - Read concurrency and abort signal.
+     *
+     * @returns {AsyncGenerator<any>} The matching documents.
+     * @throws {Error} If the collection does not exist or a document cannot be read.
+     */
+    async *iterate(
+        collection: string,
+        query?: Query,
+        options?: IterateOptions
+    ): AsyncGenerator<any, void, undefined> {
+        try {
+            for await (const { document } of this.#iterateMatches(collection, query, options)) {
+                yield document
+            }
+        } catch (error) {
+            if (!options?.signal?.aborted) {
+                console.error(`Failed to iterate data in ${collection}: `, error)
+            }
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Streams the documents matching a query with their file names, reading ahead up
+     * to the concurrency limit. Reads still in flight when the iteration stops are dropped.
+     *
+     * @throws {Error} If the collection does not exist, a document cannot be read or the signal is
+     * aborted.
+     */
+    async *#iterateMatches(
+        collection: string,
+        query?: Query,
+        options?: IterateOptions
+    ): AsyncGenerator<{ file: string, document: any }, void, undefined> {
+        const collectionPath = this.#collections.get(collection)
+        if (!collectionPath) throw new Error("Collection does not exist")
+
+        const concurrency = Math.max(1, options?.concurrency ?? DirfileDB.DEFAULT_READ_CONCURRENCY)
+        const signal = options?.signal
+        const pending: { file: string, read: Promise<any | null> }[] = []
+
+        // waits for the oldest read, keeping results in directory order
+        const nextMatch = async () => {
+            const { file, read } = pending.shift()!
+            const document = await read
+            signal?.throwIfAborted()
+
+            return document && !isExpired(document) && matchesQuery(document, query)
+                ? { file, document }
+                : undefined
+        }
+
+        signal?.throwIfAborted()
+
+        try {
+            for await (const file of this.#streamQueryFiles(collection, collectionPath, query)) {
+                pending.push({
+                    file,
+                    read: this.#readDocument(collection, join(collectionPath.toString(), file))
+                })
+                if (pending.length < concurrency) continue
+
+                const match = await nextMatch()
+                if (match) yield match
+            }
+
+            while (pending.length > 0) {
+                const match = await nextMatch()
+                if (match) yield match
+            }
+        } finally {
+            for (const { read } of pending) read.catch(() => undefined)
+        }
+    }
+
+    /**
+     * @description Updates an existing document in the specified collection, identified by the
+     * `_id` field of `newData`. The rest of `newData` is either update operators (ex:
+     * `{ _id, $inc: { count: 1 } }`, see `UpdateOperators`) or data deep merged into the existing
+     * document: nested objects are merged while any other value replaces the existing one. With
+     * the `replace` option the document is replaced by `newData` instead. The document is then
+     * rewritten with the updated data.
+     *
+     * @param {string} collection - The name of the collection that contains the document to update.
+     * @param {UpdateData} newData - The update operators or data to merge/update the document with.
+     * @param {UpdateOptions} [options] - Merge (default) or replace the document.
+     *
+     * @returns {Promise<any>} A promise that resolves to the updated document.
+     * @throws {Error} If the document does not exist, the update changes its `_id`, an update
+     * operator is invalid or a unique index is violated.
+     * @throws {SchemaValidationError} If the updated document does not conform to the collection
+     * schema.
+     * @throws {LockError} If another writer holds the document lock past the lock timeout.
+     */
+    async update(collection: string, newData: UpdateData, options?: UpdateOptions): Promise<any> {
+        try {
+            const collectionPath = this.#collections.get(collection)
+            if (!collectionPath) throw Error("collection does not exist")
+            if (!newData._id) throw Error("missing required _id parameter")
+
+            const updated = await this.#mergeDocument(
+                collection,
+                newData._id,
+                newData,
+                undefined,
+                options?.replace
+            )
+            if (!updated) throw Error(`document with _id ${newData._id} does not exist`)
+
+            return updated.document
+        } catch (error) {
+            console.error(`failed to update data in ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Applies the same update operators or merges the same data into every document
+     * matching the query, see `update`.
+     * Failing documents do not throw, their error is reported in the result instead. An ordered
+     * write (default) stops at the first failing document, an unordered write attempts every one.
+     *
+     * @param {string} collection - The name of the collection that contains the documents.
+     * @param {Query} query - The query to match the documents to update.
+     * @param {any} changes - The update operators or data to merge into each matching document.
+     * @param {BulkWriteOptions} [options] - Ordered or unordered error handling.
+     *
+     * @returns {Promise<UpdateManyResult>} The matched and modified counts and the outcome of each
+     * matched document.
+     * @throws {Error} If the collection does not exist.
+     */
+    async updateMany(
+        collection: string,
+        query: Query,
+        changes: any,
+        options?: BulkWriteOptions
+    ): Promise<UpdateManyResult> {
+        try {
+            const collectionPath = this.#collections.get(collection)
+            if (!collectionPath) throw Error("collection does not exist")
+
+            const result: UpdateManyResult = { matchedCount: 0, modifiedCount: 0, results: [] }
+            const files = await this.#queryFiles(collection, collectionPath, query)
+
+            for (const file of files) {
+                const id = basename(file, ".json")
+                const document = await this.#readDocument(
+                    collection,
+                    join(collectionPath.toString(), file)
+                )
+                if (!document || !matchesQuery(document, query)) continue
+
+                const index = result.results.length
+
+                try {
+                    const updated = await this.#mergeDocument(collection, id, changes, query)
+                    // changed by another writer in the meantime and no longer matching
+                    if (!updated) continue
+
+                    result.matchedCount++
+                    if (updated.modified) result.modifiedCount++
+                    result.results.push({ index, _id: id, document: updated.document })
+                } catch (error) {
+                    result.matchedCount++
+                    result.results.push({ index, _id: id, error: error as Error })
+                    if (options?.ordered ?? true) break
+                }
+            }
+
+            return result
+        } catch (error) {
+            console.error(`failed to update data in ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Updates the first document matching the query with the data, see `update`, or
+     * creates a new document when none matches. The new document is made of the literal top-level
+     * fields of the query, updated with the data. Upserts to a collection run one at a time while
+     * holding its upsert lock, so concurrent upserts of the same query create a single document,
+     * the others updating it. Writes made by other functions do not take that lock.
+     *
+     * @param {string} collection - The name of the collection that contains the document.
+     * @param {Query} query - The query to match the document to update.
+     * @param {any} data - The update operators or data to merge into the document, or to create it
+     * with.
+     *
+     * @returns {Promise<UpsertResult>} The stored document and whether it was created.
+     * @throws {Error} If the collection does not exist or the write fails.
+     * @throws {SchemaValidationError} If the document does not conform to the collection schema.
+     */
+    async upsert(collection: string, query: Query, data: any): Promise<UpsertResult> {
+        try {
+            return await this.#withLock(`upserts/${collection}`, async () => {
+                const existing = await this.find(collection, query)
+
+                if (existing) {
+                    const updated = await this.#mergeDocument(collection, existing._id, data, query)
+                    if (updated) return { document: updated.document, upserted: false }
+                }
+
+                const literals = Object.fromEntries(Object.entries(query).filter(
+                    ([field, value]) => !field.startsWith("$") && !field.includes(".") &&
+                        !isOperatorObject(value)
+                ))
+
+                return {
+                    document: await this.#createDocument(collection, applyUpdate(literals, data)),
+                    upserted: true
+                }
+            })
+        } catch (error) {
+            console.error(`failed to upsert data in ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Applies changes to a document while holding its lock. The document is re-read
+     * from disk under the lock since another process may have written it.
+     *
+     * @param {string} collection - The name of the collection that contains the document.
+     * @param {string} id - The `_id` of the document.
+     * @param {any} changes - The update operators or data to merge into the document.
+     * @param {Query} [query] - A query the document must still match.
+     * @param {boolean} [replace] - Replaces the document with the changes instead.
+     *
+     * @returns {Promise<object | null>} The stored document and whether its content changed, `null`
+     * if the document does not exist (or no longer matches the query).
+     */
+    async #mergeDocument(
+        collection: string,
+        id: string,
+        changes: any,
+        query?: Query,
+        replace = false
+    ): Promise<{ document: any, modified: boolean } | null> {
+        return this.#withLock(`documents/${collection}/${id}`, async () => {
+            const current = await this.#readDocumentFile(
+                collection,
+                this.#documentPath(collection, id)
+            )
+            if (!current || isExpired(current)) return null
+            if (query && !matchesQuery(current, query)) return null
+
+            const revisions = this.#revisionOptions(collection)
+            if (revisions && changes._rev !== undefined && changes._rev !== current._rev) {
+                throw new ConflictError(collection, id, changes._rev, current._rev)
+            }
+
+            const previousDocument = structuredClone(current)
+            const updatedDocument = replace
+                ? { ...structuredClone(changes), _id: id }
+                : applyUpdate(current, changes)
+
+            if (revisions) {
+                // compared without the `_rev` of the caller, a new one is set on change
+                delete updatedDocument._rev
+                if (current._rev !== undefined) updatedDocument._rev = current._rev
+            }
+
+            if (deepEqual(previousDocument, updatedDocument)) {
+                return { document: updatedDocument, modified: false }
+            }
+
+            if (revisions) {
+                updatedDocument._rev = RevisionHistory.nextRevision(updatedDocument, current._rev)
+            }
+
+            this.#assertValidDocument(collection, updatedDocument)
+
+            const document = await this.#withUniqueIndexes([collection], async () => {
+                await this.#assertUniqueIndexes([{
+                    type: "put",
+                    collection,
+                    id,
+                    document: updatedDocument,
+                    previous: previousDocument
+                }])
+
+                return this.#putDocument(collection, id, updatedDocument, previousDocument)
+            })
+            await this.#recordRevision(collection, id, previousDocument, document)
+
+            return { document, modified: true }
+        })
+    }
+
+    /**
+     * @description Deletes the first document from the specified collection that matches the
+     * provided query. If no document matches the query, no action is taken.
+     * This function is a wrapper for the private `#performDelete` function, passing the query
+     * and collection to it.
+     *
+     * @param {string} collection - The name of the collection to delete the document from.
+     * @param {Query} query - The query to match the document to delete.
+     * @param {DeleteOptions} [options] - `cascade` also deletes the sub-collections of the
+     * document.
+     *
+     * @returns {Promise<number>} A promise that resolves to the number of documents deleted, `0`
+     * or `1`.
+     */
+    async delete(collection: string, query: Query, options?: DeleteOptions): Promise<number> {
+        try {
+            return await this.#performDelete(collection, query, false, options?.cascade)
+        } catch(error) {
+            console.error(`failed to delete document from ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Deletes all documents from the specified collection that match the provided
+     * query. If no documents match the query, no action is taken. This function is a wrapper
+     * for the private `#performDelete` function, passing the query and collection to it with the
+     * `all` flag set to `true` to delete all matching documents.
+     * @param {string} collection - The name of the collection to delete documents from.
+     * @param {Query} query - The query to match the documents to delete.
+     * @param {DeleteOptions} [options] - `cascade` also deletes the sub-collections of the
+     * documents.
+     *
+     * @returns {Promise<number>} A promise that resolves to the number of documents deleted.
+     */
+    async deleteAll(collection: string, query: Query, options?: DeleteOptions): Promise<number> {
+        try {
+            return await this.#performDelete(collection, query, true, options?.cascade)
+        } catch(error) {
+            console.error(`failed to delete document(s) from ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Performs the deletion of documents from the specified collection based on the
+     * provided query. If the `all` flag is set to `true`, all matching documents will be deleted.
+     * Otherwise, only the first matching document is deleted. With soft deletes enabled the
+     * deleted documents are moved to the trash.
+     *
+     * @param {string} collection - The name of the collection to delete documents from.
+     * @param {Query} query - The query to match the documents to delete.
+     * @param {boolean} [all=false] - A flag indicating whether to delete all matching documents
+     * @param {boolean} [cascade=false] - A flag indicating whether to delete the sub-collections
+     * of the deleted documents
+     *
+     * @returns {Promise<number>} A promise that resolves to the number of documents deleted.
+     */
+    async #performDelete(
+        collection: string,
+        query: Query,
+        all: boolean = false,
+        cascade: boolean = false
+    ): Promise<number> {
+        const collectionPath = this.#collections.get(collection)
+        if (!collectionPath) throw Error("collection does not exist")
+
+        let deletedCount = 0
+
+        for await (const { file } of this.#iterateMatches(collection, query)) {
+            const filePath = join(collectionPath.toString(), file)
+            const id = basename(file, ".json")
+            const deleted = await this.#withLock(`documents/${collection}/${id}`, async () => {
+                // confirm the match on disk while holding the lock
+                const current = await this.#readDocumentFile(collection, filePath)
+                if (!current || !matchesQuery(current, query)) return false
+
+                await this.#trash?.addDocument(collection, current)
+                await this.#removeDocument(collection, id, current)
+                await this.#recordRevision(collection, id, current, null)
+                return true
+            })
+
+            if (!deleted) continue
+
+            if (cascade) {
+                for (const subCollection of this.listSubCollections(collection, id)) {
+                    await this.deleteCollection(subCollection)
+                }
+            }
+
+            deletedCount++
+            if (!all) break
+        }
+
+        if (deletedCount > 0) await this.#trash?.purgeExpired()
+
+        return deletedCount
+    }
+
+    /**
+     * ------ Index Functions ------
+     */
+
+    /**
+     * @description Creates a persistent secondary index on a field (or dot-path) of a collection.
+     * The index is built from the existing documents, saved within the collection directory and
+     * kept up to date by `create`, `update` and deletes. Queries using equality or range conditions
+     * on the field only read the documents the index points to.
+     *
+     * @param {string} collection - The name of the collection to index.
+     * @param {string} field - The field name or dot-path to index.
+     * @param {IndexOptions} [options] - Index options, `unique` rejects duplicate values.
+     *
+     * @returns {Promise<IndexDefinition>} The definition of the created or existing index.
+     * @throws {Error} If the collection does not exist, or the index is unique and existing
+     * documents hold duplicate values.
+     */
+    async createIndex(
+        collection: string,
+        field: string,
+        options?: IndexOptions
+    ): Promise<IndexDefinition> {
+        try {
+            const collectionPath = this.#collections.get(collection)
+            if (!collectionPath) throw Error("collection does not exist")
+
+            const collectionIndexes = this.#indexes.get(collection) ?? new Map()
+            const existing = collectionIndexes.get(field)
+            if (existing) return existing.definition()
+
+            const index = new CollectionIndex({ field, unique: options?.unique ?? false })
+
+            for (const file of await this.#listDocumentFiles(collection, collectionPath)) {
+                const document = await this.#readDocument(
+                    collection,
+                    join(collectionPath.toString(), file)
+                )
+                if (!document) continue
+
+                const id = basename(file, ".json")
+                index.assertUnique(id, document)
+                index.add(id, document)
+            }
+
+            collectionIndexes.set(field, index)
+            this.#indexes.set(collection, collectionIndexes)
+
+            await this.#withLock(this.#indexLock(collection, field), async () => {
+                await this.#writeIndex(collection, index)
+            })
+            await this.#updateCollectionMetadata(collection, metadata => {
+                metadata.settings.indexes = this.listIndexes(collection)
+            })
+
+            return index.definition()
+        } catch (error) {
+            console.error(`failed to create index on ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Removes an index from a collection, deleting its index file.
+     *
+     * @param {string} collection - The name of the collection the index belongs to.
+     * @param {string} field - The indexed field name or dot-path.
+     *
+     * @returns {Promise<void>} A promise indicating completion.
+     * @throws {Error} If the collection or the index does not exist.
+     */
+    async dropIndex(collection: string, field: string): Promise<void> {
+        try {
+            const collectionPath = this.#collections.get(collection)
+            if (!collectionPath) throw Error("collection does not exist")
+
+            const collectionIndexes = this.#indexes.get(collection)
+            if (!collectionIndexes?.has(field)) throw Error(`index on ${field} does not exist`)
+
+            collectionIndexes.delete(field)
+            await this.#withLock(this.#indexLock(collection, field), async () => {
+                await rm(this.#indexPath(collectionPath, field), { force: true })
+            })
+            await this.#updateCollectionMetadata(collection, metadata => {
+                metadata.settings.indexes = this.listIndexes(collection)
+            })
+        } catch (error) {
+            console.error(`failed to drop index from ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Returns the definitions of all indexes on a collection.
+     *
+     * @param {string} collection - The name of the collection.
+     *
+     * @returns {IndexDefinition[]} An array of index definitions.
+     */
+    listIndexes(collection: string): IndexDefinition[] {
+        const collectionIndexes = this.#indexes.get(collection)
+        if (!collectionIndexes) return []
+
+        return Array.from(collectionIndexes.values(), index => index.definition())
+    }
+
+    /**
+     * @private
+     * @description Returns the path of the file holding the index on a field.
+     */
+    #indexPath(collectionPath: PathLike, field: string): string {
+        return join(
+            collectionPath.toString(),
+            DirfileDB.INDEX_DIRNAME,
+            `${encodeURIComponent(field)}.json`
+        )
+    }
+
+    /**
+     * @private
+     * @description Returns the lock resource guarding the index file on a field.
+     */
+    #indexLock(collection: string, field: string): string {
+        return `indexes/${collection}/${encodeURIComponent(field)}`
+    }
+
+    /**
+     * @private
+     * @description Returns the version of an index file: a new one is written under a new inode by
+     * every atomic write, and its modification time tells in-place edits apart.
+     */
+    #indexVersion(stats: Stats): string {
+        return `${stats.ino}:${stats.mtimeMs}`
+    }
+
+    /**
+     * @private
+     * @description Synchronously loads the index files of a collection into memory.
+     *
+     * @throws {Error} If an index file cannot be read or parsed.
+     */
+    #loadIndexesSync(collection: string, collectionPath: PathLike) {
+        const indexDir = join(collectionPath.toString(), DirfileDB.INDEX_DIRNAME)
+        if (!dirExists(indexDir)) return
+
+        const collectionIndexes = new Map<string, CollectionIndex>()
+
+        for (const file of readdirSync(indexDir)) {
+            // index files still being written by another process
+            if (isTempFile(file)) continue
+
+            const indexPath = join(indexDir, file)
+            const rawIndex = this.#codec(collection).decode(readFileSync(indexPath, "utf8"))
+            const index = CollectionIndex.fromFile(JSON.parse(rawIndex) as CollectionIndexFile)
+
+            collectionIndexes.set(index.field, index)
+            this.#indexVersions.set(indexPath, this.#indexVersion(statSync(indexPath)))
+        }
+
+        this.#indexes.set(collection, collectionIndexes)
+    }
+
+    /**
+     * @private
+     * @description Reads an index file.
+     *
+     * @returns {Promise<CollectionIndex | undefined>} The index, or `undefined` if the file does
+     * not exist.
+     */
+    async #readIndex(collection: string, indexPath: string): Promise<CollectionIndex | undefined> {
+        try {
+            const stats = await stat(indexPath)
+            const rawIndex = this.#codec(collection).decode(await readFile(indexPath, "utf8"))
+            this.#indexVersions.set(indexPath, this.#indexVersion(stats))
+
+            return CollectionIndex.fromFile(JSON.parse(rawIndex) as CollectionIndexFile)
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Brings the in-memory indexes of a collection up to date with the index files
+     * written by other processes sharing the root directory. Only index files whose version
+     * changed are read again, indexes created or dropped elsewhere are picked up as well. Nothing
+     * is read when locking is disabled, as a single process writes to the database.
+     *
+     * @throws {Error} If an index file cannot be read or parsed.
+     */
+    async #refreshIndexes(collection: string) {
+        const collectionPath = this.#collections.get(collection)
+        if (!this.#locks || !collectionPath) return
+
+        const indexDir = join(collectionPath.toString(), DirfileDB.INDEX_DIRNAME)
+        const files = await readdir(indexDir).catch(error => {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+            throw error
+        })
+
+        const current = this.#indexes.get(collection)
+        const collectionIndexes = new Map<string, CollectionIndex>()
+
+        for (const file of files) {
+            if (file.startsWith(".") || isTempFile(file)) continue
+
+            const indexPath = join(indexDir, file)
+            const field = decodeURIComponent(basename(file, ".json"))
+            const stats = await stat(indexPath).catch(() => undefined)
+            if (!stats) continue
+
+            const cached = current?.get(field)
+            const index = cached && this.#indexVersions.get(indexPath) === this.#indexVersion(stats)
+                ? cached
+                : await this.#readIndex(collection, indexPath)
+
+            if (index) collectionIndexes.set(field, index)
+        }
+
+        this.#indexes.set(collection, collectionIndexes)
+    }
+
+    /**
+     * @private
+     * @description Writes an index to its index file within the collection directory.
+     */
+    async #writeIndex(collection: string, index: CollectionIndex) {
+        const collectionPath = this.#collections.get(collection)
+        if (!collectionPath) throw Error("collection does not exist")
+
+        const indexPath = this.#indexPath(collectionPath, index.field)
+
+        await mkdir(join(collectionPath.toString(), DirfileDB.INDEX_DIRNAME), { recursive: true })
+        await writeFileAtomic(
+            indexPath,
+            this.#codec(collection).encode(JSON.stringify(index.toFile()))
+        )
+        this.#indexVersions.set(indexPath, this.#indexVersion(await stat(indexPath)))
+    }
+
+    /**
+     * @private
+     * @description Runs a write while holding the locks on the unique indexes of the given
+     * collections, so that no other writer changes them between the unique checks and the write.
+     * The locks are taken in a sorted order.
+     */
+    async #withUniqueIndexes<T>(collections: string[], fn: () => Promise<T>): Promise<T> {
+        const resources = new Set<string>()
+        for (const collection of collections) {
+            await this.#refreshIndexes(collection)
+
+            for (const index of this.#indexes.get(collection)?.values() ?? []) {
+                if (index.unique) resources.add(this.#indexLock(collection, index.field))
+            }
+        }
+
+        const locked = Array.from(resources).sort().reduceRight(
+            (next: () => Promise<T>, resource) => () => this.#withLock(resource, next),
+            fn
+        )
+
+        return locked()
+    }
+
+    /**
+     * @private
+     * @description Ensures applying document writes in order would not violate any unique index of
+     * their collections, as written by any process. Each write is checked against the writes before
+     * it as well, a value freed by an earlier write (or removal) can be taken by a later one.
+     *
+     * @throws {Error} If a unique index would hold one of the values twice.
+     */
+    async #assertUniqueIndexes(operations: TransactionOperation[]) {
+        // later writes are checked against copies of the indexes holding the earlier ones
+        const batch = operations.length > 1
+        const uniqueIndexes = new Map<string, CollectionIndex[]>()
+
+        for (const operation of operations) {
+            const { collection, id, previous } = operation
+
+            if (!uniqueIndexes.has(collection)) {
+                await this.#refreshIndexes(collection)
+                const indexes = Array.from(this.#indexes.get(collection)?.values() ?? [])
+                uniqueIndexes.set(collection, indexes
+                    .filter(index => index.unique)
+                    .map(index => batch ? CollectionIndex.fromFile(index.toFile()) : index))
+            }
+
+            for (const index of uniqueIndexes.get(collection)!) {
+                if (operation.type === "put") index.assertUnique(id, operation.document)
+                if (!batch) continue
+
+                if (previous) index.remove(id, previous)
+                if (operation.type === "put") index.add(id, operation.document)
+            }
+        }
+    }
+
+    /**
+     * @private
+     * @description Replaces the previous version of a document with its next version in every
+     * index of a collection, then persists the indexes. A missing previous version indicates a
+     * creation and a missing next version indicates a deletion. When locking is enabled each index
+     * file is re-read while holding its lock, so only this change is applied over the changes made
+     * by other processes.
+     */
+    async #updateIndexes(collection: string, id: string, previous?: any, next?: any) {
+        const collectionPath = this.#collections.get(collection)
+        const collectionIndexes = this.#indexes.get(collection)
+        if (!collectionPath || !collectionIndexes) return
+
+        for (const [field, cached] of collectionIndexes) {
+            await this.#withLock(this.#indexLock(collection, field), async () => {
+                const index = this.#locks
+                    ? await this.#readIndex(collection, this.#indexPath(collectionPath, field))
+                    : cached
+                // the index was dropped by another process
+                if (!index) {
+                    collectionIndexes.delete(field)
+                    return
+                }
+
+                collectionIndexes.set(field, index)
+                if (previous) index.remove(id, previous)
+                if (next) index.add(id, next)
+
+                await this.#writeIndex(collection, index)
+            })
+        }
+    }
+
+    /**
+     * @private
+     * @description Uses `_id` and the collection indexes to narrow the documents that may match a
+     * query. Only top-level conditions (including those nested in a top-level `$and`) are used.
+     *
+     * @returns {Promise<Set<string> | undefined>} The candidate ids, or `undefined` when the query
+     * cannot be answered from the indexes and the whole collection needs to be scanned.
+     */
+    async #candidateIds(collection: string, query?: Query): Promise<Set<string> | undefined> {
+        if (!query) return undefined
+
+        await this.#refreshIndexes(collection)
+
+        const collectionIndexes = this.#indexes.get(collection)
+        const conditions = [
+            ...Object.entries(query),
+            ...(Array.isArray(query.$and) ? query.$and.flatMap(Object.entries) : [])
+        ]
+
+        let candidates: Set<string> | undefined
+
+        for (const [field, condition] of conditions) {
+            const ids = field === "_id" && typeof condition === "string"
+                ? new Set([condition])
+                : collectionIndexes?.get(field)?.lookup(condition)
+
+            if (!ids) continue
+
+            candidates = candidates
+                ? new Set(Array.from(candidates).filter(id => ids.has(id)))
+                : ids
+        }
+
+        return candidates
+    }
+
+    /**
+     * ------ Schema Functions ------
+     */
+
+    /**
+     * @description Sets or removes the schema of a collection. The schema is checked on every
+     * later document write, existing documents are left untouched (see `validateCollection`).
+     *
+     * @param {string} collection - The name of the collection.
+     * @param {CollectionSchema | undefined} schema - The schema, `undefined` to remove it.
+     *
+     * @returns {Promise<void>} A promise that resolves once the collection metadata is written.
+     * @throws {Error} If the collection does not exist.
+     */
+    async setSchema(collection: string, schema: CollectionSchema | undefined): Promise<void> {
+        try {
+            await this.#updateCollectionMetadata(collection, metadata => {
+                metadata.settings.schema = schema
+            })
+        } catch (error) {
+            console.error(`failed to set schema of ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Checks every stored document of a collection against the collection schema.
+     *
+     * @param {string} collection - The name of the collection to validate.
+     *
+     * @returns {Promise<DocumentValidationResult[]>} The documents that do not conform, empty when
+     * the collection has no schema or every document is valid.
+     * @throws {Error} If the collection does not exist.
+     */
+    async validateCollection(collection: string): Promise<DocumentValidationResult[]> {
+        try {
+            const collectionPath = this.#collections.get(collection)
+            if (!collectionPath) throw Error("collection does not exist")
+
+            const results: DocumentValidationResult[] = []
+            if (!this.#collectionMetadata.get(collection)?.settings.schema) return results
+
+            for (const file of await this.#listDocumentFiles(collection, collectionPath)) {
+                const document = await this.#readDocument(
+                    collection,
+                    join(collectionPath.toString(), file)
+                )
+                if (!document) continue
+
+                const issues = this.#validateDocument(collection, document)
+                if (issues.length > 0) results.push({ _id: basename(file, ".json"), issues })
+            }
+
+            return results
+        } catch (error) {
+            console.error(`failed to validate collection ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns the schema violations of a document, `_id` is managed by the database
+     * and is not validated.
+     */
+    #validateDocument(collection: string, document: any): ValidationIssue[] {
+        const schema = this.#collectionMetadata.get(collection)?.settings.schema
+        if (!schema) return []
+
+        const fields = { ...document }
+        delete fields._id
+        delete fields._rev
+
+        return validateSchema(schema, fields)
+    }
+
+    /**
+     * @private
+     * @description Ensures a document conforms to the schema of its collection.
+     *
+     * @throws {SchemaValidationError} If the document does not conform to the schema.
+     */
+    #assertValidDocument(collection: string, document: any) {
+        const issues = this.#validateDocument(collection, document)
+        if (issues.length > 0) throw new SchemaValidationError(collection, issues)
+    }
+
+    /**
+     * ------ Revision Functions ------
+     */
+
+    /**
+     * @description Enables, changes or disables (with `undefined`) the revisions of a collection.
+     * Documents of a collection with revisions carry a `_rev`, replaced on every write. An update
+     * carrying a `_rev` fails with a `ConflictError` unless it is the `_rev` of the document on
+     * disk, so that concurrent editors cannot silently overwrite each other. The last `history`
+     * revisions of each document are kept on disk, see `getHistory` and `revert`. Existing
+     * documents get a `_rev` on their next write.
+     *
+     * @param {string} collection - The name of the collection.
+     * @param {RevisionOptions | undefined} revisions - The revision settings, or `undefined`.
+     *
+     * @returns {Promise<void>} A promise that resolves once the setting is stored.
+     * @throws {Error} If the collection does not exist.
+     */
+    async setRevisions(collection: string, revisions: RevisionOptions | undefined): Promise<void> {
+        try {
+            await this.#updateCollectionMetadata(collection, metadata => {
+                metadata.settings.revisions = revisions
+            })
+        } catch (error) {
+            console.error(`failed to set revisions of ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Returns the previous revisions of a document kept on disk, newest first. The
+     * history of a document is removed with the document.
+     *
+     * @param {string} collection - The name of the collection that contains the document.
+     * @param {string} id - The `_id` of the document.
+     *
+     * @returns {Promise<any[]>} The previous revisions, empty when no history is kept.
+     * @throws {Error} If the collection does not exist.
+     */
+    async getHistory(collection: string, id: string): Promise<any[]> {
+        try {
+            const collectionPath = this.#collections.get(collection)
+            if (!collectionPath) throw Error("collection does not exist")
+
+            return await new RevisionHistory(collectionPath, this.#codec(collection)).list(id)
+        } catch (error) {
+            console.error(`failed to get history of ${id} in ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Restores the contents of a previous revision of a document. The restored
+     * contents are written as a new revision, so the current revision joins the history.
+     *
+     * @param {string} collection - The name of the collection that contains the document.
+     * @param {string} id - The `_id` of the document.
+     * @param {string} rev - The `_rev` of the revision to restore, see `getHistory`.
+     *
+     * @returns {Promise<any>} The document after the revert.
+     * @throws {Error} If the collection has no revisions, or the document or revision does not
+     * exist.
+     * @throws {SchemaValidationError} If the revision does not conform to the collection schema.
+     */
+    async revert(collection: string, id: string, rev: string): Promise<any> {
+        try {
+            const collectionPath = this.#collections.get(collection)
+            if (!collectionPath) throw Error("collection does not exist")
+            if (!this.#revisionOptions(collection)) {
+                throw Error(`collection ${collection} does not keep revisions`)
+            }
+
+            const history = await new RevisionHistory(collectionPath, this.#codec(collection))
+                .list(id)
+            const revision = history.find(document => document._rev === rev)
+            if (!revision) throw Error(`revision ${rev} of document with _id ${id} not found`)
+
+            delete revision._rev
+            const updated = await this.#mergeDocument(collection, id, revision, undefined, true)
+            if (!updated) throw Error(`document with _id ${id} does not exist`)
+
+            return updated.document
+        } catch (error) {
+            console.error(`failed to revert ${id} in ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns the revision settings of a collection, `undefined` without revisions.
+     */
+    #revisionOptions(collection: string): RevisionOptions | undefined {
+        return this.#collectionMetadata.get(collection)?.settings.revisions
+    }
+
+    /**
+     * @private
+     * @description Adds the replaced revision of a document to its history, or removes the history
+     * of a deleted document, in collections with revisions.
+     */
+    async #recordRevision(collection: string, id: string, previous: any, document: any | null) {
+        const revisions = this.#revisionOptions(collection)
+        const collectionPath = this.#collections.get(collection)
+        if (!revisions || !collectionPath) return
+
+        const history = new RevisionHistory(collectionPath, this.#codec(collection))
+
+        if (document === null) {
+            await history.remove(id)
+        } else if (previous) {
+            await history.add(id, previous, revisions.history ?? 0)
+        }
+    }
+
+    /**
+     * ------ Expiration Functions ------
+     */
+
+    /**
+     * @description Sets the lifetime of the new documents of a collection, or removes it with
+     * `undefined`. Documents created without an `expireAt` field get one `ttl` milliseconds after
+     * their creation. Existing documents keep their `expireAt`, if any.
+     *
+     * @param {string} collection - The name of the collection.
+     * @param {number | undefined} ttl - The lifetime of new documents in milliseconds, or
+     * `undefined`.
+     *
+     * @returns {Promise<void>} A promise that resolves once the setting is stored.
+     * @throws {Error} If the collection does not exist.
+     */
+    async setTtl(collection: string, ttl: number | undefined): Promise<void> {
+        try {
+            await this.#updateCollectionMetadata(collection, metadata => {
+                metadata.settings.ttl = ttl
+            })
+        } catch (error) {
+            console.error(`failed to set ttl of ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Deletes the documents past their `expireAt` (an ISO date string or a timestamp
+     * in milliseconds). Expired documents are hidden from reads and updates as soon as they expire,
+     * this removes their files. Expired documents are deleted permanently, even with soft deletes
+     * enabled. A sweep of every collection runs in the background on the `sweepInterval` set in
+     * `DirfileDBConfig.expiration`, until `close` is called.
+     *
+     * @param {string} [collection] - The collection to sweep, every collection when omitted.
+     *
+     * @returns {Promise<number>} The number of documents deleted.
+     * @throws {Error} If the collection does not exist or a document cannot be deleted.
+     */
+    async sweepExpired(collection?: string): Promise<number> {
+        try {
+            if (collection !== undefined && !this.#collections.has(collection)) {
+                throw Error("collection does not exist")
+            }
+
+            const collections = collection !== undefined
+                ? [collection]
+                : Array.from(this.#collections.keys())
+
+            return await this.#sweepExpired(collections)
+        } catch (error) {
+            console.error("failed to sweep expired documents: ", error)
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Sets the `expireAt` of a new document of a collection with a `ttl`, unless the
+     * document has one.
+     */
+    #assignExpiration(collection: string, document: any) {
+        const ttl = this.#collectionMetadata.get(collection)?.settings.ttl
+        if (typeof ttl !== "number" || document.expireAt !== undefined) return
+
+        document.expireAt = new Date(Date.now() + ttl).toISOString()
+    }
+
+    /**
+     * @private
+     * @description Starts a background sweep of every collection, unless the previous one is still
+     * running. Failures are logged, the next sweep tries again.
+     */
+    #runSweep() {
+        if (this.#sweep) return
+
+        const sweep = new AbortController()
+        this.#sweep = sweep
+
+        this.#sweepExpired(Array.from(this.#collections.keys()), sweep.signal)
+            .catch(error => console.error("failed to sweep expired documents: ", error))
+            .finally(() => {
+                if (this.#sweep === sweep) this.#sweep = undefined
+            })
+    }
+
+    /**
+     * @private
+     * @description Deletes the expired documents of the given collections, each confirmed expired
+     * on disk while holding its lock. Stops between two documents once the signal is aborted.
+     *
+     * @returns {Promise<number>} The number of documents deleted.
+     */
+    async #sweepExpired(collections: string[], signal?: AbortSignal): Promise<number> {
+        let deletedCount = 0
+
+        for (const collection of collections) {
+            const collectionPath = this.#collections.get(collection)
+            if (!collectionPath) continue
+
+            for await (const file of this.#streamQueryFiles(collection, collectionPath)) {
+                if (signal?.aborted) return deletedCount
+
+                const filePath = join(collectionPath.toString(), file)
+                if (!isExpired(await this.#readDocument(collection, filePath))) continue
+
+                const id = basename(file, ".json")
+                const deleted = await this.#withLock(`documents/${collection}/${id}`, async () => {
+                    const current = await this.#readDocumentFile(collection, filePath)
+                    if (!current || !isExpired(current)) return false
+
+                    await this.#removeDocument(collection, id, current)
+                    await this.#recordRevision(collection, id, current, null)
+                    return true
+                })
+
+                if (deleted) deletedCount++
+            }
+        }
+
+        return deletedCount
+    }
+
+    /**
+     * ------ Storage Functions ------
+     */
+
+    /**
+     * @description Rewrites every document file of a collection in its storage format: compressed
+     * with gzip or brotli, and compact or indented JSON. Given storage options replace the ones of
+     * the collection first, new writes use them right away. Files are read whatever their format,
+     * so a collection holding files of several formats keeps working until recompacted.
+     *
+     * @param {string} collection - The name of the collection.
+     * @param {StorageOptions} [storage] - The new storage options, the current ones when omitted.
+     *
+     * @returns {Promise<number>} The number of document files rewritten.
+     * @throws {Error} If the collection does not exist or a file cannot be rewritten.
+     */
+    async recompactCollection(collection: string, storage?: StorageOptions): Promise<number> {
+        try {
+            const collectionPath = this.#collections.get(collection)
+            if (!collectionPath) throw Error("collection does not exist")
+
+            if (storage !== undefined) {
+                await this.#updateCollectionMetadata(collection, metadata => {
+                    metadata.settings.storage = storage
+                })
+            }
+
+            let rewritten = 0
+            let sizeChange = 0
+
+            for await (const file of this.#streamQueryFiles(collection, collectionPath)) {
                 const filePath = join(collectionPath.toString(), file)
-                const fileContent = await readFile(filePath, "utf8")
-                const document = JSON.parse(fileContent)
-                const matches = Object.keys(query).every(key => document[key] === query[key])
-                if (matches) {
-                    return document
+                const id = basename(file, ".json")
+
+                await this.#withLock(`documents/${collection}/${id}`, async () => {
+                    const contents = await readFile(filePath).catch(error => {
+                        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+                        throw error
+                    })
+                    if (!contents) return
+
+                    const document = JSON.parse(this.#codec(collection).decode(contents))
+                    const fileContent = this.#documentCodec(collection).encode(
+                        this.#documentText(collection, document)
+                    )
+                    if (contents.equals(Buffer.from(fileContent))) return
+
+                    await this.#writeDocumentFile(collection, id, fileContent)
+
+                    sizeChange += Buffer.byteLength(fileContent) - contents.length
+                    rewritten++
+                })
+            }
+
+            await this.#updateCollectionMetadata(collection, metadata => {
+                metadata.totalSize += sizeChange
+            })
+
+            return rewritten
+        } catch (error) {
+            console.error(`failed to recompact ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Converts a collection to another shard depth while it stays in use. Document
+     * files of a sharded collection are nested in one directory per level, named after the hash of
+     * their `_id` (ex: `ab/cd/<_id>.json` for a depth of 2), which keeps directories small for very
+     * large collections. A depth of `0` converts back to a flat directory. Documents are first
+     * copied into the new layout while writes go to both layouts, then the collection switches to
+     * the new layout and the files of the previous one are removed. An interrupted reshard is
+     * finished by calling `reshardCollection` again with the same depth.
+     *
+     * @param {string} collection - The name of the collection.
+     * @param {number} depth - The new shard depth, from `0` to `DirfileDB.MAX_SHARD_DEPTH`.
+     *
+     * @returns {Promise<number>} The number of documents copied into the new layout.
+     * @throws {Error} If the collection does not exist, the depth is invalid or the collection is
+     * being resharded to another depth.
+     */
+    async reshardCollection(collection: string, depth: number): Promise<number> {
+        try {
+            const collectionPath = this.#collections.get(collection)?.toString()
+            if (!collectionPath) throw Error("collection does not exist")
+            this.#assertShardDepth(depth)
+
+            const resharding = this.#collectionMetadata.get(collection)?.settings.resharding
+            if (resharding && resharding.to !== depth) {
+                throw Error(`collection is being resharded to depth ${resharding.to}`)
+            }
+
+            const from = resharding?.from ?? this.#shardDepth(collection)
+            if (from === depth) return 0
+
+            let copied = 0
+
+            if (this.#shardDepth(collection) !== depth) {
+                await this.#updateCollectionMetadata(collection, metadata => {
+                    metadata.settings.resharding = { from, to: depth }
+                })
+
+                for await (const file of streamDocumentFiles(collectionPath, from)) {
+                    const id = basename(file, ".json")
+
+                    await this.#withLock(`documents/${collection}/${id}`, async () => {
+                        const contents = await readFile(join(collectionPath, file)).catch(error => {
+                            if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+                            throw error
+                        })
+                        if (!contents) return
+
+                        const target = this.#documentPath(collection, id, depth)
+                        await mkdir(dirname(target), { recursive: true })
+                        await writeFileAtomic(target, contents)
+                        this.#watchers.get(collection)
+                            ?.record(relative(collectionPath, target), contents)
+                        copied++
+                    })
+                }
+
+                await this.#updateCollectionMetadata(collection, metadata => {
+                    metadata.settings.shardDepth = depth
+                })
+            }
+
+            // files of the previous layout are no longer read or written
+            const stale = []
+            for await (const file of streamDocumentFiles(collectionPath, from)) stale.push(file)
+            for (const file of stale) {
+                await rm(join(collectionPath, file), { force: true })
+                this.#watchers.get(collection)?.record(file, null)
+            }
+            await removeEmptyShardDirs(collectionPath)
+
+            await this.#updateCollectionMetadata(collection, metadata => {
+                metadata.settings.resharding = undefined
+            })
+            this.#cache?.deletePrefix(`${collectionPath}${sep}`)
+
+            return copied
+        } catch (error) {
+            console.error(`failed to reshard ${collection}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns the storage options of a collection, if any.
+     */
+    #storage(collection: string): StorageOptions | undefined {
+        return this.#collectionMetadata.get(collection)?.settings.storage
+    }
+
+    /**
+     * @private
+     * @description Returns the JSON text of a document file, indented unless the collection stores
+     * compact JSON.
+     */
+    #documentText(collection: string, document: any): string {
+        const indent = documentIndent(this.#storage(collection))
+
+        return JSON.stringify(document, undefinedReplacer, indent)
+    }
+
+    /**
+     * @private
+     * @description Returns the shard depth of a collection, `0` when it is flat.
+     */
+    #shardDepth(collection: string): number {
+        return this.#collectionMetadata.get(collection)?.settings.shardDepth ?? 0
+    }
+
+    /**
+     * @private
+     * @description Checks that a shard depth is an integer from `0` to `MAX_SHARD_DEPTH`.
+     *
+     * @throws {Error} If the depth is invalid.
+     */
+    #assertShardDepth(depth: number) {
+        if (!Number.isInteger(depth) || depth < 0 || depth > DirfileDB.MAX_SHARD_DEPTH) {
+            throw Error(`shard depth must be an integer from 0 to ${DirfileDB.MAX_SHARD_DEPTH}`)
+        }
+    }
+
+    /**
+     * ------ Trash Functions ------
+     */
+
+    /**
+     * @description Returns the soft deleted documents and collections, newest first. Trashed items
+     * are no longer part of their collection, so queries never return them. Entries past the
+     * retention period are purged first.
+     *
+     * @param {string} [collection] - Only returns the entries deleted from this collection.
+     *
+     * @returns {Promise<TrashEntry[]>} The trash entries.
+     * @throws {Error} If soft deletes are not enabled.
+     */
+    async listTrash(collection?: string): Promise<TrashEntry[]> {
+        try {
+            const trash = this.#requireTrash()
+            await trash.purgeExpired()
+
+            const entries = await trash.list()
+
+            return collection === undefined
+                ? entries
+                : entries.filter(entry => entry.collection === collection)
+        } catch (error) {
+            console.error("failed to list trash: ", error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Restores a trash entry. A document is written back to its collection, which
+     * must exist and not hold a document with the same `_id`. A collection directory is moved back
+     * under the root directory, and must not have been created again since.
+     *
+     * @param {string} id - The `_id` of the trash entry, see `listTrash`.
+     *
+     * @returns {Promise<TrashEntry>} The restored entry.
+     * @throws {Error} If soft deletes are not enabled, the entry does not exist or the item cannot
+     * be restored.
+     */
+    async restore(id: string): Promise<TrashEntry> {
+        try {
+            const trash = this.#requireTrash()
+            const entry = await trash.get(id)
+            if (!entry) throw Error(`trash entry ${id} not found`)
+
+            if (entry.type === "collection") {
+                await this.#restoreCollection(trash, entry)
+            } else {
+                await this.#restoreDocument(entry)
+            }
+
+            await trash.remove(id)
+
+            return entry
+        } catch (error) {
+            console.error(`failed to restore trash entry ${id}: `, error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Permanently removes a trash entry, or every entry.
+     *
+     * @param {string} [id] - The `_id` of the trash entry, the whole trash is emptied when omitted.
+     *
+     * @returns {Promise<number>} The number of entries removed.
+     * @throws {Error} If soft deletes are not enabled or the entry does not exist.
+     */
+    async purge(id?: string): Promise<number> {
+        try {
+            const trash = this.#requireTrash()
+
+            if (id !== undefined) {
+                if (!await trash.get(id)) throw Error(`trash entry ${id} not found`)
+
+                await trash.remove(id)
+                return 1
+            }
+
+            const entries = await trash.list()
+            for (const entry of entries) await trash.remove(entry._id)
+
+            return entries.length
+        } catch (error) {
+            console.error("failed to purge trash: ", error)
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns the trash.
+     *
+     * @throws {Error} If soft deletes are not enabled.
+     */
+    #requireTrash(): Trash {
+        if (!this.#trash) throw Error("soft deletes are not enabled, see the trash option")
+
+        return this.#trash
+    }
+
+    /**
+     * @private
+     * @description Writes a trashed document back to its collection while holding its lock. The
+     * document keeps its contents, including its `_rev`.
+     *
+     * @throws {Error} If the collection does not exist, a document with the same `_id` exists or
+     * a unique index would be violated.
+     */
+    async #restoreDocument(entry: TrashEntry) {
+        const { collection, documentId, document } = entry
+        if (!this.#collections.has(collection)) {
+            throw Error(`collection ${collection}, does not exist`)
+        }
+
+        await this.#withLock(`documents/${collection}/${documentId}`, async () => {
+            if (await pathExists(this.#documentPath(collection, documentId!))) {
+                throw Error(`document with _id ${documentId} already exists`)
+            }
+
+            await this.#withUniqueIndexes([collection], async () => {
+                await this.#assertUniqueIndexes([
+                    { type: "put", collection, id: documentId!, document, previous: null }
+                ])
+                await this.#putDocument(collection, documentId!, document, null)
+            })
+        })
+    }
+
+    /**
+     * @private
+     * @description Moves a trashed collection directory back under the root directory and loads
+     * it, along with the sub-collections it holds.
+     *
+     * @throws {Error} If the collection exists, its parent collection does not or the trashed
+     * directory is missing.
+     */
+    async #restoreCollection(trash: Trash, entry: TrashEntry) {
+        const collection = entry.collection
+        const collectionPath = join(this.#rootDir, collection)
+        const parent = parentDocument(collection)
+
+        if (this.#collections.has(collection) || dirExists(collectionPath)) {
+            throw Error(`collection ${collection} already exists`)
+        }
+        if (parent && !this.#collections.has(parent.collection)) {
+            throw Error(`parent collection ${parent.collection} does not exist`)
+        }
+        if (!await trash.hasCollection(entry._id)) {
+            throw Error(`trashed directory of collection ${collection} is missing`)
+        }
+
+        await mkdir(dirname(collectionPath), { recursive: true })
+        await rename(trash.collectionPath(entry._id), collectionPath)
+
+        for (const unbuilt of this.#loadCollectionSync(collection, collectionPath)) {
+            this.#rebuildCollectionSync(unbuilt)
+        }
+        const restored = [collection, ...this.#descendantCollections(collection)]
+        await this.#updateMetadata(metadata => {
+            for (const name of restored) {
+                metadata.collections.set(name, this.#collections.get(name)!)
+            }
+        })
+
+        for (const name of restored) {
+            this.#emit("collectionCreated", { collection: name })
+            if (this.#watchAll) await this.#startWatcher(name)
+        }
+    }
+
+    /**
+     * ------ Encryption Functions ------
+     */
+
+    /**
+     * @description Re-encrypts the encrypted files of the database with a new key, and encrypts
+     * the plain files left in encrypted collections. A journal holding each key encrypted with the
+     * other is written first, so that a rotation interrupted by a crash is finished by the next
+     * `init`, whichever of the two keys the database is opened with. Files are rewritten one at a
+     * time and stay readable throughout. Writes of every process sharing the root directory are
+     * drained first and wait for the rotation to finish. The previous key is kept to read files
+     * written with it by other processes.
+     *
+     * @param {EncryptionKey} newKey - The new key, or the passphrase to derive it from.
+     *
+     * @returns {Promise<void>} A promise that resolves once every file uses the new key.
+     * @throws {Error} If encryption is not enabled, the new key is invalid or a file cannot be
+     * rewritten.
+     * @throws {LockError} If writes of another process are still in flight after the lock timeout.
+     */
+    async rotateKey(newKey: EncryptionKey): Promise<void> {
+        try {
+            const cipher = this.#cipher
+            if (!cipher) throw Error("encryption is not enabled, see the encryption option")
+
+            const salt = newKey.passphrase !== undefined ? Cipher.newSalt() : undefined
+            const key = Cipher.resolveKey(newKey, salt)
+            const next = new Cipher(key)
+            const target: EncryptionMetadata = {
+                algorithm: Cipher.ALGORITHM,
+                keyId: next.keyId,
+                salt
+            }
+
+            const rotate = async () => {
+                const journal: KeyRotationJournal = {
+                    from: { ...this.#metadata.encryption!, wrappedKey: next.wrap(cipher) },
+                    to: { ...target, wrappedKey: cipher.wrap(next) }
+                }
+                await writeFileAtomic(
+                    this.#keyRotationPath,
+                    JSON.stringify(journal, undefinedReplacer)
+                )
+
+                this.#cipher = cipher.rotate(key)
+                await this.#reencrypt(this.#rootDir, false)
+
+                await this.#updateMetadata(metadata => { metadata.encryption = target })
+                await rm(this.#keyRotationPath, { force: true })
+            }
+
+            await this.#withWriteBarrier(() => this.#withLock("key-rotation", rotate))
+
+            this.#encryptionConfig = {
+                perCollection: this.#encryptionConfig?.perCollection,
+                ...newKey
+            }
+        } catch (error) {
+            console.error("failed to rotate encryption key: ", error)
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns the codec of the files of a collection, or of the database files
+     * outside of collections (journals, trash entries). Files are decrypted whenever a key is
+     * configured, and encrypted when `#encrypts` says so at the time of the write. Plain files of
+     * an encrypted collection are rejected once the database is initialized, see `#plainAccepted`.
+     */
+    #codec(collection?: string): FileCodec {
+        return {
+            encode: text => this.#encrypts(collection) ? this.#cipher!.encrypt(text) : text,
+            decode: contents => {
+                if (!this.#cipher) return Cipher.PLAINTEXT.decode(contents)
+
+                const plainAllowed = collection === undefined || !this.#encrypts(collection) ||
+                    this.#plainAccepted
+                return decompress(this.#cipher.decryptBuffer(contents, plainAllowed))
+            }
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns the codec of the document files of a collection, which compresses them
+     * as the storage options of the collection say before encrypting them.
+     */
+    #documentCodec(collection: string): FileCodec {
+        const codec = this.#codec(collection)
+
+        return {
+            encode: text => {
+                const data = compress(text, this.#storage(collection))
+                return this.#encrypts(collection) ? this.#cipher!.encrypt(data) : data
+            },
+            decode: codec.decode
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns whether the files of a collection are encrypted, every collection is
+     * unless encryption is enabled per collection.
+     */
+    #encrypts(collection?: string): boolean {
+        if (!this.#cipher) return false
+        if (collection === undefined || !this.#encryptionConfig?.perCollection) return true
+
+        return this.#collectionMetadata.get(collection)?.settings.encrypted === true
+    }
+
+    /**
+     * @private
+     * @description Checks the configured key against the database and sets up the cipher, without
+     * writing anything. The key of a database that is not encrypted yet is returned for the
+     * caller to record in the metadata. When a key rotation was interrupted, either of its keys is
+     * accepted and the rotation is left pending towards the given one, see
+     * `#recoverKeyRotationSync`. Both keys are kept to read the files written with either.
+     *
+     * @returns {EncryptionMetadata | undefined} The configured key, if not recorded yet.
+     * @throws {Error} If the database is encrypted and no key, or a different key, is configured.
+     */
+    #initEncryptionSync(): EncryptionMetadata | undefined {
+        const config = this.#encryptionConfig
+        const journal = this.#readKeyRotationJournalSync()
+
+        if (!config) {
+            if (this.#metadata.encryption || journal) {
+                throw Error("database is encrypted, pass the encryption option")
+            }
+            return
+        }
+
+        if (journal) {
+            for (const [side, other] of [[journal.to, journal.from], [journal.from, journal.to]]) {
+                if (config.passphrase !== undefined && !side.salt) continue
+
+                const key = Cipher.resolveKey(config, side.salt ?? undefined)
+                if (Cipher.keyId(key) !== side.keyId) continue
+
+                this.#cipher = new Cipher(key, [new Cipher(key).unwrap(other.wrappedKey)])
+                this.#pendingKeyRotation = {
+                    target: { algorithm: side.algorithm, keyId: side.keyId, salt: side.salt }
+                }
+                return
+            }
+
+            throw Error("encryption key does not match the database")
+        }
+
+        const stored = this.#metadata.encryption
+        const salt = stored
+            ? stored.salt ?? undefined
+            : config.passphrase !== undefined ? Cipher.newSalt() : undefined
+        const cipher = new Cipher(Cipher.resolveKey(config, salt))
+
+        if (stored && stored.keyId !== cipher.keyId) {
+            throw Error("encryption key does not match the database")
+        }
+
+        this.#cipher = cipher
+        if (!stored) return { algorithm: Cipher.ALGORITHM, keyId: cipher.keyId, salt }
+    }
+
+    /**
+     * @private
+     * @description Finishes the key rotation found pending by `#initEncryptionSync` while holding
+     * the write barrier and the key rotation lock, as `rotateKey` does, waiting for a rotation
+     * still run by another process. When that rotation finished meanwhile, the configured key must
+     * be the one it rotated to. Every file is rewritten with the new key while the cipher still
+     * reads both keys, then the new key is recorded and the rotation journal removed. Rewriting a
+     * file twice is harmless, so an interrupted run is finished by running it again.
+     *
+     * @throws {Error} If the rotation finished to another key, or cannot be finished.
+     * @throws {LockError} If another process holds the key rotation lock past the lock timeout.
+     */
+    #recoverKeyRotationSync() {
+        const { target } = this.#pendingKeyRotation!
+
+        this.#withLockSync("writes", () => this.#withLockSync("key-rotation", () => {
+            this.#pendingKeyRotation = undefined
+
+            if (this.#readKeyRotationJournalSync()) {
+                this.#reencryptSync(this.#rootDir, false)
+
+                this.#updateMetadataSync(metadata => { metadata.encryption = target })
+                rmSync(this.#keyRotationPath, { force: true })
+
+                console.log("finished interrupted key rotation to key:", target.keyId)
+                return
+            }
+
+            this.#metadata = this.#readMetadataFileSync()
+            if (this.#metadata.encryption?.keyId !== target.keyId) {
+                throw Error("encryption key does not match the database")
+            }
+        }))
+    }
+
+    /**
+     * @private
+     * @description Recursively encrypts the JSON files of a directory with the current key: the
+     * encrypted ones, and the plain ones when `encryptPlain` is set. Collection directories set
+     * `encryptPlain` for their whole tree, up to the sub-collections they hold. The metadata file,
+     * the rotation journal and the locks are left as is. The entries are handled by
+     * `#reencryptEntry` and `#reencryptFile`, shared with `#reencryptSync`.
+     */
+    async #reencrypt(dir: string, encryptPlain: boolean, collection?: string) {
+        for (const dirent of await readdir(dir, { withFileTypes: true })) {
+            const entry = this.#reencryptEntry(dir, dirent, encryptPlain, collection)
+            if (!entry) continue
+
+            if (entry.isDirectory) {
+                await this.#reencrypt(entry.path, entry.encryptPlain, entry.collection)
+                continue
+            }
+
+            const encrypted = this.#reencryptFile(entry, await readFile(entry.path))
+            if (encrypted === null) continue
+
+            await writeFileAtomic(entry.path, encrypted)
+            this.#recordReencrypted(entry, encrypted)
+        }
+    }
+
+    /**
+     * @private
+     * @description Synchronous version of `#reencrypt`.
+     */
+    #reencryptSync(dir: string, encryptPlain: boolean, collection?: string) {
+        for (const dirent of readdirSync(dir, { withFileTypes: true })) {
+            const entry = this.#reencryptEntry(dir, dirent, encryptPlain, collection)
+            if (!entry) continue
+
+            if (entry.isDirectory) {
+                this.#reencryptSync(entry.path, entry.encryptPlain, entry.collection)
+                continue
+            }
+
+            const encrypted = this.#reencryptFile(entry, readFileSync(entry.path))
+            if (encrypted === null) continue
+
+            writeFileAtomicSync(entry.path, encrypted)
+            this.#recordReencrypted(entry, encrypted)
+        }
+    }
+
+    /**
+     * @private
+     * @description Describes an entry of a directory walked by `#reencrypt`, `null` when it is
+     * left as is: the database files of the root directory, and the files that are not JSON or
+     * are temporary.
+     */
+    #reencryptEntry(
+        dir: string,
+        dirent: Dirent,
+        encryptPlain: boolean,
+        collection?: string
+    ): ReencryptEntry | null {
+        const skipped = [
+            DirfileDB.LOCK_DIRNAME,
+            DirfileDB.METADATA_FILENAME,
+            DirfileDB.KEY_ROTATION_FILENAME
+        ]
+        if (dir === this.#rootDir && skipped.includes(dirent.name)) return null
+
+        const path = join(dir, dirent.name)
+        if (dirent.isDirectory()) {
+            const name = relative(this.#rootDir, path).split(sep).join(COLLECTION_PATH_SEPARATOR)
+            const isCollection = this.#collections.has(name)
+
+            return {
+                path,
+                isDirectory: true,
+                encryptPlain: isCollection ? this.#encrypts(name) : encryptPlain,
+                collection: isCollection ? name : collection
+            }
+        }
+
+        if (!dirent.name.endsWith(".json") || isTempFile(dirent.name)) return null
+
+        return { path, isDirectory: false, encryptPlain, collection }
+    }
+
+    /**
+     * @private
+     * @description Encrypts the contents of a file walked by `#reencrypt` with the current key,
+     * `null` when the file is plain and left as is.
+     */
+    #reencryptFile(entry: ReencryptEntry, contents: Buffer): string | null {
+        if (!entry.encryptPlain && !Cipher.isEncrypted(contents)) return null
+
+        return this.#cipher!.encrypt(this.#cipher!.decryptBuffer(contents))
+    }
+
+    /**
+     * @private
+     * @description Records a file rewritten by `#reencrypt` with the watcher of its collection.
+     */
+    #recordReencrypted(entry: ReencryptEntry, encrypted: string) {
+        if (!entry.collection) return
+
+        const collectionPath = this.#collections.get(entry.collection)!.toString()
+        this.#watchers.get(entry.collection)
+            ?.record(relative(collectionPath, entry.path), encrypted)
+    }
+
+    /**
+     * @private
+     * @description Reads the journal of an interrupted key rotation.
+     *
+     * @returns {KeyRotationJournal | null} The journal, or `null` if no rotation is running.
+     */
+    #readKeyRotationJournalSync(): KeyRotationJournal | null {
+        try {
+            return JSON.parse(readFileSync(this.#keyRotationPath, "utf8"))
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description The path of the key rotation journal within the root directory.
+     */
+    get #keyRotationPath(): string {
+        return join(this.#rootDir, DirfileDB.KEY_ROTATION_FILENAME)
+    }
+
+    /**
+     * ------ Transaction Functions ------
+     */
+
+    /**
+     * @description Runs a callback as an all-or-nothing transaction. Writes made through `tx` are
+     * staged in memory, visible to reads made through `tx`, and only committed once the callback
+     * resolves. Committing first writes a journal under the root directory, then applies the
+     * writes. If applying fails the already applied writes are rolled back, and if the process
+     * crashes `init()` replays or rolls back the journal. Documents written by the transaction must
+     * be unchanged since it read them.
+     *
+     * @example
+     * ```typescript
+     * await db.transaction(async tx => {
+     *     const order = await tx.create("orders", { item: "book" })
+     *     await tx.update("stock", { _id: "book", reserved: order._id })
+     * })
+     * ```
+     *
+     * @param {Function} callback - Receives the transaction and stages writes through it.
+     *
+     * @returns {Promise<T>} The value returned by the callback.
+     * @throws {Error} If the callback throws (nothing is written) or the commit fails.
+     * @throws {ConflictError} If a document the transaction wrote was changed by another writer
+     * since the transaction read it (nothing is written).
+     */
+    async transaction<T>(callback: (tx: Transaction) => Promise<T>): Promise<T> {
+        const tx = new Transaction({
+            hasCollection: collection => this.#collections.has(collection),
+            generateId: collection => this.#generateId(collection),
+            read: async (collection, id) => {
+                const document = await this.#readDocument(
+                    collection,
+                    this.#documentPath(collection, id)
+                )
+                return document && !isExpired(document) ? document : null
+            },
+            findAll: async (collection, query) => {
+                const matches: { id: string, document: any }[] = []
+                for await (const { file, document } of this.#iterateMatches(collection, query)) {
+                    matches.push({ id: basename(file, ".json"), document })
+                }
+
+                return matches
+            }
+        })
+
+        let result: T
+        try {
+            result = await callback(tx)
+        } catch (error) {
+            tx.abort()
+            throw error
+        }
+
+        try {
+            await this.#withWrite(async () => this.#commitTransaction(await tx.close()))
+            return result
+        } catch (error) {
+            console.error("failed to commit transaction: ", error)
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Journals and applies the operations of a transaction while holding the locks
+     * of every touched document. The atomic write of the journal is the commit point. If an
+     * operation fails, the journal is marked as rolling back and the operations already applied are
+     * reverted.
+     *
+     * @throws {Error} If a unique index would be violated or the operations cannot be applied.
+     * @throws {ConflictError} If a document was changed since the transaction read it.
+     * @throws {LockError} If another writer holds one of the document locks.
+     */
+    async #commitTransaction(operations: TransactionOperation[]) {
+        if (operations.length === 0) return
+
+        const resources = operations
+            .map(({ collection, id }) => `documents/${collection}/${id}`)
+            .sort()
+        const releases: (() => Promise<void>)[] = []
+
+        try {
+            for (const resource of new Set(resources)) {
+                if (this.#locks) releases.push(await this.#locks.acquire(resource))
+            }
+
+            // refresh the previous versions from disk now that the documents are locked, they must
+            // still be the versions the transaction read
+            for (const operation of operations) {
+                const { collection, id } = operation
+                const current = await this.#readDocumentFile(
+                    collection,
+                    this.#documentPath(collection, id)
+                )
+                const visible = current && !isExpired(current) ? current : null
+                if (!deepEqual(visible, operation.previous ?? null)) {
+                    throw new ConflictError(collection, id)
+                }
+
+                operation.previous = current
+                // documents written over a missing or expired document are new
+                const replaced = operation.previous && !isExpired(operation.previous)
+                if (operation.type === "put" && !replaced) {
+                    this.#assignExpiration(operation.collection, operation.document)
+                }
+                this.#assignRevision(operation)
+            }
+
+            const applied = operations.filter(
+                operation => operation.type === "put" || operation.previous
+            )
+
+            // deleted documents are trashed before being removed, as `#performDelete` does
+            const trashed: TrashEntry[] = []
+            for (const operation of applied) {
+                const { collection, previous } = operation
+                if (operation.type === "remove" && this.#trash) {
+                    trashed.push(await this.#trash.addDocument(collection, previous))
+                }
+            }
+
+            try {
+                const collections = new Set(applied.map(({ collection }) => collection))
+                await this.#withUniqueIndexes(
+                    Array.from(collections),
+                    () => this.#applyTransaction(applied)
+                )
+            } catch (error) {
+                for (const entry of trashed) await this.#trash?.remove(entry._id)
+                throw error
+            }
+
+            for (const operation of applied) {
+                const { collection, id, previous } = operation
+                const document = operation.type === "put" ? operation.document : null
+
+                await this.#recordRevision(collection, id, previous, document)
+            }
+        } finally {
+            for (const release of releases) await release()
+        }
+    }
+
+    /**
+     * @private
+     * @description Sets the `_rev` of a document written by a transaction to a collection with
+     * revisions. A staged document holds the `_rev` it was read (or updated) with, which must still
+     * be the revision on disk.
+     *
+     * @throws {ConflictError} If the document was changed since the transaction read it.
+     */
+    #assignRevision(operation: TransactionOperation) {
+        if (operation.type !== "put" || !this.#revisionOptions(operation.collection)) return
+
+        const { collection, id, previous, document } = operation
+
+        if (previous && document._rev !== undefined && document._rev !== previous._rev) {
+            throw new ConflictError(collection, id, document._rev, previous._rev)
+        }
+
+        document._rev = RevisionHistory.nextRevision(document, previous?._rev)
+    }
+
+    /**
+     * @private
+     * @description Journals and applies the operations of a locked transaction. The staged writes
+     * are checked against the unique indexes and against each other, callers hold the locks on the
+     * unique indexes, see `#withUniqueIndexes`.
+     *
+     * @throws {Error} If a unique index would be violated or the operations cannot be applied.
+     * @throws {SchemaValidationError} If a written document does not conform to its schema.
+     */
+    async #applyTransaction(operations: TransactionOperation[]) {
+        if (operations.length === 0) return
+
+        for (const operation of operations) {
+            if (operation.type === "put") {
+                this.#assertValidDocument(operation.collection, operation.document)
+            }
+        }
+
+        await this.#assertUniqueIndexes(operations)
+
+        const journal: TransactionJournal = {
+            _id: randomUUID(),
+            state: "committed",
+            createdAt: new Date().toISOString(),
+            operations
+        }
+        const journalDir = join(this.#rootDir, DirfileDB.JOURNAL_DIRNAME)
+        const journalPath = join(journalDir, `${journal._id}.json`)
+
+        await mkdir(journalDir, { recursive: true })
+        await writeFileAtomic(
+            journalPath,
+            this.#codec().encode(JSON.stringify(journal, undefinedReplacer))
+        )
+
+        const applied: TransactionOperation[] = []
+
+        try {
+            for (const operation of operations) {
+                await this.#applyOperation(operation)
+                applied.push(operation)
+            }
+        } catch (error) {
+            journal.state = "rolling-back"
+            await writeFileAtomic(
+                journalPath,
+                this.#codec().encode(JSON.stringify(journal, undefinedReplacer))
+            )
+
+            for (const operation of applied.reverse()) {
+                await this.#revertOperation(operation)
+            }
+
+            await rm(journalPath, { force: true })
+            throw error
+        }
+
+        await rm(journalPath, { force: true })
+    }
+
+    /**
+     * @private
+     * @description Applies a single transaction operation through the regular write path.
+     */
+    async #applyOperation(operation: TransactionOperation) {
+        const { collection, id, previous } = operation
+
+        if (operation.type === "put") {
+            await this.#putDocument(collection, id, operation.document, previous)
+        } else {
+            await this.#removeDocument(collection, id, previous)
+        }
+    }
+
+    /**
+     * @private
+     * @description Restores the `previous` version of a document touched by an applied operation.
+     */
+    async #revertOperation(operation: TransactionOperation) {
+        const { collection, id, previous } = operation
+
+        if (operation.type === "remove") {
+            await this.#putDocument(collection, id, previous, null)
+        } else if (previous) {
+            await this.#putDocument(collection, id, previous, operation.document)
+        } else {
+            await this.#removeDocument(collection, id, operation.document)
+        }
+    }
+
+    /**
+     * @private
+     * @description Synchronously recovers the transaction journals left by a crash. Committed
+     * journals are replayed and journals that were rolling back have their previous versions
+     * restored. Document files are written directly, so the touched collections are rebuilt
+     * afterwards. Each journal is recovered while holding the document locks its transaction
+     * held, journals of transactions still being committed by a running process are skipped.
+     *
+     * @throws {Error} If a journal cannot be read or replayed.
+     */
+    #recoverJournalsSync() {
+        const journalDir = join(this.#rootDir, DirfileDB.JOURNAL_DIRNAME)
+        if (!dirExists(journalDir)) return
+
+        const touchedCollections = new Set<string>()
+
+        for (const file of readdirSync(journalDir)) {
+            if (isTempFile(file)) continue
+
+            const journalPath = join(journalDir, file)
+            const journal = this.#readJournalSync(journalPath)
+            if (!journal) continue
+
+            const resources = new Set(journal.operations
+                .map(({ collection, id }) => `documents/${collection}/${id}`)
+                .sort())
+            const releases: (() => void)[] = []
+
+            try {
+                for (const resource of resources) {
+                    if (this.#locks) releases.push(this.#locks.acquireSync(resource))
+                }
+
+                // the transaction finished while waiting for its locks
+                const locked = this.#readJournalSync(journalPath)
+                if (locked) this.#replayJournalSync(journalPath, locked, touchedCollections)
+            } catch (error) {
+                if (!(error instanceof LockError)) throw error
+                console.log("skipped transaction being committed:", journal._id)
+            } finally {
+                for (const release of releases) release()
+            }
+        }
+
+        for (const collection of touchedCollections) {
+            this.#rebuildCollectionSync(collection)
+        }
+    }
+
+    /**
+     * @private
+     * @description Synchronously reads a transaction journal.
+     *
+     * @returns {TransactionJournal | null} The journal, or `null` if it was removed.
+     */
+    #readJournalSync(journalPath: string): TransactionJournal | null {
+        try {
+            return JSON.parse(this.#codec().decode(readFileSync(journalPath, "utf8")))
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+            throw error
+        }
+    }
+
+    /**
+     * @private
+     * @description Synchronously replays or rolls back a journaled transaction, then removes its
+     * journal. The collections whose documents were written are added to `touchedCollections`.
+     */
+    #replayJournalSync(
+        journalPath: string,
+        journal: TransactionJournal,
+        touchedCollections: Set<string>
+    ) {
+        const rollback = journal.state === "rolling-back"
+
+        for (const operation of journal.operations) {
+            const { collection, id, previous } = operation
+            if (!this.#collections.has(collection)) continue
+
+            const document = rollback
+                ? previous
+                : operation.type === "put" ? operation.document : null
+
+            for (const documentPath of this.#documentPaths(collection, id)) {
+                if (document) {
+                    mkdirSync(dirname(documentPath), { recursive: true })
+                    writeFileAtomicSync(
+                        documentPath,
+                        this.#documentCodec(collection).encode(
+                            this.#documentText(collection, document)
+                        )
+                    )
+                } else {
+                    rmSync(documentPath, { force: true })
                 }
             }
 
-            return null // Return null if no document matches the query
+            touchedCollections.add(collection)
+        }
+
+        rmSync(journalPath, { force: true })
+        console.log(`${rollback ? "rolled back" : "replayed"} transaction:`, journal._id)
+    }
+
+    /**
+     * ------ Document File Functions ------
+     */
+
+    /**
+     * @private
+     * @description Generates an `_id` for a new document using the collection `idStrategy`.
+     */
+    #generateId(collection: string): string {
+        const strategy = this.#collectionMetadata.get(collection)?.settings.idStrategy
+
+        if (strategy === "timestamp") {
+            const time = Date.now().toString(36).padStart(10, "0")
+            return `${time}-${randomBytes(6).toString("hex")}`
+        }
+
+        return randomUUID({ disableEntropyCache: true })
+    }
+
+    /**
+     * @private
+     * @description Returns the path of a document file within a collection directory, in the
+     * current shard layout of the collection unless a depth is given.
+     *
+     * @throws {Error} If the collection does not exist.
+     */
+    #documentPath(
+        collection: string,
+        id: string,
+        depth: number = this.#shardDepth(collection)
+    ): string {
+        const collectionPath = this.#collections.get(collection)
+        if (!collectionPath) throw Error(`collection ${collection}, does not exist`)
+
+        return join(collectionPath.toString(), documentFilePath(id, depth))
+    }
+
+    /**
+     * @private
+     * @description Returns the paths a document file is written to: its path in the current
+     * layout, followed by its path in the layout a running reshard converts to, if any.
+     */
+    #documentPaths(collection: string, id: string): string[] {
+        const resharding = this.#collectionMetadata.get(collection)?.settings.resharding
+        const paths = [this.#documentPath(collection, id)]
+        if (resharding && resharding.to !== this.#shardDepth(collection)) {
+            paths.push(this.#documentPath(collection, id, resharding.to))
+        }
+
+        return paths
+    }
+
+    /**
+     * @private
+     * @description Writes the contents of a document file to each of its paths, see
+     * `#documentPaths`, creating the shard directories as needed.
+     */
+    async #writeDocumentFile(collection: string, id: string, fileContent: string | Buffer) {
+        const collectionPath = this.#collections.get(collection)!.toString()
+
+        for (const filePath of this.#documentPaths(collection, id)) {
+            await mkdir(dirname(filePath), { recursive: true })
+            await writeFileAtomic(filePath, fileContent)
+            this.#watchers.get(collection)?.record(relative(collectionPath, filePath), fileContent)
+        }
+    }
+
+    /**
+     * @private
+     * @description Writes a document file and brings the cache, the indexes and the collection
+     * metadata up to date. Callers are responsible for existence and unique index checks.
+     *
+     * @param {string} collection - The name of the collection to write to.
+     * @param {string} id - The `_id` of the document.
+     * @param {any} data - The document to write.
+     * @param {any | null} previous - The version of the document currently on disk, if any.
+     *
+     * @returns {Promise<any>} The document as stored on disk.
+     */
+    async #putDocument(
+        collection: string,
+        id: string,
+        data: any,
+        previous: any | null
+    ): Promise<any> {
+        const filePath = this.#documentPath(collection, id)
+        const previousSize = previous ? (await stat(filePath)).size : 0
+
+        const jsonDataString = this.#documentText(collection, data)
+        const fileContent = this.#documentCodec(collection).encode(jsonDataString)
+
+        await this.#writeDocumentFile(collection, id, fileContent)
+
+        const document = JSON.parse(jsonDataString)
+        this.#cacheDocument(filePath, document, jsonDataString)
+        await this.#updateIndexes(collection, id, previous ?? undefined, document)
+        await this.#recordCollectionChange(
+            collection,
+            previous ? 0 : 1,
+            Buffer.byteLength(fileContent) - previousSize
+        )
+
+        this.#emit(previous ? "documentUpdated" : "documentCreated", {
+            collection,
+            _id: id,
+            document: structuredClone(document),
+            previous: structuredClone(previous),
+            external: false
+        })
+
+        return document
+    }
+
+    /**
+     * @private
+     * @description Deletes a document file and brings the cache, the indexes and the collection
+     * metadata up to date.
+     *
+     * @param {string} collection - The name of the collection to delete from.
+     * @param {string} id - The `_id` of the document.
+     * @param {any} previous - The version of the document currently on disk.
+     */
+    async #removeDocument(collection: string, id: string, previous: any) {
+        const collectionPath = this.#collections.get(collection)!.toString()
+        const filePath = this.#documentPath(collection, id)
+        const { size } = await stat(filePath)
+
+        for (const path of this.#documentPaths(collection, id)) {
+            await rm(path, { force: true })
+            this.#watchers.get(collection)?.record(relative(collectionPath, path), null)
+        }
+        this.#cache?.delete(filePath)
+        await this.#updateIndexes(collection, id, previous, undefined)
+        await this.#recordCollectionChange(collection, -1, -size)
+
+        this.#emit("documentDeleted", {
+            collection,
+            _id: id,
+            document: null,
+            previous: structuredClone(previous),
+            external: false
+        })
+    }
+
+    /**
+     * @private
+     * @description Lists the paths of the document files of a collection relative to its directory,
+     * skipping hidden entries such as the index directory.
+     */
+    async #listDocumentFiles(collection: string, collectionPath: PathLike): Promise<string[]> {
+        const files: string[] = []
+        const depth = this.#shardDepth(collection)
+        for await (const file of streamDocumentFiles(collectionPath.toString(), depth)) {
+            files.push(file)
+        }
+
+        return files
+    }
+
+    /**
+     * @private
+     * @description Streams the document files that need to be read to answer a query, using the
+     * candidate ids from the indexes when possible. Otherwise the collection directory is read
+     * entry by entry rather than listed at once.
+     */
+    async *#streamQueryFiles(
+        collection: string,
+        collectionPath: PathLike,
+        query?: Query
+    ): AsyncGenerator<string, void, undefined> {
+        const candidates = await this.#candidateIds(collection, query)
+
+        const depth = this.#shardDepth(collection)
+
+        if (candidates) {
+            for (const id of candidates) yield documentFilePath(id, depth)
+            return
+        }
+
+        yield* streamDocumentFiles(collectionPath.toString(), depth)
+    }
+
+    /**
+     * @private
+     * @description Returns the document files that need to be read to answer a query, using the
+     * candidate ids from the indexes when possible.
+     */
+    async #queryFiles(
+        collection: string,
+        collectionPath: PathLike,
+        query?: Query
+    ): Promise<string[]> {
+        const candidates = await this.#candidateIds(collection, query)
+        if (!candidates) return this.#listDocumentFiles(collection, collectionPath)
+
+        const depth = this.#shardDepth(collection)
+
+        return Array.from(candidates, id => documentFilePath(id, depth))
+    }
+
+    /**
+     * @private
+     * @description Reads and parses a document file, answering from the cache when possible.
+     *
+     * @returns {Promise<any | null>} The document, or `null` if the file does not exist.
+     */
+    async #readDocument(collection: string, filePath: string): Promise<any | null> {
+        const cached = this.#cache?.get(filePath)
+        if (cached !== undefined) return cached
+
+        return this.#readDocumentFile(collection, filePath)
+    }
+
+    /**
+     * @private
+     * @description Reads and parses a document file from disk, bypassing the cache lookup, and
+     * refreshes the cache with its content.
+     *
+     * @returns {Promise<any | null>} The document, or `null` if the file does not exist.
+     */
+    async #readDocumentFile(collection: string, filePath: string): Promise<any | null> {
+        try {
+            const fileContent = this.#codec(collection).decode(await readFile(filePath))
+            const document = JSON.parse(fileContent)
+
+            this.#cacheDocument(filePath, document, fileContent)
+
+            return document
         } catch (error) {
-            console.error(`Failed to find data in ${collection}: `, error)
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
             throw error
         }
     }
 
     /**
-     * @description Searches through all documents in the specified collection directory and returns
-     * all documents that match the query. If no query is provided, all documents are returned.
+     * @private
+     * @description Runs a write while holding the lock on a resource, or directly when locking is
+     * disabled. Writes made within a write holding the lock run directly. The write holds the
+     * write barrier shared, see `#withWrite`.
+     */
+    async #withLock<T>(resource: string, fn: () => Promise<T>): Promise<T> {
+        return this.#withWrite(() => {
+            const held = this.#heldLocks.getStore()
+            if (!this.#locks || held?.has(resource)) return fn()
+
+            return this.#locks.withLock(
+                resource,
+                () => this.#heldLocks.run(new Set(held).add(resource), fn)
+            )
+        })
+    }
+
+    /**
+     * @private
+     * @description Runs a write while holding the write barrier shared, along with the other
+     * writes in flight. Writes wait while a key rotation or a snapshot holds the barrier, in this
+     * process or in any other process sharing the root directory. Writes made within a write run
+     * directly.
      *
-     * @param {string} collection - The name of the collection to search within.
-     * @param {any} [query] - The optional query containing key-value pairs to match documents.
+     * @throws {LockError} If another process holds the write barrier past the lock timeout.
+     */
+    async #withWrite<T>(fn: () => Promise<T>): Promise<T> {
+        this.#assertWritable()
+        if (this.#writeScope.getStore()) return fn()
+
+        while (this.#writeBarrier) await this.#writeBarrier
+
+        this.#activeWrites++
+        try {
+            if (this.#locks) {
+                this.#sharedWrites ??= this.#locks.acquireShared("writes")
+                await this.#sharedWrites
+            }
+
+            return await this.#writeScope.run(true, fn)
+        } finally {
+            if (--this.#activeWrites === 0) {
+                const sharedWrites = this.#sharedWrites
+                this.#sharedWrites = undefined
+                await sharedWrites?.then(release => release(), () => undefined)
+
+                if (this.#activeWrites === 0) this.#onWritesDrained?.()
+            }
+        }
+    }
+
+    /**
+     * @private
+     * @description Runs a function while holding the write barrier: the writes in flight in this
+     * process and in any other process sharing the root directory are drained first, and new
+     * writes wait until the function returns.
      *
-     * @returns {Promise<any[]>} A promise that resolves to an array of found documents.
+     * @throws {LockError} If writes of another process are still in flight after the lock timeout.
      */
-    async findAll(collection: string, query?: any): Promise<any[]> {
+    async #withWriteBarrier<T>(fn: () => Promise<T>): Promise<T> {
+        while (this.#writeBarrier) await this.#writeBarrier
+
+        let lift!: () => void
+        this.#writeBarrier = new Promise(resolve => { lift = resolve })
+
         try {
-            const collectionPath = this.#collections.get(collection)
-            if (!collectionPath) throw new Error("Collection does not exist")
+            if (this.#activeWrites > 0) {
+                await new Promise<void>(resolve => { this.#onWritesDrained = resolve })
+            }
 
-            const files = await readdir(collectionPath)
-            const results: any[] = []
+            const run = () => this.#writeScope.run(true, fn)
+            return await (this.#locks ? this.#locks.withLock("writes", run) : run())
+        } finally {
+            this.#onWritesDrained = undefined
+            this.#writeBarrier = undefined
+            lift()
+        }
+    }
 
-            for (const file of files) {
-                const filePath = join(collectionPath.toString(), file)
-                const fileContent = await readFile(filePath, "utf8")
-                const document = JSON.parse(fileContent)
+    /**
+     * @private
+     * @description Ensures the database can be written to. A database opened for a migration dry
+     * run is left at its stored version, neither migrated nor recovered, and refuses every write.
+     *
+     * @throws {Error} If the database was opened for a migration dry run.
+     */
+    #assertWritable() {
+        if (this.#migrationReport?.dryRun) {
+            throw Error(
+                `database at version ${this.#metadata.version} was opened for a migration dry ` +
+                "run and is read-only"
+            )
+        }
+    }
 
-                if (!query || Object.keys(query).every(key => document[key] === query[key])) {
-                    results.push(document)
-                }
+    /**
+     * @private
+     * @description Synchronous version of `#withLock`.
+     */
+    #withLockSync<T>(resource: string, fn: () => T): T {
+        return this.#locks ? this.#locks.withLockSync(resource, fn) : fn()
+    }
+
+    /**
+     * @private
+     * @description Stores a document in the cache, if enabled, sized by its file content.
+     */
+    #cacheDocument(filePath: string, document: any, fileContent: string) {
+        this.#cache?.set(filePath, document, Buffer.byteLength(fileContent))
+    }
+
+    /**
+     * ------ Event Functions ------
+     */
+
+    /**
+     * @description Registers a listener called every time the event is emitted.
+     *
+     * @param {keyof DirfileDBEvents} event - The name of the event.
+     * @param {Function} listener - Called with the event payload.
+     *
+     * @returns {this} The database, for chaining.
+     */
+    on<E extends keyof DirfileDBEvents>(
+        event: E,
+        listener: (payload: DirfileDBEvents[E]) => void
+    ): this {
+        this.#events.on(event, listener)
+        return this
+    }
+
+    /**
+     * @description Registers a listener called the next time the event is emitted only.
+     *
+     * @param {keyof DirfileDBEvents} event - The name of the event.
+     * @param {Function} listener - Called with the event payload.
+     *
+     * @returns {this} The database, for chaining.
+     */
+    once<E extends keyof DirfileDBEvents>(
+        event: E,
+        listener: (payload: DirfileDBEvents[E]) => void
+    ): this {
+        this.#events.once(event, listener)
+        return this
+    }
+
+    /**
+     * @description Removes a listener registered with `on` or `once`.
+     *
+     * @param {keyof DirfileDBEvents} event - The name of the event.
+     * @param {Function} listener - The listener to remove.
+     *
+     * @returns {this} The database, for chaining.
+     */
+    off<E extends keyof DirfileDBEvents>(
+        event: E,
+        listener: (payload: DirfileDBEvents[E]) => void
+    ): this {
+        this.#events.off(event, listener)
+        return this
+    }
+
+    /**
+     * @description Watches collection directories for document files created, edited or deleted
+     * outside of this instance (by hand or by another process) and emits the document events for
+     * them with `external: true`. Cached copies of changed documents are dropped. Indexes and
+     * collection metadata are not updated for external changes.
+     *
+     * Watchers keep the process running until `unwatch()` or `close()` is called.
+     *
+     * @param {string} [collection] - The collection to watch, every collection (including the ones
+     * created later) when omitted.
+     *
+     * @returns {Promise<void>} A promise that resolves once the watchers are running.
+     * @throws {Error} If the collection does not exist.
+     */
+    async watch(collection?: string): Promise<void> {
+        try {
+            if (collection !== undefined) {
+                if (!this.#collections.has(collection)) throw Error("collection does not exist")
+
+                await this.#startWatcher(collection)
+                return
             }
 
-            return results
+            this.#watchAll = true
+            for (const name of this.#collections.keys()) await this.#startWatcher(name)
         } catch (error) {
-            console.error(`Failed to find data in ${collection}: `, error)
+            console.error("failed to watch collections: ", error)
             throw error
         }
     }
 
     /**
-     * @description Updates an existing document in the specified collection by merging the provided
-     * `newData` with the existing document, identified by the `_id` field. The document is then
-     * rewritten with the updated data.
+     * @description Stops watching a collection, or every collection when omitted.
      *
-     * @param {string} collection - The name of the collection that contains the document to update.
-     * @param {UpdateData} newData - The data to merge/update the document with.
+     * @param {string} [collection] - The collection to stop watching.
+     */
+    unwatch(collection?: string) {
+        const names = collection !== undefined ? [collection] : Array.from(this.#watchers.keys())
+        if (collection === undefined) this.#watchAll = false
+
+        for (const name of names) {
+            this.#watchers.get(name)?.stop()
+            this.#watchers.delete(name)
+        }
+    }
+
+    /**
+     * @description Stops every background activity of the instance so the process can exit: the
+     * collection watchers and the sweeps of expired documents. A running sweep stops after the
+     * document it is deleting.
+     */
+    close() {
+        this.unwatch()
+
+        clearInterval(this.#sweepTimer)
+        this.#sweepTimer = undefined
+        this.#sweep?.abort()
+    }
+
+    /**
+     * @private
+     * @description Emits a typed event.
+     */
+    #emit<E extends keyof DirfileDBEvents>(event: E, payload: DirfileDBEvents[E]) {
+        this.#events.emit(event, payload)
+    }
+
+    /**
+     * @private
+     * @description Starts watching a collection directory, unless it is already watched.
+     */
+    async #startWatcher(collection: string) {
+        const collectionPath = this.#collections.get(collection)
+        if (!collectionPath || this.#watchers.has(collection)) return
+
+        const watcher = new CollectionWatcher(
+            collectionPath.toString(),
+            change => this.#handleWatchedChange(collection, change)
+        )
+        this.#watchers.set(collection, watcher)
+        await watcher.start()
+    }
+
+    /**
+     * @private
+     * @description Emits the document event of a change detected by a collection watcher.
+     */
+    #handleWatchedChange(collection: string, change: WatchedChange) {
+        const collectionPath = this.#collections.get(collection)
+        if (!collectionPath) return
+
+        const id = basename(change.fileName, ".json")
+        this.#cache?.delete(join(collectionPath.toString(), change.fileName))
+
+        if (change.contents === null) {
+            this.#emit("documentDeleted", { collection, _id: id, document: null, external: true })
+            return
+        }
+
+        let document: any
+        try {
+            document = JSON.parse(this.#codec(collection).decode(change.contents))
+        } catch (error) {
+            console.error(`failed to parse externally changed document ${id}: `, error)
+            return
+        }
+
+        this.#emit(change.type === "created" ? "documentCreated" : "documentUpdated", {
+            collection,
+            _id: id,
+            document,
+            external: true
+        })
+    }
+
+    /**
+     * ------ Backup Functions ------
+     */
+
+    /**
+     * @description Writes a snapshot of the whole database to a single file: a gzipped archive of
+     * the metadata file and every collection (its metadata, indexes and documents), described by a
+     * manifest and protected by a sha256 checksum. Lock files, migration backups and quarantined
+     * files are left out. The writes in progress, including those of other processes when locking
+     * is enabled, are drained first and new writes wait until the snapshot is written. The files
+     * are streamed to the snapshot one at a time. Restore it with `DirfileDB.restoreSnapshot`.
      *
-     * @returns {Promise<any>} A promise that resolves to the updated document.
+     * @param {string} snapshotPath - The path of the snapshot file, replaced if it exists.
      *
-     * @todo using index verify if id exists, check changes in _id should also throw
+     * @returns {Promise<SnapshotManifest>} The manifest of the snapshot.
+     * @throws {LockError} If writes of another process are still in flight after the lock timeout.
+     * @throws {Error} If a file of the database cannot be read or the snapshot cannot be written.
      */
-    async update(collection: string, newData: UpdateData): Promise<any> {
+    async exportSnapshot(snapshotPath: string): Promise<SnapshotManifest> {
         try {
-            const collectionPath = this.#collections.get(collection)
-            if (!collectionPath) throw Error("collection does not exist")
-            if (!newData._id) throw Error("missing required _id parameter")
+            const snapshot = new Snapshot(
+                this.#rootDir,
+                [DirfileDB.LOCK_DIRNAME, Migrator.BACKUP_DIRNAME, Verifier.QUARANTINE_DIRNAME]
+            )
+
+            return await this.#withWriteBarrier(() => snapshot.write(snapshotPath, {
+                packageVersion: this.#metadata.version,
+                databaseId: this.#metadata._id,
+                collections: Object.fromEntries(Array.from(
+                    this.#collectionMetadata,
+                    ([name, metadata]) => [name, metadata.documentCount]
+                ))
+            }))
+        } catch (error) {
+            console.error("failed to export snapshot: ", error)
+            throw error
+        }
+    }
+
+    /**
+     * @description Restores a snapshot written by `exportSnapshot` into a new root directory and
+     * returns an instance of the restored database. The snapshot checksum is verified before
+     * anything is written, and the database is migrated on load like any other database written by
+     * a different package version.
+     *
+     * @param {string} snapshotPath - The path of the snapshot file.
+     * @param {string} rootDir - The directory to restore into, which must not exist or be empty.
+     * @param {Omit<DirfileDBConfig, "rootDir">} [config] - The configuration of the returned
+     * instance.
+     *
+     * @returns {Promise<DirfileDB>} The restored database.
+     * @throws {Error} If the snapshot is invalid or corrupted, or the directory is not empty.
+     */
+    static async restoreSnapshot(
+        snapshotPath: string,
+        rootDir: string,
+        config?: Omit<DirfileDBConfig, "rootDir">
+    ): Promise<DirfileDB> {
+        try {
+            const manifest = await Snapshot.restore(snapshotPath, rootDir)
+
+            // collection paths recorded in the metadata point into the exported root directory
+            const metadataPath = join(rootDir, DirfileDB.METADATA_FILENAME)
+            const metadata: DirfileDBMetadataFile = JSON.parse(await readFile(metadataPath, "utf8"))
+            metadata.collections = metadata.collections.map(([name]) => [name, join(rootDir, name)])
+            await writeFileAtomic(metadataPath, JSON.stringify(metadata, undefinedReplacer, 2))
 
-            const filePath = join(collectionPath.toString(), `${newData._id}.json`)
+            console.log(`restored snapshot of database ${manifest.databaseId} to:`, rootDir)
+
+            return new DirfileDB({ ...config, rootDir })
+        } catch (error) {
+            console.error("failed to restore snapshot: ", error)
+            throw error
+        }
+    }
 
-            const documentFile = await readFile(filePath, { encoding: "utf8" })
-            const documentJSON = JSON.parse(documentFile)
+    /**
+     * @description Exports every document of a collection, ordered by `_id`, to an NDJSON file
+     * (one JSON document per line) or a CSV file (one column per field, nested fields as
+     * dot-paths, non-string values JSON encoded).
+     *
+     * @param {string} collection - The name of the collection to export.
+     * @param {string} filePath - The path of the file, replaced if it exists.
+     * @param {CollectionExportOptions} [options] - The format of the file.
+     *
+     * @returns {Promise<number>} The number of documents exported.
+     * @throws {Error} If the collection does not exist, the format cannot be inferred or the file
+     * cannot be written.
+     */
+    async exportCollection(
+        collection: string,
+        filePath: string,
+        options?: CollectionExportOptions
+    ): Promise<number> {
+        try {
+            if (!this.#collections.has(collection)) throw Error("collection does not exist")
 
-            const updatedDocument = Object.assign(documentJSON, newData)
+            const format = options?.format ?? formatFromPath(filePath)
+            const documents = await this.findAll(collection, undefined, { sort: { _id: 1 } })
 
-            await writeFile(
+            await writeFileAtomic(
                 filePath,
-                JSON.stringify(updatedDocument, undefinedReplacer, 2),
-                { encoding: "utf8" }
+                format === "csv" ? toCsv(documents) : toNdjson(documents)
             )
 
-            return updatedDocument
+            return documents.length
         } catch (error) {
-            console.error(`failed to update data in ${collection}: `, error)
+            console.error(`failed to export ${collection}: `, error)
             throw error
         }
     }
 
     /**
-     * @description Deletes the first document from the specified collection that matches the
-     * provided query. If no document matches the query, no action is taken.
-     * This function is a wrapper for the private `#performDelete` function, passing the query
-     * and collection to it.
+     * @description Imports the documents of an NDJSON or CSV file, see `exportCollection`, into a
+     * collection with `createMany`. Documents without an `_id` get a generated one.
      *
-     * @param {string} collection - The name of the collection to delete the document from.
-     * @param {any} query - The query containing key-value pairs to match the document to delete.
+     * @param {string} collection - The name of the collection to import into.
+     * @param {string} filePath - The path of the file.
+     * @param {CollectionImportOptions} [options] - The format of the file and ordered or
+     * unordered error handling.
      *
-     * @returns {Promise<void>} A promise that resolves when the document is successfully deleted.
+     * @returns {Promise<CreateManyResult>} The inserted ids and the outcome of each document.
+     * @throws {Error} If the collection does not exist, the format cannot be inferred or the file
+     * cannot be parsed.
      */
-    async delete(collection: string, query: any): Promise<void> {
+    async importCollection(
+        collection: string,
+        filePath: string,
+        options?: CollectionImportOptions
+    ): Promise<CreateManyResult> {
         try {
-            await this.#performDelete(collection, query)
-        } catch(error) {
-            console.error(`failed to delete document from ${collection}: `, error)
+            if (!this.#collections.has(collection)) throw Error("collection does not exist")
+
+            const format = options?.format ?? formatFromPath(filePath)
+            const text = await readFile(filePath, "utf8")
+            const documents = format === "csv" ? fromCsv(text) : fromNdjson(text)
+
+            return await this.createMany(collection, documents, options)
+        } catch (error) {
+            console.error(`failed to import ${collection}: `, error)
             throw error
         }
     }
 
     /**
-     * @description Deletes all documents from the specified collection that match the provided
-     * query. If no documents match the query, no action is taken. This function is a wrapper
-     * for the private `#performDelete` function, passing the query and collection to it with the
-     * `all` flag set to `true` to delete all matching documents.
-     * @param {string} collection - The name of the collection to delete documents from.
-     * @param {any} query - The query containing key-value pairs to match the documents to delete.
+     * ------ Integrity Functions ------
+     */
+
+    /**
+     * @description Checks the files of the database as written on disk and reports the problems
+     * left by hand edits: unparsable documents, documents whose `_id` does not match their
+     * `<_id>.json` file name, documents duplicating the `_id` of another, stray files, and
+     * collections listed in the metadata without a directory (or the other way around).
      *
-     * @returns {Promise<void>} A promise that resolves when the documents are successfully deleted.
+     * @returns {Promise<VerifyReport>} The problems found, see `VerifyIssueType`.
+     * @throws {Error} If the root directory cannot be read.
      */
-    async deleteAll(collection: string, query: any): Promise<void> {
+    async verify(): Promise<VerifyReport> {
         try {
-            await this.#performDelete(collection, query, true)
-        } catch(error) {
-            console.error(`failed to delete document(s) from ${collection}: `, error)
+            return await new Verifier(
+                this.#rootDir,
+                DirfileDB.METADATA_FILENAME,
+                collection => this.#codec(collection)
+            ).verify()
+        } catch (error) {
+            console.error("failed to verify database: ", error)
             throw error
         }
     }
 
     /**
-     * @description Performs the deletion of documents from the specified collection based on the
-     * provided query. If the `all` flag is set to `true`, all matching documents will be deleted.
-     * Otherwise, only the first matching document is deleted.
+     * @description Fixes the problems reported by `verify`. The files at fault are moved into a
+     * timestamped directory under `.dirfile-quarantine` (or deleted with `{ quarantine: false }`),
+     * then the collections are reloaded from the collection directories, the metadata rewritten to
+     * list them and the indexes and statistics of every collection rebuilt. Other writers should
+     * be stopped while repairing.
      *
-     * @param {string} collection - The name of the collection to delete documents from.
-     * @param {any} query - The query containing key-value pairs to match the documents to delete.
-     * @param {boolean} [all=false] - A flag indicating whether to delete all matching documents
+     * @param {RepairOptions} [options] - Quarantine (default) or delete the files at fault.
      *
-     * @returns {Promise<void>} A promise that resolves when the documents are successfully deleted.
+     * @returns {Promise<RepairReport>} The problems fixed and the quarantine directory.
+     * @throws {Error} If a file cannot be moved or the metadata cannot be rewritten.
      */
-    async #performDelete(collection: string, query: any, all: boolean = false): Promise<void> {
-        const collectionPath = this.#collections.get(collection)
-        if (!collectionPath) throw Error("collection does not exist")
+    async repair(options?: RepairOptions): Promise<RepairReport> {
+        try {
+            this.#assertWritable()
 
-        const files = await readdir(collectionPath)
-        console.log("files in collection: ", files)
+            const verifier = new Verifier(
+                this.#rootDir,
+                DirfileDB.METADATA_FILENAME,
+                collection => this.#codec(collection)
+            )
+            const { issues } = await verifier.verify()
+            const quarantineDir = await verifier.setAside(issues, options?.quarantine ?? true)
 
-        for (const file of files) {
-            const filePath = join(collectionPath.toString(), file)
-            const fileContent = await readFile(filePath, { encoding: "utf8" })
-            const document = JSON.parse(fileContent)
-            const matches = Object.keys(query).every(key => document[key] === query[key])
-            if (matches) {
-                await unlink(filePath)
+            // collections are the directories of the root directory, whatever the metadata says
+            this.#collections.clear()
+            this.#indexes.clear()
+            this.#collectionMetadata.clear()
+            this.#initExistingDB()
 
-                if (!all) return
+            await this.#updateMetadata(metadata => {
+                metadata.collections = new Map(this.#collections)
+            })
+            for (const collection of this.#collections.keys()) {
+                this.#rebuildCollectionSync(collection)
             }
+            this.#cache?.clear()
+
+            if (issues.length > 0) console.log("repaired database:", issues)
+
+            return quarantineDir ? { fixed: issues, quarantineDir } : { fixed: issues }
+        } catch (error) {
+            console.error("failed to repair database: ", error)
+            throw error
         }
     }
 
+    /**
+     * ------ Cache Functions ------
+     */
+
+    /**
+     * @description Returns the hit/miss statistics of the document cache.
+     *
+     * @returns {DocumentCacheStats | undefined} The cache statistics, or `undefined` if the cache
+     * is not enabled.
+     */
+    getCacheStats(): DocumentCacheStats | undefined { return this.#cache?.stats() }
+
+    /**
+     * @description Removes every document from the cache, if enabled.
+     */
+    clearCache() { this.#cache?.clear() }
+
     /**
      * ------ Getters/Setters ------
      */
 
     getRootDir() { return this.#rootDir }
     getMetadata() { return this.#metadata }
+    getMigrationReport() { return this.#migrationReport }
     getCollection(name: string) { return this.#collections.get(name) }
 
 }
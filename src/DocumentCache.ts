@@ -0,0 +1,278 @@
+/**
+ * @module DocumentCache
+ * @fileoverview This file contains the types and class definition for the optional in-memory cache
+ * of parsed DirfileDB documents.
+ *
+ * @exports {
+ *     @name CacheEvictionPolicy
+ *     @name DocumentCacheConfig
+ *     @name DocumentCacheStats
+ * }
+ *
+ * @default DocumentCache
+ */
+
+// Cached values are arbitrary JSON documents, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @type CacheEvictionPolicy
+ * @description Which entry is evicted once the cache is full.
+ * - `lru`: the least recently used entry.
+ * - `lfu`: the least frequently used entry, ties are broken by least recent use.
+ */
+export type CacheEvictionPolicy = "lru" | "lfu"
+
+/**
+ * @interface DocumentCacheConfig
+ * @description Configuration options for the document cache.
+ * @property {number} [maxEntries] - Maximum number of cached documents, defaults to 1000 when
+ * `maxBytes` is not set either.
+ * @property {number} [maxBytes] - Maximum total size of the cached documents in bytes.
+ * @property {CacheEvictionPolicy} [eviction] - Eviction policy, defaults to `lru`.
+ * @property {number} [ttl] - Time in milliseconds after which a cached document is discarded.
+ */
+export interface DocumentCacheConfig {
+    maxEntries?: number
+    maxBytes?: number
+    eviction?: CacheEvictionPolicy
+    ttl?: number
+}
+
+/**
+ * @interface DocumentCacheStats
+ * @description Counters describing the effectiveness of the cache.
+ * @property {number} hits - Number of reads answered by the cache.
+ * @property {number} misses - Number of reads that had to go to disk.
+ * @property {number} evictions - Number of entries evicted to respect the size limits.
+ * @property {number} expirations - Number of entries discarded because their ttl elapsed.
+ * @property {number} entries - Number of documents currently cached.
+ * @property {number} bytes - Total size of the documents currently cached.
+ * @property {number} hitRate - Ratio of hits over all reads, `0` when nothing was read yet.
+ */
+export interface DocumentCacheStats {
+    hits: number
+    misses: number
+    evictions: number
+    expirations: number
+    entries: number
+    bytes: number
+    hitRate: number
+}
+
+/**
+ * @interface CacheEntry
+ * @description A single cached document and its bookkeeping values.
+ */
+interface CacheEntry {
+    value: any
+    bytes: number
+    frequency: number
+    lastAccess: number
+    expiresAt?: number
+}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class DocumentCache
+ * @classdesc
+ * A bounded in-memory cache of parsed documents keyed by their file path. Cached values are cloned
+ * on the way in and out so callers can never mutate the cached copy.
+ */
+class DocumentCache {
+
+    static DEFAULT_MAX_ENTRIES = 1000
+
+    #maxEntries: number
+    #maxBytes: number
+    #eviction: CacheEvictionPolicy
+    #ttl?: number
+
+    // cached documents, Map<file path, entry>, insertion order is kept as recency order
+    #entries: Map<string, CacheEntry>
+    // running total of the cached document sizes
+    #bytes: number
+    // monotonic counter used to order accesses
+    #clock: number
+    #hits: number
+    #misses: number
+    #evictions: number
+    #expirations: number
+
+    /**
+     * @constructor
+     * @param {DocumentCacheConfig} config
+     */
+    constructor(config: DocumentCacheConfig) {
+        const hasLimit = config.maxEntries !== undefined || config.maxBytes !== undefined
+
+        this.#maxEntries = config.maxEntries ??
+            (hasLimit ? Infinity : DocumentCache.DEFAULT_MAX_ENTRIES)
+        this.#maxBytes = config.maxBytes ?? Infinity
+        this.#eviction = config.eviction ?? "lru"
+        this.#ttl = config.ttl
+
+        this.#entries = new Map<string, CacheEntry>()
+        this.#bytes = 0
+        this.#clock = 0
+        this.#hits = 0
+        this.#misses = 0
+        this.#evictions = 0
+        this.#expirations = 0
+    }
+
+    /**
+     * @description Returns a copy of a cached document, counting the read as a hit or a miss.
+     *
+     * @param {string} key - The document file path.
+     * @returns {any | undefined} The cached document, or `undefined` on a miss.
+     */
+    get(key: string): any | undefined {
+        const entry = this.#entries.get(key)
+
+        if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.delete(key)
+            this.#expirations++
+        } else if (entry) {
+            this.#hits++
+            entry.frequency++
+            entry.lastAccess = ++this.#clock
+
+            // re-insert to move the entry to the most recently used position
+            this.#entries.delete(key)
+            this.#entries.set(key, entry)
+
+            return structuredClone(entry.value)
+        }
+
+        this.#misses++
+        return undefined
+    }
+
+    /**
+     * @description Caches a copy of a document, evicting entries until the limits are respected.
+     * Documents larger than `maxBytes` are not cached.
+     *
+     * @param {string} key - The document file path.
+     * @param {any} value - The parsed document.
+     * @param {number} bytes - The size of the document on disk.
+     */
+    set(key: string, value: any, bytes: number) {
+        this.delete(key)
+
+        if (bytes > this.#maxBytes || this.#maxEntries <= 0) return
+
+        this.#entries.set(key, {
+            value: structuredClone(value),
+            bytes,
+            frequency: 1,
+            lastAccess: ++this.#clock,
+            expiresAt: this.#ttl !== undefined ? Date.now() + this.#ttl : undefined
+        })
+        this.#bytes += bytes
+
+        while (this.#entries.size > this.#maxEntries || this.#bytes > this.#maxBytes) {
+            if (!this.#evict(key)) break
+        }
+    }
+
+    /**
+     * @description Removes a document from the cache.
+     *
+     * @param {string} key - The document file path.
+     */
+    delete(key: string) {
+        const entry = this.#entries.get(key)
+        if (!entry) return
+
+        this.#bytes -= entry.bytes
+        this.#entries.delete(key)
+    }
+
+    /**
+     * @description Removes every document whose key starts with the given prefix, used to drop
+     * all documents of a collection at once.
+     *
+     * @param {string} prefix - The key prefix to match.
+     */
+    deletePrefix(prefix: string) {
+        for (const key of Array.from(this.#entries.keys())) {
+            if (key.startsWith(prefix)) this.delete(key)
+        }
+    }
+
+    /**
+     * @description Removes every cached document. Statistics are kept.
+     */
+    clear() {
+        this.#entries.clear()
+        this.#bytes = 0
+    }
+
+    /**
+     * @description Returns the current cache statistics.
+     *
+     * @returns {DocumentCacheStats} A snapshot of the cache counters.
+     */
+    stats(): DocumentCacheStats {
+        const reads = this.#hits + this.#misses
+
+        return {
+            hits: this.#hits,
+            misses: this.#misses,
+            evictions: this.#evictions,
+            expirations: this.#expirations,
+            entries: this.#entries.size,
+            bytes: this.#bytes,
+            hitRate: reads === 0 ? 0 : this.#hits / reads
+        }
+    }
+
+    /**
+     * @private
+     * @description Evicts one entry according to the eviction policy, never evicting the entry
+     * that was just inserted unless it is the only one left.
+     *
+     * @returns {boolean} Whether an entry was evicted.
+     */
+    #evict(insertedKey: string): boolean {
+        let victim: string | undefined
+        let victimEntry: CacheEntry | undefined
+
+        for (const [key, entry] of this.#entries) {
+            if (key === insertedKey && this.#entries.size > 1) continue
+
+            // Map iteration is least recently used first, so the first candidate wins for lru
+            if (this.#eviction === "lru") {
+                victim = key
+                break
+            }
+
+            const lessUsed = !victimEntry ||
+                entry.frequency < victimEntry.frequency ||
+                (entry.frequency === victimEntry.frequency &&
+                    entry.lastAccess < victimEntry.lastAccess)
+
+            if (lessUsed) {
+                victim = key
+                victimEntry = entry
+            }
+        }
+
+        if (victim === undefined) return false
+
+        this.delete(victim)
+        this.#evictions++
+
+        return true
+    }
+}
+
+export default DocumentCache
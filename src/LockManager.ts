@@ -0,0 +1,662 @@
+/**
+ * @module LockManager
+ * @fileoverview This file contains the types and class definitions for the lock file based
+ * locking used to coordinate several processes sharing a DirfileDB root directory.
+ *
+ * @exports {
+ *     @name LockConfig
+ *     @name LockHolder
+ *     @name LockError
+ * }
+ *
+ * @default LockManager
+ */
+
+/**
+ * ------ NodeJs  Dependencies ------
+ */
+
+import {
+    linkSync,
+    mkdirSync,
+    readFileSync,
+    readdirSync,
+    renameSync,
+    rmSync,
+    statSync,
+    writeFileSync
+} from "fs"
+import {
+    link,
+    mkdir,
+    readFile,
+    readdir,
+    rename,
+    rm,
+    stat,
+    utimes,
+    writeFile
+} from "fs/promises"
+import { randomUUID } from "crypto"
+import { hostname } from "os"
+import { dirname, join } from "path"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @interface LockConfig
+ * @description Configuration options for cross-process locking.
+ * @property {number} [timeout] - How long to wait for a held lock before failing, in milliseconds.
+ * Defaults to 5000.
+ * @property {number} [staleTimeout] - Time without renewal after which a lock held from another
+ * host, or whose holder cannot be read, is considered abandoned, in milliseconds. Held locks are
+ * renewed every half of it. Defaults to 30000.
+ * @property {number} [retryInterval] - Delay between attempts to take a held lock, in
+ * milliseconds. Defaults to 20.
+ */
+export interface LockConfig {
+    timeout?: number
+    staleTimeout?: number
+    retryInterval?: number
+}
+
+/**
+ * @interface LockHolder
+ * @description Contents of a lock file, identifying the process holding the lock.
+ * @property {number} pid - Process id of the holder.
+ * @property {string} hostname - Host name of the machine the holder runs on.
+ * @property {string} acquiredAt - ISO timestamp of when the lock was taken.
+ * @property {string} token - Unique value used to make sure only the holder releases the lock.
+ */
+export interface LockHolder {
+    pid: number
+    hostname: string
+    acquiredAt: string
+    token: string
+}
+
+/**
+ * ------ Class Definitions ------
+ */
+
+/**
+ * @class LockError
+ * @classdesc Thrown when a lock cannot be taken before the configured timeout.
+ */
+export class LockError extends Error {
+
+    readonly resource: string
+    readonly holder?: LockHolder
+
+    /**
+     * @constructor
+     * @param {string} resource - The resource that could not be locked.
+     * @param {LockHolder} [holder] - The current holder of the lock, if it could be read.
+     */
+    constructor(resource: string, holder?: LockHolder) {
+        const holderDescription = holder
+            ? `process ${holder.pid} on ${holder.hostname} since ${holder.acquiredAt}`
+            : "another writer"
+
+        super(`lock on ${resource} is held by ${holderDescription}`)
+        this.name = "LockError"
+        this.resource = resource
+        this.holder = holder
+    }
+}
+
+/**
+ * @class LockManager
+ * @classdesc
+ * Provides exclusive locks backed by lock files created with the `wx` flag, which fails when the
+ * file already exists on every platform. Locks whose holder process is no longer running on this
+ * host are considered stale and taken over, as are locks held from another host (or left
+ * unreadable by a crash) whose file was not renewed within `staleTimeout`. Holders renew their
+ * lock files by touching them while the lock is held.
+ *
+ * A resource can also be held shared, by any number of holders at once, see `acquireShared`.
+ * Taking its lock then waits until every shared holder released it.
+ *
+ * Resources are `/` separated names (ex: `database` or `users/<_id>`), each mapped to a lock file
+ * within the lock directory.
+ */
+class LockManager {
+
+    static DEFAULT_TIMEOUT = 5000
+    static DEFAULT_STALE_TIMEOUT = 30000
+    static DEFAULT_RETRY_INTERVAL = 20
+
+    #lockDir: string
+    #timeout: number
+    #staleTimeout: number
+    #retryInterval: number
+
+    /**
+     * @constructor
+     * @param {string} lockDir - The directory holding the lock files.
+     * @param {LockConfig} [config]
+     */
+    constructor(lockDir: string, config?: LockConfig) {
+        this.#lockDir = lockDir
+        this.#timeout = config?.timeout ?? LockManager.DEFAULT_TIMEOUT
+        this.#staleTimeout = config?.staleTimeout ?? LockManager.DEFAULT_STALE_TIMEOUT
+        this.#retryInterval = config?.retryInterval ?? LockManager.DEFAULT_RETRY_INTERVAL
+    }
+
+    /**
+     * @description Runs a function while holding the lock on a resource.
+     *
+     * @param {string} resource - The resource to lock.
+     * @param {Function} fn - The function to run.
+     *
+     * @returns {Promise<T>} The value returned by the function.
+     * @throws {LockError} If the lock cannot be taken before the timeout.
+     */
+    async withLock<T>(resource: string, fn: () => Promise<T>): Promise<T> {
+        const release = await this.acquire(resource)
+
+        try {
+            return await fn()
+        } finally {
+            await release()
+        }
+    }
+
+    /**
+     * @description Synchronous version of `withLock`.
+     *
+     * @param {string} resource - The resource to lock.
+     * @param {Function} fn - The function to run.
+     *
+     * @returns {T} The value returned by the function.
+     * @throws {LockError} If the lock cannot be taken before the timeout.
+     */
+    withLockSync<T>(resource: string, fn: () => T): T {
+        const release = this.acquireSync(resource)
+
+        try {
+            return fn()
+        } finally {
+            release()
+        }
+    }
+
+    /**
+     * @description Takes the lock on a resource, waiting for the current holder to release it,
+     * then for its shared holders to release their shared holds.
+     *
+     * @param {string} resource - The resource to lock.
+     *
+     * @returns {Promise<Function>} A function releasing the lock.
+     * @throws {LockError} If the lock cannot be taken, or the resource is still held shared,
+     * before the timeout.
+     */
+    async acquire(resource: string): Promise<() => Promise<void>> {
+        const lockPath = this.#lockPath(resource)
+        const deadline = Date.now() + this.#timeout
+        const holder = this.#newHolder()
+
+        await mkdir(dirname(lockPath), { recursive: true })
+
+        for (;;) {
+            try {
+                await writeFile(lockPath, JSON.stringify(holder), { flag: "wx" })
+                const release = this.#hold(lockPath, () => this.#release(lockPath, holder.token))
+
+                try {
+                    await this.#drainShared(resource, deadline)
+                } catch (error) {
+                    await release()
+                    throw error
+                }
+
+                return release
+            } catch (error) {
+                this.#assertTaken(error)
+            }
+
+            const current = await this.#readHolder(lockPath)
+            const modifiedAt = await stat(lockPath).then(stats => stats.mtimeMs, () => undefined)
+            if (this.#isBreakable(resource, current, modifiedAt, deadline)) {
+                await this.#removeStale(lockPath, current)
+                continue
+            }
+
+            await new Promise(resolve => setTimeout(resolve, this.#retryInterval))
+        }
+    }
+
+    /**
+     * @description Synchronous version of `acquire`, blocking the thread while waiting.
+     *
+     * @param {string} resource - The resource to lock.
+     *
+     * @returns {Function} A function releasing the lock.
+     * @throws {LockError} If the lock cannot be taken before the timeout.
+     */
+    acquireSync(resource: string): () => void {
+        const lockPath = this.#lockPath(resource)
+        const deadline = Date.now() + this.#timeout
+        const holder = this.#newHolder()
+
+        mkdirSync(dirname(lockPath), { recursive: true })
+
+        for (;;) {
+            try {
+                writeFileSync(lockPath, JSON.stringify(holder), { flag: "wx" })
+                const release = this.#hold(
+                    lockPath,
+                    () => this.#releaseSync(lockPath, holder.token)
+                )
+
+                try {
+                    this.#drainSharedSync(resource, deadline)
+                } catch (error) {
+                    release()
+                    throw error
+                }
+
+                return release
+            } catch (error) {
+                this.#assertTaken(error)
+            }
+
+            const current = this.#readHolderSync(lockPath)
+            const modifiedAt = statSync(lockPath, { throwIfNoEntry: false })?.mtimeMs
+            if (this.#isBreakable(resource, current, modifiedAt, deadline)) {
+                this.#removeStaleSync(lockPath, current)
+                continue
+            }
+
+            Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, this.#retryInterval)
+        }
+    }
+
+    /**
+     * @description Takes a shared hold on a resource, held along with any other shared holder.
+     * Shared holds wait while the lock on the resource is held, and taking the lock waits for them
+     * to be released.
+     *
+     * @param {string} resource - The resource to hold shared.
+     *
+     * @returns {Promise<Function>} A function releasing the shared hold.
+     * @throws {LockError} If the lock on the resource is still held after the timeout.
+     */
+    async acquireShared(resource: string): Promise<() => Promise<void>> {
+        const lockPath = this.#lockPath(resource)
+        const deadline = Date.now() + this.#timeout
+        const holder = this.#newHolder()
+        const sharedPath = join(this.#sharedDir(resource), `${holder.token}.lock`)
+
+        await mkdir(dirname(sharedPath), { recursive: true })
+
+        for (;;) {
+            if (!await this.#isHeld(lockPath)) {
+                await writeFile(sharedPath, JSON.stringify(holder))
+
+                // the lock may have been taken before its holder could see this shared hold
+                if (!await this.#isHeld(lockPath)) {
+                    const renewal = this.#renew(sharedPath)
+                    return async () => {
+                        clearInterval(renewal)
+                        await rm(sharedPath, { force: true })
+                    }
+                }
+
+                await rm(sharedPath, { force: true })
+            }
+
+            if (Date.now() >= deadline) {
+                throw new LockError(resource, await this.#readHolder(lockPath))
+            }
+
+            await new Promise(resolve => setTimeout(resolve, this.#retryInterval))
+        }
+    }
+
+    /**
+     * @private
+     * @description Maps a resource name to its path within the lock directory, without extension.
+     */
+    #resourcePath(resource: string): string {
+        const segments = resource.split("/").map(segment => encodeURIComponent(segment))
+        return join(this.#lockDir, ...segments)
+    }
+
+    /**
+     * @private
+     * @description Maps a resource name to its lock file path.
+     */
+    #lockPath(resource: string): string {
+        return `${this.#resourcePath(resource)}.lock`
+    }
+
+    /**
+     * @private
+     * @description Maps a resource name to the directory holding a lock file per shared holder.
+     */
+    #sharedDir(resource: string): string {
+        return `${this.#resourcePath(resource)}.shared`
+    }
+
+    /**
+     * @private
+     * @description Waits until no shared holder holds a resource, removing stale shared holds.
+     *
+     * @throws {LockError} If the resource is still held shared at the deadline.
+     */
+    async #drainShared(resource: string, deadline: number) {
+        const sharedDir = this.#sharedDir(resource)
+
+        for (;;) {
+            const files = await readdir(sharedDir).catch(error => {
+                if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+                throw error
+            })
+
+            let heldBy: string | undefined
+            for (const file of files) {
+                if (await this.#isHeld(join(sharedDir, file))) {
+                    heldBy = join(sharedDir, file)
+                    break
+                }
+            }
+            if (!heldBy) return
+
+            if (Date.now() >= deadline) {
+                throw new LockError(resource, await this.#readHolder(heldBy))
+            }
+
+            await new Promise(resolve => setTimeout(resolve, this.#retryInterval))
+        }
+    }
+
+    /**
+     * @private
+     * @description Synchronous version of `#drainShared`, blocking the thread while waiting.
+     */
+    #drainSharedSync(resource: string, deadline: number) {
+        const sharedDir = this.#sharedDir(resource)
+
+        for (;;) {
+            let files: string[] = []
+            try {
+                files = readdirSync(sharedDir)
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+            }
+
+            const heldBy = files
+                .map(file => join(sharedDir, file))
+                .find(sharedPath => this.#isHeldSync(sharedPath))
+            if (!heldBy) return
+
+            if (Date.now() >= deadline) {
+                throw new LockError(resource, this.#readHolderSync(heldBy))
+            }
+
+            Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, this.#retryInterval)
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns whether a lock file is held, removing it when it is stale.
+     */
+    async #isHeld(lockPath: string): Promise<boolean> {
+        const holder = await this.#readHolder(lockPath)
+        const modifiedAt = await stat(lockPath).then(stats => stats.mtimeMs, () => undefined)
+        if (modifiedAt === undefined) return false
+
+        if (this.#isStale(holder, modifiedAt)) {
+            await this.#removeStale(lockPath, holder)
+            return false
+        }
+
+        return true
+    }
+
+    /**
+     * @private
+     * @description Synchronous version of `#isHeld`.
+     */
+    #isHeldSync(lockPath: string): boolean {
+        const holder = this.#readHolderSync(lockPath)
+        const modifiedAt = statSync(lockPath, { throwIfNoEntry: false })?.mtimeMs
+        if (modifiedAt === undefined) return false
+
+        if (this.#isStale(holder, modifiedAt)) {
+            this.#removeStaleSync(lockPath, holder)
+            return false
+        }
+
+        return true
+    }
+
+    /**
+     * @private
+     * @description Describes the current process as a lock holder.
+     */
+    #newHolder(): LockHolder {
+        return {
+            pid: process.pid,
+            hostname: hostname(),
+            acquiredAt: new Date().toISOString(),
+            token: randomUUID()
+        }
+    }
+
+    /**
+     * @private
+     * @description Keeps a held lock from going stale by touching its file every half of the
+     * stale timeout, until the returned timer is cleared.
+     */
+    #renew(lockPath: string): NodeJS.Timeout {
+        const renewal = setInterval(() => {
+            const now = new Date()
+            utimes(lockPath, now, now).catch(() => undefined)
+        }, this.#staleTimeout / 2)
+        renewal.unref()
+
+        return renewal
+    }
+
+    /**
+     * @private
+     * @description Returns whether a lock was abandoned. The holder process is checked first when
+     * it runs on this host, a live holder keeps its lock however long it holds it. Otherwise the
+     * lock is stale once its file was not renewed within the stale timeout, which covers holders
+     * on other hosts and lock files left empty by a crash while being written. Removed lock files
+     * are not stale.
+     */
+    #isStale(holder: LockHolder | undefined, modifiedAt: number | undefined): boolean {
+        if (modifiedAt === undefined) return false
+
+        if (holder?.hostname === hostname()) {
+            try {
+                process.kill(holder.pid, 0)
+                return false
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === "ESRCH") return true
+            }
+        }
+
+        return Date.now() - modifiedAt > this.#staleTimeout
+    }
+
+    /**
+     * @private
+     * @description Starts renewing a lock file created by `acquire` or `acquireSync`, and returns
+     * the function releasing it, which stops the renewal before running `release`.
+     */
+    #hold<R>(lockPath: string, release: () => R): () => R {
+        const renewal = this.#renew(lockPath)
+
+        return () => {
+            clearInterval(renewal)
+            return release()
+        }
+    }
+
+    /**
+     * @private
+     * @description Rethrows the errors of an attempt to create a lock file, shared by `acquire`
+     * and `acquireSync`, except the one telling that the lock is taken.
+     *
+     * @throws {LockError} If the resource was still held shared at the deadline.
+     * @throws {Error} If the lock file could not be created for another reason.
+     */
+    #assertTaken(error: unknown) {
+        if (error instanceof LockError) throw error
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error
+    }
+
+    /**
+     * @private
+     * @description Decides the next step of `acquire` and `acquireSync` when the lock is taken:
+     * whether its lock file is stale and is removed before trying again, else the caller waits.
+     *
+     * @throws {LockError} If the lock is still held at the deadline.
+     */
+    #isBreakable(
+        resource: string,
+        holder: LockHolder | undefined,
+        modifiedAt: number | undefined,
+        deadline: number
+    ): boolean {
+        if (this.#isStale(holder, modifiedAt)) return true
+        if (Date.now() >= deadline) throw new LockError(resource, holder)
+
+        return false
+    }
+
+    /**
+     * @private
+     * @description Reads the holder of a lock file, `undefined` if it cannot be read or parsed.
+     */
+    async #readHolder(lockPath: string): Promise<LockHolder | undefined> {
+        try {
+            return JSON.parse(await readFile(lockPath, "utf8")) as LockHolder
+        } catch (error) {
+            return undefined
+        }
+    }
+
+    /**
+     * @private
+     * @description Synchronous version of `#readHolder`.
+     */
+    #readHolderSync(lockPath: string): LockHolder | undefined {
+        try {
+            return JSON.parse(readFileSync(lockPath, "utf8")) as LockHolder
+        } catch (error) {
+            return undefined
+        }
+    }
+
+    /**
+     * @private
+     * @description Removes a stale lock file, unless it was taken over by someone else meanwhile.
+     * The file is claimed first by renaming it to a name unique to this call, which only one of
+     * the waiters breaking the same stale lock can do. The claimed file is then checked again: a
+     * lock taken over meanwhile (or an unreadable lock file no longer stale) is linked back in
+     * place, unless yet another lock was taken since, and only the stale lock is removed.
+     */
+    async #removeStale(lockPath: string, stale: LockHolder | undefined) {
+        const claimedPath = this.#claimedPath(lockPath)
+        try {
+            await rename(lockPath, claimedPath)
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return
+            throw error
+        }
+
+        const claimed = await this.#readHolder(claimedPath)
+        const modifiedAt = await stat(claimedPath).then(stats => stats.mtimeMs, () => undefined)
+        if (this.#isTakenOver(stale, claimed, modifiedAt)) {
+            await link(claimedPath, lockPath).catch(() => undefined)
+        }
+
+        await rm(claimedPath, { force: true })
+    }
+
+    /**
+     * @private
+     * @description Synchronous version of `#removeStale`.
+     */
+    #removeStaleSync(lockPath: string, stale: LockHolder | undefined) {
+        const claimedPath = this.#claimedPath(lockPath)
+        try {
+            renameSync(lockPath, claimedPath)
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return
+            throw error
+        }
+
+        const claimed = this.#readHolderSync(claimedPath)
+        const modifiedAt = statSync(claimedPath, { throwIfNoEntry: false })?.mtimeMs
+        if (this.#isTakenOver(stale, claimed, modifiedAt)) {
+            try {
+                linkSync(claimedPath, lockPath)
+            } catch (error) {
+                // another lock was taken since
+            }
+        }
+
+        rmSync(claimedPath, { force: true })
+    }
+
+    /**
+     * @private
+     * @description Returns whether a lock file claimed by `#removeStale` or `#removeStaleSync` is
+     * no longer the stale lock it was claimed as: another lock taken over meanwhile, or an
+     * unreadable lock file renewed since.
+     */
+    #isTakenOver(
+        stale: LockHolder | undefined,
+        claimed: LockHolder | undefined,
+        modifiedAt: number | undefined
+    ): boolean {
+        return claimed?.token !== stale?.token || !this.#isStale(claimed, modifiedAt)
+    }
+
+    /**
+     * @private
+     * @description Returns a name unique to this call to claim a stale lock file under, see
+     * `#removeStale`.
+     */
+    #claimedPath(lockPath: string): string {
+        return `${lockPath}.${randomUUID()}.stale`
+    }
+
+    /**
+     * @private
+     * @description Removes a lock file if it is still held with the given token.
+     */
+    async #release(lockPath: string, token: string) {
+        if (this.#isHolder(await this.#readHolder(lockPath), token)) {
+            await rm(lockPath, { force: true })
+        }
+    }
+
+    /**
+     * @private
+     * @description Synchronous version of `#release`.
+     */
+    #releaseSync(lockPath: string, token: string) {
+        if (this.#isHolder(this.#readHolderSync(lockPath), token)) rmSync(lockPath, { force: true })
+    }
+
+    /**
+     * @private
+     * @description Returns whether the holder read from a lock file took it with the given token,
+     * the check `#release` and `#releaseSync` make before removing the file.
+     */
+    #isHolder(holder: LockHolder | undefined, token: string): boolean {
+        return holder !== undefined && holder.token === token
+    }
+}
+
+export default LockManager
@@ -0,0 +1,405 @@
+/**
+ * @module Migrator
+ * @fileoverview This file contains the types and class definition for the migration steps run by
+ * DirfileDB when a database was written by a different package version.
+ *
+ * @exports {
+ *     @name MigrationStep
+ *     @name MigrationConfig
+ *     @name MigrationRecord
+ *     @name MigrationReport
+ * }
+ *
+ * @default Migrator
+ */
+
+// Migrations transform arbitrary JSON documents, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * ------ NodeJs  Dependencies ------
+ */
+
+import { PathLike, cpSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync } from "fs"
+import { join, relative } from "path"
+
+/**
+ * ------ Local Dependencies ------
+ */
+
+import {
+    commitStagedFileSync,
+    deepEqual,
+    listDocumentFilesSync,
+    stageFileSync,
+    undefinedReplacer,
+    writeFileAtomicSync
+} from "~/util/index.js"
+import Cipher, { FileCodec } from "./Cipher.js"
+import type { DirfileDBMetadataFile } from "./DirfileDB.js"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @interface MigrationStep
+ * @description A registered migration from one package version to another.
+ * @property {string} from - The stored version the step applies to.
+ * @property {string} to - The version the database is at after the step.
+ * @property {string} [description] - A description recorded in the migration history.
+ * @property {Function} [metadata] - Transforms the database metadata, returning the new metadata
+ * or mutating it in place.
+ * @property {Function} [document] - Transforms a document of a collection, returning the new
+ * document or mutating it in place.
+ */
+export interface MigrationStep {
+    from: string
+    to: string
+    description?: string
+    metadata?: (metadata: DirfileDBMetadataFile) => DirfileDBMetadataFile | void
+    document?: (document: any, collection: string) => any
+}
+
+/**
+ * @interface MigrationConfig
+ * @description Configuration of the migrations run by `init()` on a version mismatch.
+ * @property {MigrationStep[]} steps - The registered migration steps, in any order.
+ * @property {boolean} [dryRun] - Runs the transforms in memory and reports the result without
+ * writing anything, the database instance is then read-only. Defaults to `false`.
+ * @property {boolean} [backup] - Copies the database before migrating it. Defaults to `true`.
+ */
+export interface MigrationConfig {
+    steps: MigrationStep[]
+    dryRun?: boolean
+    backup?: boolean
+}
+
+/**
+ * @interface MigrationRecord
+ * @description An applied migration step, recorded in the database metadata history.
+ * @property {string} from - The version before the step.
+ * @property {string} to - The version after the step.
+ * @property {string} [description] - The description of the step.
+ * @property {string} appliedAt - ISO timestamp of the migration.
+ * @property {number} documentsChanged - Number of documents the step changed.
+ */
+export interface MigrationRecord {
+    from: string
+    to: string
+    description?: string
+    appliedAt: string
+    documentsChanged: number
+}
+
+/**
+ * @interface MigrationReport
+ * @description The outcome of migrating a database.
+ * @property {string} from - The stored version before migrating.
+ * @property {string} to - The version after migrating.
+ * @property {boolean} dryRun - Whether nothing was written.
+ * @property {MigrationRecord[]} steps - The steps run, in order.
+ * @property {string} [backupDir] - The directory holding the copy taken before migrating.
+ */
+export interface MigrationReport {
+    from: string
+    to: string
+    dryRun: boolean
+    steps: MigrationRecord[]
+    backupDir?: string
+}
+
+/**
+ * @type DocumentEncoding
+ * @description How the document files of a collection are laid out, read and written.
+ * @property {FileCodec} codec - Decodes and encodes the file contents.
+ * @property {number | undefined} indent - The indentation of the JSON text, `undefined` for
+ * compact JSON.
+ * @property {number} shardDepth - The number of shard directory levels, `0` for a flat
+ * collection.
+ */
+type DocumentEncoding = {
+    codec: FileCodec
+    indent: number | undefined
+    shardDepth: number
+}
+
+/**
+ * @type MigrationJournal
+ * @description File-based format of the migration journal, written under the root directory
+ * before the first staged document replaces its stored document.
+ * @property {DirfileDBMetadataFile} metadata - The migrated metadata.
+ * @property {[string, string][]} staged - The staged files and the documents they replace, as
+ * paths relative to the root directory.
+ */
+type MigrationJournal = {
+    metadata: DirfileDBMetadataFile
+    staged: [string, string][]
+}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class Migrator
+ * @classdesc
+ * Chains the registered migration steps from the stored version to the package version and applies
+ * them to the database metadata and to every document. Each document is read once, transformed by
+ * every step in order and staged once. The staged documents replace the stored ones only after
+ * every document and the metadata were migrated, then the caller writes the returned metadata.
+ * A journal listing the staged documents and the migrated metadata is written before the first
+ * document is replaced, so that a migration interrupted by a crash is finished by `recoverSync`
+ * rather than run again over migrated documents.
+ */
+class Migrator {
+
+    // name of the directory holding backups within the root directory
+    static BACKUP_DIRNAME = ".dirfile-backups"
+    // name of the journal of the migration being committed within the root directory
+    static JOURNAL_FILENAME = ".dirfile-migration.json"
+
+    #rootDir: string
+    #steps: MigrationStep[]
+    // names of the internal entries of the root directory left out of backups
+    #unsaved: string[]
+    // reads and writes the document files of a collection
+    #encoding: (collection: string) => DocumentEncoding
+
+    /**
+     * @constructor
+     * @param {string} rootDir - The root directory of the database.
+     * @param {MigrationStep[]} steps - The registered migration steps.
+     * @param {string[]} [unsaved] - Internal entries of the root directory left out of backups.
+     * @param {Function} [encoding] - Returns the encoding of the document files of a collection,
+     * flat plain JSON indented by 2 by default.
+     */
+    constructor(
+        rootDir: string,
+        steps: MigrationStep[],
+        unsaved: string[] = [],
+        encoding: (collection: string) => DocumentEncoding = () => ({
+            codec: Cipher.PLAINTEXT,
+            indent: 2,
+            shardDepth: 0
+        })
+    ) {
+        this.#rootDir = rootDir
+        this.#steps = steps
+        this.#unsaved = [Migrator.BACKUP_DIRNAME, ...unsaved]
+        this.#encoding = encoding
+    }
+
+    /**
+     * @description Returns the steps leading from one version to another, in order.
+     *
+     * @param {string} from - The stored version.
+     * @param {string} to - The target version.
+     *
+     * @returns {MigrationStep[]} The steps to run.
+     * @throws {Error} If no chain of steps leads from `from` to `to`.
+     */
+    plan(from: string, to: string): MigrationStep[] {
+        const plan: MigrationStep[] = []
+        const visited = new Set<string>([from])
+        let version = from
+
+        while (version !== to) {
+            const step = this.#steps.find(candidate => candidate.from === version)
+            if (!step || visited.has(step.to)) {
+                throw Error(`no migration path from version ${from} to ${to}`)
+            }
+
+            plan.push(step)
+            visited.add(step.to)
+            version = step.to
+        }
+
+        return plan
+    }
+
+    /**
+     * @description Migrates the documents of every collection and returns the migrated metadata,
+     * with its version and migration history updated. Documents are only replaced once every step
+     * succeeded, a failing step leaves the database as it was. The migration journal is left in
+     * place, the caller removes it with `removeJournal` once the returned metadata is written.
+     *
+     * @param {DirfileDBMetadataFile} metadata - The stored database metadata.
+     * @param {Map<string, PathLike>} collections - The collections to migrate, by name.
+     * @param {string} to - The target version.
+     * @param {Omit<MigrationConfig, "steps">} [options] - Dry-run and backup options.
+     *
+     * @returns {object} The migrated metadata and the migration report.
+     * @throws {Error} If no chain of steps leads to `to`, or a transform or write fails.
+     */
+    migrate(
+        metadata: DirfileDBMetadataFile,
+        collections: Map<string, PathLike>,
+        to: string,
+        options?: Omit<MigrationConfig, "steps">
+    ): { metadata: DirfileDBMetadataFile, report: MigrationReport } {
+        const plan = this.plan(metadata.version, to)
+        const dryRun = options?.dryRun ?? false
+        const appliedAt = new Date().toISOString()
+        const records: MigrationRecord[] = plan.map(step => ({
+            from: step.from,
+            to: step.to,
+            description: step.description,
+            appliedAt,
+            documentsChanged: 0
+        }))
+        const report: MigrationReport = { from: metadata.version, to, dryRun, steps: records }
+
+        if (!dryRun && (options?.backup ?? true)) {
+            report.backupDir = this.backup(metadata.version, appliedAt)
+        }
+
+        // staged files and the documents they replace, [staged path, document path][]
+        const staged: [string, string][] = []
+        let migrated: DirfileDBMetadataFile = structuredClone(metadata)
+
+        try {
+            for (const [collection, collectionPath] of collections) {
+                this.#migrateCollection(collection, collectionPath, plan, records, dryRun, staged)
+            }
+
+            for (const step of plan) {
+                migrated = step.metadata?.(migrated) ?? migrated
+                migrated.version = step.to
+            }
+        } catch (error) {
+            for (const [stagedPath] of staged) rmSync(stagedPath, { force: true })
+            throw error
+        }
+
+        migrated.migrations = [...(metadata.migrations ?? []), ...records]
+
+        if (!dryRun) {
+            const journal: MigrationJournal = {
+                metadata: migrated,
+                staged: staged.map(([stagedPath, filePath]) => [
+                    relative(this.#rootDir, stagedPath),
+                    relative(this.#rootDir, filePath)
+                ])
+            }
+            writeFileAtomicSync(this.#journalPath(), JSON.stringify(journal, undefinedReplacer))
+
+            for (const [stagedPath, filePath] of staged) commitStagedFileSync(stagedPath, filePath)
+        }
+
+        return { metadata: migrated, report }
+    }
+
+    /**
+     * @description Finishes a migration interrupted by a crash while its staged documents were
+     * replacing the stored ones: the staged documents left are committed and the migrated metadata
+     * is returned, to be written by the caller before it calls `removeJournal`.
+     *
+     * @returns {DirfileDBMetadataFile | undefined} The migrated metadata, `undefined` if no
+     * migration was interrupted.
+     * @throws {Error} If the journal cannot be read or a staged document cannot be committed.
+     */
+    recoverSync(): DirfileDBMetadataFile | undefined {
+        if (!existsSync(this.#journalPath())) return undefined
+
+        const journal = JSON.parse(readFileSync(this.#journalPath(), "utf8")) as MigrationJournal
+
+        for (const [stagedPath, filePath] of journal.staged) {
+            // documents committed before the crash no longer have a staged file
+            if (existsSync(join(this.#rootDir, stagedPath))) {
+                commitStagedFileSync(
+                    join(this.#rootDir, stagedPath),
+                    join(this.#rootDir, filePath)
+                )
+            }
+        }
+
+        return journal.metadata
+    }
+
+    /**
+     * @description Removes the migration journal, once the migrated metadata is written.
+     */
+    removeJournal() {
+        rmSync(this.#journalPath(), { force: true })
+    }
+
+    /**
+     * @private
+     * @description Returns the path of the migration journal.
+     */
+    #journalPath(): string {
+        return join(this.#rootDir, Migrator.JOURNAL_FILENAME)
+    }
+
+    /**
+     * @private
+     * @description Runs every step over each document of a collection, staging the documents a
+     * step changed unless dry-running.
+     */
+    #migrateCollection(
+        collection: string,
+        collectionPath: PathLike,
+        plan: MigrationStep[],
+        records: MigrationRecord[],
+        dryRun: boolean,
+        staged: [string, string][]
+    ) {
+        if (!plan.some(step => step.document)) return
+
+        const { codec, indent, shardDepth } = this.#encoding(collection)
+
+        for (const file of listDocumentFilesSync(collectionPath.toString(), shardDepth)) {
+            const filePath = join(collectionPath.toString(), file)
+            const original = JSON.parse(codec.decode(readFileSync(filePath)))
+            let current = original
+
+            plan.forEach((step, index) => {
+                if (!step.document) return
+
+                // documents are compared as they would be stored, undefined values become null
+                const document = structuredClone(current)
+                const next = JSON.parse(JSON.stringify(
+                    step.document(document, collection) ?? document,
+                    undefinedReplacer
+                ))
+
+                if (!deepEqual(next, current)) records[index].documentsChanged++
+                current = next
+            })
+
+            // documents no step changed are left as stored, whatever their layout
+            if (!dryRun && !deepEqual(current, original)) {
+                const text = JSON.stringify(current, undefinedReplacer, indent)
+                staged.push([stageFileSync(filePath, codec.encode(text)), filePath])
+            }
+        }
+    }
+
+    /**
+     * @description Copies the database, except earlier backups and the other unsaved internal
+     * entries, into the backup directory.
+     *
+     * @param {string} version - The stored version, recorded in the backup directory name.
+     * @param {string} [takenAt] - ISO timestamp of the backup, now by default.
+     *
+     * @returns {string} The path of the backup.
+     */
+    backup(version: string, takenAt: string = new Date().toISOString()): string {
+        const backupRoot = join(this.#rootDir, Migrator.BACKUP_DIRNAME)
+        const backupDir = join(backupRoot, `${takenAt.replace(/[:.]/g, "-")}-v${version}`)
+
+        mkdirSync(backupDir, { recursive: true })
+
+        // entries are copied one by one, a directory cannot be copied into itself
+        for (const entry of readdirSync(this.#rootDir)) {
+            if (this.#unsaved.includes(entry)) continue
+
+            cpSync(join(this.#rootDir, entry), join(backupDir, entry), { recursive: true })
+        }
+
+        return backupDir
+    }
+}
+
+export default Migrator
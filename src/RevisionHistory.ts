@@ -0,0 +1,186 @@
+/**
+ * @module RevisionHistory
+ * @fileoverview This file contains the types, error and class definitions for document revisions:
+ * the `_rev` field maintained on every write and the previous revisions kept on disk.
+ *
+ * @exports {
+ *     @name RevisionOptions
+ *     @name ConflictError
+ * }
+ *
+ * @default RevisionHistory
+ */
+
+// Revisions hold arbitrary JSON documents, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * ------ NodeJs  Dependencies ------
+ */
+
+import { PathLike } from "fs"
+import { mkdir, readFile, rm } from "fs/promises"
+import { createHash } from "crypto"
+import { join } from "path"
+
+/**
+ * ------ Local Dependencies ------
+ */
+
+import { undefinedReplacer, writeFileAtomic } from "~/util/index.js"
+import Cipher, { FileCodec } from "./Cipher.js"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @interface RevisionOptions
+ * @description Revision settings of a collection. Documents of a collection with revisions get a
+ * `_rev` field, replaced on every write.
+ * @property {number} [history] - Number of previous revisions of each document kept on disk,
+ * defaults to `0`.
+ */
+export interface RevisionOptions {
+    history?: number
+}
+
+/**
+ * @class ConflictError
+ * @classdesc Thrown when an update carries a `_rev` that is no longer the revision on disk,
+ * meaning the document was changed since the caller read it. Transactions also throw it for
+ * documents changed since they were read, in collections without revisions.
+ */
+export class ConflictError extends Error {
+
+    readonly collection: string
+    readonly _id: string
+    readonly expectedRev: string | undefined
+    readonly currentRev: string | undefined
+
+    /**
+     * @constructor
+     * @param {string} collection - The collection holding the document.
+     * @param {string} id - The `_id` of the document.
+     * @param {string} [expectedRev] - The `_rev` the caller based its update on, if any.
+     * @param {string} [currentRev] - The `_rev` of the document on disk.
+     */
+    constructor(collection: string, id: string, expectedRev?: string, currentRev?: string) {
+        super(expectedRev === undefined
+            ? `document with _id ${id} in ${collection} was changed since it was read`
+            : `document with _id ${id} in ${collection} is at revision ${currentRev}, ` +
+                `not ${expectedRev}`)
+        this.name = "ConflictError"
+        this.collection = collection
+        this._id = id
+        this.expectedRev = expectedRev
+        this.currentRev = currentRev
+    }
+}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class RevisionHistory
+ * @classdesc
+ * Keeps the previous revisions of the documents of a collection, one hidden file per document
+ * holding its revisions newest first, and computes the `_rev` of new revisions. A `_rev` is made of
+ * a counter incremented on every write and a hash of the document contents (ex: `3-5f2b9c0a1e4d`).
+ */
+class RevisionHistory {
+
+    // name of the directory holding the history files within each collection directory
+    static HISTORY_DIRNAME = ".dirfile-history"
+
+    #historyDir: string
+    #codec: FileCodec
+
+    /**
+     * @constructor
+     * @param {PathLike} collectionPath - The collection directory.
+     * @param {FileCodec} [codec] - Encrypts the history files, plain by default.
+     */
+    constructor(collectionPath: PathLike, codec: FileCodec = Cipher.PLAINTEXT) {
+        this.#historyDir = join(collectionPath.toString(), RevisionHistory.HISTORY_DIRNAME)
+        this.#codec = codec
+    }
+
+    /**
+     * @description Returns the `_rev` following a revision for the given document contents.
+     *
+     * @param {any} document - The new revision of the document, its `_rev` is ignored.
+     * @param {string} [previousRev] - The `_rev` of the previous revision, if any.
+     *
+     * @returns {string} The new `_rev`.
+     */
+    static nextRevision(document: any, previousRev?: string): string {
+        const count = (Number.parseInt(previousRev ?? "0", 10) || 0) + 1
+        const hash = createHash("sha1")
+            .update(JSON.stringify({ ...document, _rev: undefined }, undefinedReplacer))
+            .digest("hex")
+            .slice(0, 12)
+
+        return `${count}-${hash}`
+    }
+
+    /**
+     * @description Returns the previous revisions of a document kept on disk, newest first.
+     *
+     * @param {string} id - The `_id` of the document.
+     *
+     * @returns {Promise<any[]>} The previous revisions.
+     */
+    async list(id: string): Promise<any[]> {
+        try {
+            return JSON.parse(this.#codec.decode(await readFile(this.#historyPath(id), "utf8")))
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+            throw error
+        }
+    }
+
+    /**
+     * @description Adds a replaced revision to the history of a document, dropping the oldest
+     * revisions past the limit.
+     *
+     * @param {string} id - The `_id` of the document.
+     * @param {any} document - The replaced revision.
+     * @param {number} limit - The number of revisions to keep, `0` removes the history.
+     *
+     * @returns {Promise<void>} A promise that resolves once the history is written.
+     */
+    async add(id: string, document: any, limit: number): Promise<void> {
+        if (limit <= 0) return this.remove(id)
+
+        const revisions = [document, ...await this.list(id)].slice(0, limit)
+
+        await mkdir(this.#historyDir, { recursive: true })
+        await writeFileAtomic(
+            this.#historyPath(id),
+            this.#codec.encode(JSON.stringify(revisions, undefinedReplacer))
+        )
+    }
+
+    /**
+     * @description Removes the history of a document.
+     *
+     * @param {string} id - The `_id` of the document.
+     *
+     * @returns {Promise<void>} A promise that resolves once the history is removed.
+     */
+    async remove(id: string): Promise<void> {
+        await rm(this.#historyPath(id), { force: true })
+    }
+
+    /**
+     * @private
+     * @description Returns the path of the history file of a document.
+     */
+    #historyPath(id: string): string {
+        return join(this.#historyDir, `${id}.json`)
+    }
+}
+
+export default RevisionHistory
@@ -0,0 +1,336 @@
+/**
+ * @module Snapshot
+ * @fileoverview This file contains the types and class definition for the single file snapshots
+ * a DirfileDB database is exported to and restored from.
+ *
+ * @exports {
+ *     @name SnapshotManifest
+ *     @name SnapshotFile
+ *     @name SnapshotArchive
+ * }
+ *
+ * @default Snapshot
+ */
+
+/**
+ * ------ NodeJs  Dependencies ------
+ */
+
+import { createReadStream } from "fs"
+import { mkdir, readFile, readdir, rename, rm, rmdir, writeFile } from "fs/promises"
+import { Hash, createHash, randomBytes } from "crypto"
+import { dirname, join, normalize, isAbsolute, sep } from "path"
+import { Readable, pipeline } from "stream"
+import { pipeline as pipelineAsync } from "stream/promises"
+import { createGzip, createGunzip } from "zlib"
+
+/**
+ * ------ Local Dependencies ------
+ */
+
+import { dirExists, isTempFile, writeStreamAtomic } from "~/util/index.js"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @interface SnapshotManifest
+ * @description Describes the database a snapshot was taken of.
+ * @property {string} format - Always `Snapshot.FORMAT`, identifies snapshot files.
+ * @property {number} formatVersion - The version of the snapshot file layout.
+ * @property {string} packageVersion - The package version the database was written by.
+ * @property {string} databaseId - The `_id` of the database.
+ * @property {string} createdAt - ISO timestamp of the snapshot.
+ * @property {Record<string, number>} collections - The number of documents of each collection.
+ */
+export interface SnapshotManifest {
+    format: string
+    formatVersion: number
+    packageVersion: string
+    databaseId: string
+    createdAt: string
+    collections: Record<string, number>
+}
+
+/**
+ * @interface SnapshotFile
+ * @description A file of the database within a snapshot.
+ * @property {string} path - The path of the file relative to the root directory, `/` separated.
+ * @property {string} data - The base64 encoded contents of the file.
+ */
+export interface SnapshotFile {
+    path: string
+    data: string
+}
+
+/**
+ * @interface SnapshotArchive
+ * @description A snapshot file being read, see `Snapshot.read`.
+ * @property {SnapshotManifest} manifest - Describes the database.
+ * @property {AsyncGenerator<SnapshotFile>} files - Every file of the database, read one at a time:
+ * the metadata file, the collection metadata and index files and the documents. The checksum is
+ * verified once the last file is read, the generator throws if it does not match.
+ */
+export interface SnapshotArchive {
+    manifest: SnapshotManifest
+    files: AsyncGenerator<SnapshotFile>
+}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class Snapshot
+ * @classdesc
+ * Writes every file of a database root directory into a single gzipped archive, along with a
+ * manifest describing the database and a checksum, and restores such archives. Internal entries
+ * that only matter to running instances (ex: lock files) are left out. Restores are written to a
+ * temporary directory which is renamed into place once complete, so an interrupted restore never
+ * leaves a partial database behind.
+ *
+ * Archives are streamed, one JSON record per line: the manifest (`{ manifest }`), then a record
+ * per file (`SnapshotFile`), then the sha256 digest of the previous lines (`{ checksum }`). Only
+ * one file of the database is held in memory at a time when writing or reading them.
+ */
+class Snapshot {
+
+    // value of the manifest format, identifies snapshot files
+    static FORMAT = "dirfile-db-snapshot"
+    // version of the archive layout, bumped on incompatible changes
+    static FORMAT_VERSION = 1
+
+    #rootDir: string
+    // names of the internal entries of the root directory left out of snapshots
+    #unsaved: string[]
+
+    /**
+     * @constructor
+     * @param {string} rootDir - The root directory of the database.
+     * @param {string[]} [unsaved] - Internal entries of the root directory left out of snapshots.
+     */
+    constructor(rootDir: string, unsaved: string[] = []) {
+        this.#rootDir = rootDir
+        this.#unsaved = unsaved
+    }
+
+    /**
+     * @description Writes a snapshot of the root directory to a file.
+     *
+     * @param {string} filePath - The path of the snapshot file, replaced if it exists.
+     * @param {object} database - The package version, `_id` and document counts of the database.
+     *
+     * @returns {Promise<SnapshotManifest>} The manifest of the written snapshot.
+     * @throws {Error} If a file cannot be read or the snapshot cannot be written.
+     */
+    async write(
+        filePath: string,
+        database: Pick<SnapshotManifest, "packageVersion" | "databaseId" | "collections">
+    ): Promise<SnapshotManifest> {
+        const manifest: SnapshotManifest = {
+            format: Snapshot.FORMAT,
+            formatVersion: Snapshot.FORMAT_VERSION,
+            ...database,
+            createdAt: new Date().toISOString()
+        }
+
+        await pipelineAsync(
+            Readable.from(this.#records(manifest)),
+            createGzip(),
+            (gzipped: AsyncIterable<Buffer>) => writeStreamAtomic(filePath, gzipped)
+        )
+
+        return manifest
+    }
+
+    /**
+     * @description Opens a snapshot file and reads its manifest. The files are then read one at a
+     * time from the returned archive, and the checksum verified after the last one, so files read
+     * before a checksum mismatch must be discarded.
+     *
+     * @param {string} filePath - The path of the snapshot file.
+     *
+     * @returns {Promise<SnapshotArchive>} The manifest and the files of the snapshot.
+     * @throws {Error} If the file is not a snapshot or has an unsupported format version. Reading
+     * the files throws if the file is truncated or does not match its checksum.
+     */
+    static async read(filePath: string): Promise<SnapshotArchive> {
+        const lines = Snapshot.#readLines(filePath)
+        const hash = createHash("sha256")
+        let manifest: SnapshotManifest | undefined
+
+        try {
+            const first = await lines.next()
+            if (!first.done) {
+                manifest = JSON.parse(first.value)?.manifest
+                hash.update(`${first.value}\n`)
+            }
+        } catch (error) {
+            await lines.return(undefined)
+            throw Error(`${filePath} is not a readable snapshot: ${error}`)
+        }
+
+        if (manifest?.format !== Snapshot.FORMAT) {
+            await lines.return(undefined)
+            throw Error(`${filePath} is not a snapshot`)
+        }
+        if (manifest.formatVersion > Snapshot.FORMAT_VERSION) {
+            await lines.return(undefined)
+            throw Error(`unsupported snapshot format version ${manifest.formatVersion}`)
+        }
+
+        return { manifest, files: Snapshot.#readFiles(filePath, lines, hash) }
+    }
+
+    /**
+     * @description Restores a snapshot file into a directory, which must not exist or be empty.
+     *
+     * @param {string} filePath - The path of the snapshot file.
+     * @param {string} rootDir - The directory to restore the database into.
+     *
+     * @returns {Promise<SnapshotManifest>} The manifest of the restored snapshot.
+     * @throws {Error} If the snapshot is invalid, holds a path outside of the root directory or the
+     * target directory is not empty.
+     */
+    static async restore(filePath: string, rootDir: string): Promise<SnapshotManifest> {
+        if (dirExists(rootDir) && (await readdir(rootDir)).length > 0) {
+            throw Error(`restore directory ${rootDir} is not empty`)
+        }
+
+        const { manifest, files } = await Snapshot.read(filePath)
+        const stagingDir = `${rootDir}.${randomBytes(6).toString("hex")}.restoring`
+
+        try {
+            for await (const file of files) {
+                const relativePath = normalize(file.path.split("/").join(sep))
+                if (isAbsolute(relativePath) || relativePath.split(sep).includes("..")) {
+                    throw Error(`snapshot holds a file outside of the database: ${file.path}`)
+                }
+
+                const targetPath = join(stagingDir, relativePath)
+                await mkdir(dirname(targetPath), { recursive: true })
+                await writeFile(targetPath, Buffer.from(file.data, "base64"))
+            }
+
+            await mkdir(stagingDir, { recursive: true })
+            if (dirExists(rootDir)) await rmdir(rootDir)
+            await rename(stagingDir, rootDir)
+        } catch (error) {
+            await files.return(undefined)
+            await rm(stagingDir, { recursive: true, force: true })
+            throw error
+        }
+
+        return manifest
+    }
+
+    /**
+     * @private
+     * @description Streams the lines of a snapshot archive: the manifest, the files and the
+     * checksum, hashing the lines before the checksum.
+     */
+    async *#records(manifest: SnapshotManifest): AsyncGenerator<string> {
+        const hash = createHash("sha256")
+        const record = (value: object): string => {
+            const line = `${JSON.stringify(value)}\n`
+            hash.update(line)
+            return line
+        }
+
+        yield record({ manifest })
+        for await (const file of this.#streamFiles(this.#rootDir, [])) yield record(file)
+        const checksum = { algorithm: "sha256", digest: hash.digest("hex") }
+        yield `${JSON.stringify({ checksum })}\n`
+    }
+
+    /**
+     * @private
+     * @description Recursively streams the files of a directory, skipping temporary files and the
+     * unsaved entries of the root directory.
+     */
+    async *#streamFiles(dir: string, relativePath: string[]): AsyncGenerator<SnapshotFile> {
+        const entries = await readdir(dir, { withFileTypes: true })
+
+        for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+            if (relativePath.length === 0 && this.#unsaved.includes(entry.name)) continue
+            if (isTempFile(entry.name)) continue
+
+            const entryPath = join(dir, entry.name)
+            const path = [...relativePath, entry.name]
+
+            if (entry.isDirectory()) {
+                yield* this.#streamFiles(entryPath, path)
+            } else if (entry.isFile()) {
+                yield {
+                    path: path.join("/"),
+                    data: (await readFile(entryPath)).toString("base64")
+                }
+            }
+        }
+    }
+
+    /**
+     * @private
+     * @description Streams the file records following the manifest of a snapshot archive, then
+     * checks the checksum record against the digest of the lines read.
+     *
+     * @throws {Error} If a record cannot be read, or the checksum is missing or does not match.
+     */
+    static async *#readFiles(
+        filePath: string,
+        lines: AsyncGenerator<string>,
+        hash: Hash
+    ): AsyncGenerator<SnapshotFile> {
+        for await (const line of lines) {
+            let record: any
+            try {
+                record = JSON.parse(line)
+            } catch (error) {
+                throw Error(`${filePath} is not a readable snapshot: ${error}`)
+            }
+
+            if (record?.checksum) {
+                if (record.checksum.digest !== hash.digest("hex")) {
+                    throw Error(`${filePath} does not match its checksum`)
+                }
+                return
+            }
+            if (typeof record?.path !== "string" || typeof record.data !== "string") {
+                throw Error(`${filePath} holds an invalid file record`)
+            }
+
+            hash.update(`${line}\n`)
+            yield { path: record.path, data: record.data }
+        }
+
+        throw Error(`${filePath} is truncated, its checksum is missing`)
+    }
+
+    /**
+     * @private
+     * @description Streams the lines of a gzipped file without holding more than a line in memory.
+     * Errors of the file or of its decompression are thrown while reading.
+     */
+    static async *#readLines(filePath: string): AsyncGenerator<string> {
+        const text = pipeline(createReadStream(filePath), createGunzip(), () => undefined)
+        text.setEncoding("utf8")
+
+        let pending: string[] = []
+        for await (const chunk of text as AsyncIterable<string>) {
+            let start = 0
+            for (let end = chunk.indexOf("\n"); end !== -1; end = chunk.indexOf("\n", start)) {
+                pending.push(chunk.slice(start, end))
+                yield pending.join("")
+                pending = []
+                start = end + 1
+            }
+            pending.push(chunk.slice(start))
+        }
+
+        const last = pending.join("")
+        if (last) yield last
+    }
+}
+
+export default Snapshot
@@ -0,0 +1,327 @@
+/**
+ * @module Transaction
+ * @fileoverview This file contains the types and class definition for the staging area of a
+ * DirfileDB multi-document transaction.
+ *
+ * @exports {
+ *     @name TransactionOperation
+ *     @name TransactionJournal
+ *     @name TransactionStore
+ * }
+ *
+ * @default Transaction
+ */
+
+// Transactions stage arbitrary JSON documents, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * ------ Local Dependencies ------
+ */
+
+import { applyUpdate, matchesQuery, Query } from "~/util/index.js"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @type TransactionOperation
+ * @description A single document write recorded in a transaction journal.
+ * - `put`: writes `document`, `previous` holds the version replaced (or `null` for a creation).
+ * - `remove`: deletes the document, `previous` holds the deleted version.
+ */
+export type TransactionOperation =
+    | { type: "put", collection: string, id: string, document: any, previous: any | null }
+    | { type: "remove", collection: string, id: string, previous: any }
+
+/**
+ * @interface TransactionJournal
+ * @description File-based format of a transaction journal entry, written under the root directory
+ * before a transaction is applied.
+ * @property {string} _id - Unique identifier of the transaction (UUID).
+ * @property {"committed" | "rolling-back"} state - `committed` journals are replayed by `init()`,
+ * `rolling-back` journals have their `previous` versions restored.
+ * @property {string} createdAt - ISO timestamp of the commit.
+ * @property {TransactionOperation[]} operations - The document writes, in order.
+ */
+export interface TransactionJournal {
+    _id: string
+    state: "committed" | "rolling-back"
+    createdAt: string
+    operations: TransactionOperation[]
+}
+
+/**
+ * @interface TransactionStore
+ * @description The committed state a transaction reads through, provided by the database.
+ * @property {Function} hasCollection - Whether a collection exists.
+ * @property {Function} generateId - Generates an `_id` for a new document of a collection.
+ * @property {Function} read - Reads a committed document by `_id`, `null` if it does not exist.
+ * @property {Function} findAll - Finds the committed documents matching a query, along with the
+ * `_id` their file is named after.
+ */
+export interface TransactionStore {
+    hasCollection: (collection: string) => boolean
+    generateId: (collection: string) => string
+    read: (collection: string, id: string) => Promise<any | null>
+    findAll: (collection: string, query?: Query) => Promise<StoredDocument[]>
+}
+
+/**
+ * @interface StoredDocument
+ * @description A document found by a transaction, with the `_id` of its file.
+ */
+interface StoredDocument {
+    id: string
+    document: any
+}
+
+/**
+ * @interface StagedWrite
+ * @description The latest staged version of a document, `null` once deleted.
+ */
+interface StagedWrite {
+    collection: string
+    id: string
+    document: any | null
+}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class Transaction
+ * @classdesc
+ * Stages document writes in memory until the transaction callback completes. Reads made through
+ * the transaction see its own staged writes on top of the committed documents (read-your-writes),
+ * nothing is visible to other readers until `DirfileDB.transaction` commits the staged writes.
+ *
+ * Documents created within a transaction always carry their `_id` field so that later reads in the
+ * same transaction can identify them. The committed version of each document read is kept, so
+ * that the commit fails if another writer changed the document meanwhile.
+ */
+class Transaction {
+
+    #store: TransactionStore
+    // staged writes, Map<collection + _id key, latest staged version>
+    #writes: Map<string, StagedWrite>
+    // committed version of each document read, Map<collection + _id key, version or null>
+    #reads: Map<string, any | null>
+    // set once the transaction is committed or aborted, further use throws
+    #closed: boolean
+
+    /**
+     * @constructor
+     * @param {TransactionStore} store
+     */
+    constructor(store: TransactionStore) {
+        this.#store = store
+        this.#writes = new Map<string, StagedWrite>()
+        this.#reads = new Map<string, any | null>()
+        this.#closed = false
+    }
+
+    /**
+     * @description Stages the creation of a new document.
+     *
+     * @param {string} collection - The name of the collection where the document will be created.
+     * @param {any} data - The data to be stored in the new document.
+     *
+     * @returns {Promise<any>} The staged document, including its `_id`.
+     * @throws {Error} If the collection does not exist or a document with the same `_id` exists.
+     */
+    async create(collection: string, data: any): Promise<any> {
+        this.#assertUsable(collection)
+
+        const id = data._id ? data._id : this.#store.generateId(collection)
+
+        if (await this.#read(collection, id)) {
+            throw Error(`document with _id ${id} already exists`)
+        }
+
+        const document = { ...structuredClone(data), _id: id }
+        this.#stage(collection, id, document)
+
+        return structuredClone(document)
+    }
+
+    /**
+     * @description Stages an update of the document identified by the `_id` of `newData`, applying
+     * update operators or deep merging data as `DirfileDB.update` does.
+     *
+     * @param {string} collection - The name of the collection that contains the document.
+     * @param {any} newData - The update operators or data to merge into the document, `_id` is
+     * required.
+     *
+     * @returns {Promise<any>} The staged updated document.
+     * @throws {Error} If the collection or the document does not exist, or the update is invalid.
+     */
+    async update(collection: string, newData: { _id: string, [key: string]: any }): Promise<any> {
+        this.#assertUsable(collection)
+        if (!newData._id) throw Error("missing required _id parameter")
+
+        const document = await this.#read(collection, newData._id)
+        if (!document) throw Error(`document with _id ${newData._id} does not exist`)
+
+        const updatedDocument = applyUpdate(document, newData)
+        this.#stage(collection, newData._id, updatedDocument)
+
+        return structuredClone(updatedDocument)
+    }
+
+    /**
+     * @description Stages the deletion of the first document matching the query.
+     *
+     * @param {string} collection - The name of the collection to delete the document from.
+     * @param {Query} query - The query to match the document to delete.
+     *
+     * @returns {Promise<void>} A promise that resolves once the deletion is staged.
+     */
+    async delete(collection: string, query: Query): Promise<void> {
+        const [match] = await this.#findEntries(collection, query)
+        if (!match) return
+
+        this.#recordRead(collection, match.id, match.document)
+        this.#stage(collection, match.id, null)
+    }
+
+    /**
+     * @description Returns the first document matching the query, including staged writes.
+     *
+     * @param {string} collection - The name of the collection to search within.
+     * @param {Query} query - The query to match against documents.
+     *
+     * @returns {Promise<any | null>} The first document found or `null`.
+     */
+    async find(collection: string, query: Query): Promise<any | null> {
+        const documents = await this.findAll(collection, query)
+        return documents[0] ?? null
+    }
+
+    /**
+     * @description Returns all documents matching the query, including staged writes.
+     *
+     * @param {string} collection - The name of the collection to search within.
+     * @param {Query} [query] - The optional query to match documents against.
+     *
+     * @returns {Promise<any[]>} The documents found.
+     */
+    async findAll(collection: string, query?: Query): Promise<any[]> {
+        return (await this.#findEntries(collection, query)).map(({ document }) => document)
+    }
+
+    /**
+     * @description Closes the transaction and returns its staged writes as journal operations.
+     * The `previous` version of each document is the committed version the transaction read,
+     * which the commit checks against the version on disk.
+     *
+     * @returns {Promise<TransactionOperation[]>} The operations to commit, in staging order.
+     */
+    async close(): Promise<TransactionOperation[]> {
+        this.#closed = true
+
+        const operations: TransactionOperation[] = []
+
+        for (const { collection, id, document } of this.#writes.values()) {
+            const key = this.#key(collection, id)
+            const previous = this.#reads.has(key)
+                ? this.#reads.get(key)
+                : await this.#store.read(collection, id)
+
+            if (document) {
+                operations.push({ type: "put", collection, id, document, previous })
+            } else if (previous) {
+                operations.push({ type: "remove", collection, id, previous })
+            }
+        }
+
+        return operations
+    }
+
+    /**
+     * @description Closes the transaction without returning its staged writes.
+     */
+    abort() {
+        this.#closed = true
+        this.#writes.clear()
+        this.#reads.clear()
+    }
+
+    /**
+     * @private
+     * @description Reads a document by `_id`, preferring the staged version.
+     */
+    async #read(collection: string, id: string): Promise<any | null> {
+        const write = this.#writes.get(this.#key(collection, id))
+        if (write) return structuredClone(write.document)
+
+        const document = await this.#store.read(collection, id)
+        this.#recordRead(collection, id, document)
+
+        return document
+    }
+
+    /**
+     * @private
+     * @description Returns the documents matching the query along with their file `_id`, staged
+     * writes replacing the committed versions.
+     */
+    async #findEntries(collection: string, query?: Query): Promise<StoredDocument[]> {
+        this.#assertUsable(collection)
+
+        const committed = await this.#store.findAll(collection, query)
+        const results = committed.filter(({ id }) => !this.#writes.has(this.#key(collection, id)))
+
+        for (const write of this.#writes.values()) {
+            if (write.collection !== collection || !write.document) continue
+            if (matchesQuery(write.document, query)) {
+                results.push({ id: write.id, document: structuredClone(write.document) })
+            }
+        }
+
+        return results
+    }
+
+    /**
+     * @private
+     * @description Keeps the first committed version read of a document.
+     */
+    #recordRead(collection: string, id: string, document: any | null) {
+        const key = this.#key(collection, id)
+        if (!this.#reads.has(key)) this.#reads.set(key, structuredClone(document))
+    }
+
+    /**
+     * @private
+     * @description Records the latest version of a document, `null` for a deletion.
+     */
+    #stage(collection: string, id: string, document: any | null) {
+        this.#writes.set(this.#key(collection, id), { collection, id, document })
+    }
+
+    /**
+     * @private
+     * @description Builds the staged writes key of a document, ids are keyed as the file names
+     * they are stored under.
+     */
+    #key(collection: string, id: string): string {
+        return JSON.stringify([collection, String(id)])
+    }
+
+    /**
+     * @private
+     * @description Ensures the transaction is still open and the collection exists.
+     *
+     * @throws {Error} If the transaction is closed or the collection does not exist.
+     */
+    #assertUsable(collection: string) {
+        if (this.#closed) throw Error("transaction is already closed")
+        if (!this.#store.hasCollection(collection)) {
+            throw Error(`collection ${collection}, does not exist`)
+        }
+    }
+}
+
+export default Transaction
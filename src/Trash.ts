@@ -0,0 +1,305 @@
+/**
+ * @module Trash
+ * @fileoverview This file contains the types and class definition for the trash soft deleted
+ * documents and collections are moved to, and restored or purged from.
+ *
+ * @exports {
+ *     @name TrashConfig
+ *     @name TrashEntryType
+ *     @name TrashEntry
+ * }
+ *
+ * @default Trash
+ */
+
+// Trash entries hold arbitrary JSON documents, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * ------ NodeJs  Dependencies ------
+ */
+
+import { PathLike, readdirSync, rmSync } from "fs"
+import { mkdir, readFile, readdir, rename, rm } from "fs/promises"
+import { randomBytes } from "crypto"
+import { basename, join } from "path"
+
+/**
+ * ------ Local Dependencies ------
+ */
+
+import { dirExists, pathExists, undefinedReplacer, writeFileAtomic } from "~/util/index.js"
+import Cipher, { FileCodec } from "./Cipher.js"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @interface TrashConfig
+ * @description Configuration options for soft deletes.
+ * @property {number} [retention] - How long trashed items are kept before being purged, in
+ * milliseconds. Trashed items are kept until purged by hand when not set.
+ */
+export interface TrashConfig {
+    retention?: number
+}
+
+/**
+ * @type TrashEntryType
+ * @description What a trash entry holds: a single `document` or a whole `collection`.
+ */
+export type TrashEntryType = "document" | "collection"
+
+/**
+ * @interface TrashEntry
+ * @description An item moved to the trash.
+ * @property {string} _id - Unique identifier of the entry, starting with its deletion time.
+ * @property {TrashEntryType} type - Whether the entry holds a document or a collection.
+ * @property {string} collection - The collection the item was deleted from, or the collection
+ * deleted.
+ * @property {string} [documentId] - The `_id` of the deleted document.
+ * @property {any} [document] - The deleted document.
+ * @property {string} deletedAt - ISO timestamp of the deletion.
+ */
+export interface TrashEntry {
+    _id: string
+    type: TrashEntryType
+    collection: string
+    documentId?: string
+    document?: any
+    deletedAt: string
+}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class Trash
+ * @classdesc
+ * Keeps soft deleted items under the trash directory of the root directory. Each entry is an
+ * `<entry _id>.json` file describing it, holding the document for document entries, next to which
+ * collection entries keep the moved collection directory as `<entry _id>/`. Entry ids start with
+ * the deletion time so that expired entries are found from their names alone.
+ */
+class Trash {
+
+    // name of the directory holding trashed items within the root directory
+    static TRASH_DIRNAME = ".dirfile-trash"
+
+    #trashDir: string
+    #retention?: number
+    #codec: FileCodec
+
+    /**
+     * @constructor
+     * @param {string} trashDir - The directory holding the trash entries.
+     * @param {TrashConfig} [config] - The retention of trashed items.
+     * @param {FileCodec} [codec] - Encrypts the entry files, plain by default.
+     */
+    constructor(trashDir: string, config?: TrashConfig, codec: FileCodec = Cipher.PLAINTEXT) {
+        this.#trashDir = trashDir
+        this.#retention = config?.retention
+        this.#codec = codec
+    }
+
+    /**
+     * @description Moves a deleted document to the trash. The document file itself is left to the
+     * caller to remove.
+     *
+     * @param {string} collection - The collection the document is deleted from.
+     * @param {any} document - The deleted document.
+     *
+     * @returns {Promise<TrashEntry>} The new trash entry.
+     */
+    async addDocument(collection: string, document: any): Promise<TrashEntry> {
+        const entry: TrashEntry = {
+            ...this.#newEntry("document", collection),
+            documentId: document._id,
+            document
+        }
+
+        await this.#writeEntry(entry)
+
+        return entry
+    }
+
+    /**
+     * @description Moves a deleted collection directory to the trash. The entry is written first,
+     * so that a crash while moving leaves a listed (if unrestorable) entry rather than a hidden
+     * directory.
+     *
+     * @param {string} collection - The name of the deleted collection.
+     * @param {PathLike} collectionPath - The collection directory.
+     *
+     * @returns {Promise<TrashEntry>} The new trash entry.
+     */
+    async addCollection(collection: string, collectionPath: PathLike): Promise<TrashEntry> {
+        const entry = this.#newEntry("collection", collection)
+
+        await this.#writeEntry(entry)
+        await rename(collectionPath, this.collectionPath(entry._id))
+
+        return entry
+    }
+
+    /**
+     * @description Returns the trash entries, newest first.
+     *
+     * @returns {Promise<TrashEntry[]>} The trash entries.
+     */
+    async list(): Promise<TrashEntry[]> {
+        if (!dirExists(this.#trashDir)) return []
+
+        const entries: TrashEntry[] = []
+        for (const id of this.#entryIds(await readdir(this.#trashDir))) {
+            const entry = await this.get(id)
+            if (entry) entries.push(entry)
+        }
+
+        return entries.sort((a, b) => b._id.localeCompare(a._id))
+    }
+
+    /**
+     * @description Returns a trash entry.
+     *
+     * @param {string} id - The `_id` of the entry.
+     *
+     * @returns {Promise<TrashEntry | null>} The entry, or `null` if it does not exist.
+     */
+    async get(id: string): Promise<TrashEntry | null> {
+        try {
+            return JSON.parse(this.#codec.decode(await readFile(this.#entryPath(id), "utf8")))
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+            throw error
+        }
+    }
+
+    /**
+     * @description Returns the path the directory of a trashed collection is kept at.
+     *
+     * @param {string} id - The `_id` of the entry.
+     *
+     * @returns {string} The path of the trashed collection directory.
+     */
+    collectionPath(id: string): string {
+        return join(this.#trashDir, id)
+    }
+
+    /**
+     * @description Removes a trash entry along with the collection directory it holds, if any.
+     *
+     * @param {string} id - The `_id` of the entry.
+     *
+     * @returns {Promise<void>} A promise that resolves once the entry is removed.
+     */
+    async remove(id: string): Promise<void> {
+        await rm(this.collectionPath(id), { recursive: true, force: true })
+        await rm(this.#entryPath(id), { force: true })
+    }
+
+    /**
+     * @description Removes the entries older than the retention period, if one is configured.
+     *
+     * @returns {Promise<number>} The number of entries removed.
+     */
+    async purgeExpired(): Promise<number> {
+        if (this.#retention === undefined || !dirExists(this.#trashDir)) return 0
+
+        const expired = this.#expiredIds(await readdir(this.#trashDir))
+        for (const id of expired) await this.remove(id)
+
+        return expired.length
+    }
+
+    /**
+     * @description Synchronously removes the entries older than the retention period, see
+     * `purgeExpired`.
+     *
+     * @returns {number} The number of entries removed.
+     */
+    purgeExpiredSync(): number {
+        if (this.#retention === undefined || !dirExists(this.#trashDir)) return 0
+
+        const expired = this.#expiredIds(readdirSync(this.#trashDir))
+        for (const id of expired) {
+            rmSync(this.collectionPath(id), { recursive: true, force: true })
+            rmSync(this.#entryPath(id), { force: true })
+        }
+
+        return expired.length
+    }
+
+    /**
+     * @description Returns whether the directory of a trashed collection still exists.
+     *
+     * @param {string} id - The `_id` of the entry.
+     *
+     * @returns {Promise<boolean>} Whether the directory exists.
+     */
+    async hasCollection(id: string): Promise<boolean> {
+        return pathExists(this.collectionPath(id))
+    }
+
+    /**
+     * @private
+     * @description Returns a new entry, its `_id` made of the deletion time and a random suffix.
+     */
+    #newEntry(type: TrashEntryType, collection: string): TrashEntry {
+        const deletedAt = new Date()
+        const time = deletedAt.getTime().toString(36).padStart(10, "0")
+
+        return {
+            _id: `${time}-${randomBytes(6).toString("hex")}`,
+            type,
+            collection,
+            deletedAt: deletedAt.toISOString()
+        }
+    }
+
+    /**
+     * @private
+     * @description Writes the file describing an entry.
+     */
+    async #writeEntry(entry: TrashEntry) {
+        await mkdir(this.#trashDir, { recursive: true })
+        await writeFileAtomic(
+            this.#entryPath(entry._id),
+            this.#codec.encode(JSON.stringify(entry, undefinedReplacer))
+        )
+    }
+
+    /**
+     * @private
+     * @description Returns the path of the file describing an entry.
+     */
+    #entryPath(id: string): string {
+        return join(this.#trashDir, `${id}.json`)
+    }
+
+    /**
+     * @private
+     * @description Returns the ids of the entries described by the files of the trash directory.
+     */
+    #entryIds(files: string[]): string[] {
+        return files
+            .filter(file => file.endsWith(".json") && !file.startsWith("."))
+            .map(file => basename(file, ".json"))
+    }
+
+    /**
+     * @private
+     * @description Returns the ids of the entries deleted before the retention period, read from
+     * the deletion time they start with.
+     */
+    #expiredIds(files: string[]): string[] {
+        const cutoff = Date.now() - (this.#retention ?? 0)
+
+        return this.#entryIds(files)
+            .filter(id => Number.parseInt(id.split("-")[0], 36) <= cutoff)
+    }
+}
+
+export default Trash
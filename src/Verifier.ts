@@ -0,0 +1,389 @@
+/**
+ * @module Verifier
+ * @fileoverview This file contains the types and class definition for the integrity check of a
+ * DirfileDB root directory and for setting aside the files it finds problems with.
+ *
+ * @exports {
+ *     @name VerifyIssueType
+ *     @name VerifyIssue
+ *     @name VerifyReport
+ *     @name RepairOptions
+ *     @name RepairReport
+ * }
+ *
+ * @default Verifier
+ */
+
+/**
+ * ------ NodeJs  Dependencies ------
+ */
+
+import { mkdir, readFile, readdir, rename, rm } from "fs/promises"
+import { basename, dirname, join } from "path"
+
+/**
+ * ------ Local Dependencies ------
+ */
+
+import { dirExists, isShardDir, parentDocument } from "~/util/index.js"
+import type { DirfileDBMetadataFile } from "./DirfileDB.js"
+import Cipher, { FileCodec } from "./Cipher.js"
+
+/**
+ * ------ Interfaces and Types ------
+ */
+
+/**
+ * @type VerifyIssueType
+ * @description The kinds of problems found by `verify`:
+ * - `unparsableMetadata`: the database metadata file is not valid JSON.
+ * - `unparsableDocument`: a document file cannot be decrypted, is not encrypted in an encrypted
+ * collection, is not valid JSON or does not hold an object.
+ * - `idMismatch`: the `_id` of a document does not match its `<_id>.json` file name.
+ * - `duplicateId`: a document holds the `_id` of another document file of the collection.
+ * - `strayFile`: a file that is neither a document nor a database file.
+ * - `missingCollection`: a collection listed in the metadata has no directory.
+ * - `unregisteredCollection`: a collection directory is not listed in the metadata.
+ */
+export type VerifyIssueType =
+    | "unparsableMetadata"
+    | "unparsableDocument"
+    | "idMismatch"
+    | "duplicateId"
+    | "strayFile"
+    | "missingCollection"
+    | "unregisteredCollection"
+
+/**
+ * @interface VerifyIssue
+ * @description A problem found by `verify`.
+ * @property {VerifyIssueType} type - The kind of problem.
+ * @property {string} [collection] - The collection the problem belongs to.
+ * @property {string} [file] - The file at fault, relative to the root directory.
+ * @property {string} [_id] - The `_id` held by the document at fault.
+ * @property {string} message - A description of the problem.
+ */
+export interface VerifyIssue {
+    type: VerifyIssueType
+    collection?: string
+    file?: string
+    _id?: string
+    message: string
+}
+
+/**
+ * @interface VerifyReport
+ * @description The outcome of `verify`.
+ * @property {boolean} ok - Whether no problem was found.
+ * @property {number} checkedDocuments - The number of document files read.
+ * @property {VerifyIssue[]} issues - The problems found.
+ */
+export interface VerifyReport {
+    ok: boolean
+    checkedDocuments: number
+    issues: VerifyIssue[]
+}
+
+/**
+ * @interface RepairOptions
+ * @description Options of `repair`.
+ * @property {boolean} [quarantine] - Moves the files at fault into the quarantine directory
+ * (default) instead of deleting them.
+ */
+export interface RepairOptions {
+    quarantine?: boolean
+}
+
+/**
+ * @interface RepairReport
+ * @description The outcome of `repair`.
+ * @property {VerifyIssue[]} fixed - The problems found and fixed.
+ * @property {string} [quarantineDir] - The directory the files at fault were moved to, if any.
+ */
+export interface RepairReport {
+    fixed: VerifyIssue[]
+    quarantineDir?: string
+}
+
+/**
+ * ------ Class Definition ------
+ */
+
+/**
+ * @class Verifier
+ * @classdesc
+ * Reads every file of a database root directory, as written on disk, and reports the problems left
+ * by hand edits or foreign tools. Hidden (dot-prefixed) entries are internal and not checked. The
+ * files at fault can then be moved into a quarantine directory, or deleted.
+ */
+class Verifier {
+
+    // name of the directory holding quarantined files within the root directory
+    static QUARANTINE_DIRNAME = ".dirfile-quarantine"
+
+    #rootDir: string
+    #metadataFileName: string
+    #codec: (collection: string) => FileCodec
+
+    /**
+     * @constructor
+     * @param {string} rootDir - The root directory of the database.
+     * @param {string} metadataFileName - The name of the database metadata file.
+     * @param {Function} [codec] - Returns the codec decrypting and decompressing the document
+     * files of a collection, plain by default.
+     */
+    constructor(
+        rootDir: string,
+        metadataFileName: string,
+        codec: (collection: string) => FileCodec = () => Cipher.PLAINTEXT
+    ) {
+        this.#rootDir = rootDir
+        this.#metadataFileName = metadataFileName
+        this.#codec = codec
+    }
+
+    /**
+     * @description Checks the metadata file, the collection directories and every document file.
+     *
+     * @returns {Promise<VerifyReport>} The problems found.
+     * @throws {Error} If the root directory cannot be read.
+     */
+    async verify(): Promise<VerifyReport> {
+        const report: VerifyReport = { ok: true, checkedDocuments: 0, issues: [] }
+        const entries = await readdir(this.#rootDir, { withFileTypes: true })
+        const directories = entries
+            .filter(entry => entry.isDirectory() && !entry.name.startsWith("."))
+            .map(entry => entry.name)
+
+        for (const entry of entries) {
+            if (entry.isDirectory() || entry.name.startsWith(".")) continue
+            if (entry.name === this.#metadataFileName) continue
+
+            report.issues.push({
+                type: "strayFile",
+                file: entry.name,
+                message: `${entry.name} is not a database file`
+            })
+        }
+
+        const registered = await this.#registeredCollections(report)
+        // sub-collections are nested within the directory of their parent, found from the metadata
+        const subCollections = (registered ?? []).filter(collection =>
+            parentDocument(collection) && dirExists(join(this.#rootDir, collection)))
+
+        if (registered) {
+            for (const collection of registered) {
+                if (directories.includes(collection) || subCollections.includes(collection)) {
+                    continue
+                }
+
+                report.issues.push({
+                    type: "missingCollection",
+                    collection,
+                    message: `collection ${collection} is listed in the metadata, not on disk`
+                })
+            }
+            for (const collection of directories) {
+                if (registered.includes(collection)) continue
+
+                report.issues.push({
+                    type: "unregisteredCollection",
+                    collection,
+                    message: `collection directory ${collection} is not listed in the metadata`
+                })
+            }
+        }
+
+        for (const collection of [...directories, ...subCollections]) {
+            await this.#verifyCollection(collection, report)
+        }
+
+        report.ok = report.issues.length === 0
+
+        return report
+    }
+
+    /**
+     * @description Moves the files of the given issues into a new quarantine directory, keeping
+     * their path relative to the root directory, or deletes them.
+     *
+     * @param {VerifyIssue[]} issues - The issues to fix, issues without a file are skipped.
+     * @param {boolean} quarantine - Moves the files when `true`, else deletes them.
+     *
+     * @returns {Promise<string | undefined>} The quarantine directory, if files were moved.
+     * @throws {Error} If a file cannot be moved or deleted.
+     */
+    async setAside(issues: VerifyIssue[], quarantine: boolean): Promise<string | undefined> {
+        const files = Array.from(new Set(
+            issues.filter(issue => issue.file !== undefined).map(issue => issue.file!)
+        ))
+        if (files.length === 0) return undefined
+
+        const quarantineDir = join(
+            this.#rootDir,
+            Verifier.QUARANTINE_DIRNAME,
+            new Date().toISOString().replace(/[:.]/g, "-")
+        )
+
+        for (const file of files) {
+            const filePath = join(this.#rootDir, file)
+
+            if (quarantine) {
+                const targetPath = join(quarantineDir, file)
+                await mkdir(dirname(targetPath), { recursive: true })
+                await rename(filePath, targetPath)
+            } else {
+                await rm(filePath, { force: true })
+            }
+        }
+
+        return quarantine ? quarantineDir : undefined
+    }
+
+    /**
+     * @private
+     * @description Returns the collections listed in the metadata file, `undefined` (with an issue
+     * reported) if the file cannot be parsed.
+     */
+    async #registeredCollections(report: VerifyReport): Promise<string[] | undefined> {
+        try {
+            const metadata: DirfileDBMetadataFile = JSON.parse(
+                await readFile(join(this.#rootDir, this.#metadataFileName), "utf8")
+            )
+
+            return metadata.collections.map(([collection]) => collection)
+        } catch (error) {
+            report.issues.push({
+                type: "unparsableMetadata",
+                file: this.#metadataFileName,
+                message: `metadata file cannot be parsed: ${error}`
+            })
+
+            return undefined
+        }
+    }
+
+    /**
+     * @private
+     * @description Checks every file of a collection directory. Documents are read first so that
+     * a document holding the `_id` of another file is reported as a duplicate.
+     */
+    async #verifyCollection(collection: string, report: VerifyReport) {
+        const collectionPath = join(this.#rootDir, collection)
+        // _id held by each parsed document, Map<file path within the collection, _id>
+        const fileIds = new Map<string, unknown>()
+
+        for (const collectionFile of await this.#collectionFiles(collectionPath)) {
+            const file = `${collection}/${collectionFile}`
+
+            if (!collectionFile.endsWith(".json")) {
+                report.issues.push({
+                    type: "strayFile",
+                    collection,
+                    file,
+                    message: `${file} is not a document file`
+                })
+                continue
+            }
+
+            report.checkedDocuments++
+
+            let text: string
+            try {
+                const contents = await readFile(join(collectionPath, collectionFile))
+                text = this.#codec(collection).decode(contents)
+            } catch (error) {
+                report.issues.push({
+                    type: "unparsableDocument",
+                    collection,
+                    file,
+                    message: `${file} cannot be read: ${(error as Error).message}`
+                })
+                continue
+            }
+
+            let document: unknown
+            try {
+                document = JSON.parse(text)
+            } catch (error) {
+                report.issues.push({
+                    type: "unparsableDocument",
+                    collection,
+                    file,
+                    message: `${file} is not valid JSON: ${(error as Error).message}`
+                })
+                continue
+            }
+
+            if (document === null || typeof document !== "object" || Array.isArray(document)) {
+                report.issues.push({
+                    type: "unparsableDocument",
+                    collection,
+                    file,
+                    message: `${file} does not hold a JSON object`
+                })
+                continue
+            }
+
+            fileIds.set(collectionFile, (document as { _id?: unknown })._id)
+        }
+
+        const fileNames = new Set(Array.from(fileIds.keys(), file => basename(file, ".json")))
+        const claimed = new Set<string>()
+        for (const [collectionFile, id] of fileIds) {
+            if (id === basename(collectionFile, ".json")) claimed.add(id)
+        }
+
+        for (const [collectionFile, id] of fileIds) {
+            if (id === basename(collectionFile, ".json")) continue
+
+            const file = `${collection}/${collectionFile}`
+
+            if (typeof id === "string" && (fileNames.has(id) || claimed.has(id))) {
+                report.issues.push({
+                    type: "duplicateId",
+                    collection,
+                    file,
+                    _id: id,
+                    message: `${file} holds _id ${id}, which belongs to another document`
+                })
+            } else {
+                report.issues.push({
+                    type: "idMismatch",
+                    collection,
+                    file,
+                    _id: typeof id === "string" ? id : undefined,
+                    message: id === undefined
+                        ? `${file} has no _id`
+                        : `${file} holds _id ${JSON.stringify(id)}, which does not match its name`
+                })
+            }
+
+            if (typeof id === "string") claimed.add(id)
+        }
+    }
+
+    /**
+     * @private
+     * @description Returns the paths of the files of a collection directory relative to it,
+     * including the files of its shard directories. Hidden entries are internal and skipped.
+     */
+    async #collectionFiles(collectionPath: string, prefix: string = ""): Promise<string[]> {
+        const files: string[] = []
+
+        for (const entry of await readdir(join(collectionPath, prefix), { withFileTypes: true })) {
+            if (entry.name.startsWith(".")) continue
+
+            const file = join(prefix, entry.name)
+            if (entry.isDirectory() && isShardDir(entry.name)) {
+                files.push(...await this.#collectionFiles(collectionPath, file))
+            } else if (entry.isFile()) {
+                files.push(file)
+            }
+        }
+
+        return files
+    }
+}
+
+export default Verifier
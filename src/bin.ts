@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * @fileoverview Entry point of the `dirfile-db` command line tool, see `Cli`.
+ */
+
+import Cli from "./Cli.js"
+
+process.exitCode = await new Cli().run(process.argv.slice(2))
@@ -0,0 +1,243 @@
+import {
+    closeSync,
+    fsyncSync,
+    openSync,
+    readdirSync,
+    renameSync,
+    rmSync,
+    statSync,
+    unlinkSync,
+    writeFileSync
+} from "fs"
+import { open, rename, rm } from "fs/promises"
+import { createHash, randomBytes } from "crypto"
+import { hostname, uptime } from "os"
+import { basename, dirname, join } from "path"
+
+// suffix of the temporary files written before being renamed over their target
+const TEMP_FILE_SUFFIX = ".dirfile-tmp"
+// names the host writing a temporary file, host names may not fit in a file name
+const HOST_TAG = createHash("sha256").update(hostname()).digest("hex").slice(0, 12)
+// time without writes after which a temporary file written from another host is abandoned, as
+// for the lock files of `LockManager`
+const TEMP_FILE_STALE_TIMEOUT = 30000
+
+/**
+ * @description Returns the path of a unique temporary file next to the target file. Temporary
+ * files are hidden (dot-prefixed) so they are never listed as documents, and name the process
+ * writing them and its host (`<pid>@<host tag>`).
+ *
+ * @param {string} filePath - The file that will be replaced.
+ * @returns {string} The temporary file path.
+ */
+const tempFilePath = (filePath: string): string => {
+    const writer = `${process.pid}@${HOST_TAG}`
+    const unique = randomBytes(6).toString("hex")
+
+    return join(dirname(filePath), `.${basename(filePath)}.${writer}.${unique}${TEMP_FILE_SUFFIX}`)
+}
+
+/**
+ * @description Returns whether the process that wrote a temporary file may still be writing it.
+ * Writers on another host are checked like lock files: by the time since the file was last
+ * written. Writers on this host are checked by their process id, unless the file was written
+ * before the host started, as process ids are reused after a restart. Temporary files named
+ * without a process id are left by older versions, and those named without a host tag were
+ * written on this host.
+ *
+ * @param {string} filePath - The temporary file.
+ * @returns {boolean} Whether the writer of the file is running.
+ */
+const isWriterRunning = (filePath: string): boolean => {
+    const segments = basename(filePath).slice(0, -TEMP_FILE_SUFFIX.length).split(".")
+    const [writer, host = HOST_TAG] = (segments[segments.length - 2] ?? "").split("@")
+    const pid = Number(writer)
+    if (!Number.isInteger(pid) || pid <= 0) return false
+
+    const modifiedAt = statSync(filePath, { throwIfNoEntry: false })?.mtimeMs
+    if (modifiedAt === undefined) return false
+
+    if (host !== HOST_TAG) return Date.now() - modifiedAt <= TEMP_FILE_STALE_TIMEOUT
+    if (modifiedAt < Date.now() - uptime() * 1000) return false
+
+    try {
+        process.kill(pid, 0)
+        return true
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code !== "ESRCH"
+    }
+}
+
+/**
+ * @description Returns whether a file name belongs to a temporary file left by an atomic write.
+ *
+ * @param {string} fileName - The file name to test.
+ * @returns {boolean} Whether the file is a leftover temporary file.
+ */
+const isTempFile = (fileName: string): boolean => fileName.endsWith(TEMP_FILE_SUFFIX)
+
+/**
+ * @description Flushes a directory entry to disk so a completed rename survives power loss. Some
+ * platforms (ex: Windows) cannot open directories, in which case this is a no-op.
+ *
+ * @param {string} dir - The directory to flush.
+ */
+const fsyncDirSync = (dir: string) => {
+    let fd: number | undefined
+
+    try {
+        fd = openSync(dir, "r")
+        fsyncSync(fd)
+    } catch (error) {
+        // directory fsync is best effort
+    } finally {
+        if (fd !== undefined) closeSync(fd)
+    }
+}
+
+/**
+ * @description Atomically replaces a file: the data is written and fsynced to a temporary file
+ * which is then renamed over the target. A crash at any point leaves either the previous or the
+ * new file content, never a truncated file.
+ *
+ * @param {string} filePath - The file to write.
+ * @param {string | Buffer} data - The data to write.
+ *
+ * @returns {Promise<void>} A promise that resolves once the file is durably replaced.
+ * @throws {Error} If the file cannot be written, the temporary file is removed first.
+ */
+const writeFileAtomic = async (filePath: string, data: string | Buffer): Promise<void> => {
+    await writeStreamAtomic(filePath, [data])
+}
+
+/**
+ * @description Atomically replaces a file with data read from a stream, see `writeFileAtomic`.
+ * Chunks are written as they are read, so the data is never held in memory as a whole.
+ *
+ * @param {string} filePath - The file to write.
+ * @param {AsyncIterable<string | Buffer> | Iterable<string | Buffer>} source - The chunks to
+ * write.
+ *
+ * @returns {Promise<void>} A promise that resolves once the file is durably replaced.
+ * @throws {Error} If the file cannot be written or the source fails, the temporary file is removed
+ * first.
+ */
+const writeStreamAtomic = async (
+    filePath: string,
+    source: AsyncIterable<string | Buffer> | Iterable<string | Buffer>
+): Promise<void> => {
+    const tempPath = tempFilePath(filePath)
+
+    try {
+        const handle = await open(tempPath, "w")
+        try {
+            for await (const chunk of source) await handle.writeFile(chunk)
+            await handle.sync()
+        } finally {
+            await handle.close()
+        }
+
+        await rename(tempPath, filePath)
+        fsyncDirSync(dirname(filePath))
+    } catch (error) {
+        await rm(tempPath, { force: true })
+        throw error
+    }
+}
+
+/**
+ * @description Synchronous version of `writeFileAtomic`.
+ *
+ * @param {string} filePath - The file to write.
+ * @param {string | Buffer} data - The data to write.
+ *
+ * @throws {Error} If the file cannot be written, the temporary file is removed first.
+ */
+const writeFileAtomicSync = (filePath: string, data: string | Buffer) => {
+    const tempPath = stageFileSync(filePath, data)
+
+    try {
+        commitStagedFileSync(tempPath, filePath)
+    } catch (error) {
+        rmSync(tempPath, { force: true })
+        throw error
+    }
+}
+
+/**
+ * @description Synchronously writes and fsyncs the new data of a file to a temporary file next to
+ * it, leaving the file itself as is until `commitStagedFileSync` renames the temporary file over
+ * it. Staged files that are never committed are removed like any temporary file.
+ *
+ * @param {string} filePath - The file to write.
+ * @param {string | Buffer} data - The data to write.
+ *
+ * @returns {string} The path of the staged temporary file.
+ * @throws {Error} If the file cannot be written, the temporary file is removed first.
+ */
+const stageFileSync = (filePath: string, data: string | Buffer): string => {
+    const tempPath = tempFilePath(filePath)
+
+    try {
+        const fd = openSync(tempPath, "w")
+        try {
+            writeFileSync(fd, data)
+            fsyncSync(fd)
+        } finally {
+            closeSync(fd)
+        }
+
+        return tempPath
+    } catch (error) {
+        rmSync(tempPath, { force: true })
+        throw error
+    }
+}
+
+/**
+ * @description Synchronously replaces a file with the temporary file staged for it by
+ * `stageFileSync`.
+ *
+ * @param {string} tempPath - The staged temporary file.
+ * @param {string} filePath - The file to replace.
+ *
+ * @throws {Error} If the file cannot be replaced.
+ */
+const commitStagedFileSync = (tempPath: string, filePath: string) => {
+    renameSync(tempPath, filePath)
+    fsyncDirSync(dirname(filePath))
+}
+
+/**
+ * @description Recursively removes the temporary files left behind by interrupted atomic writes.
+ * Files still being written by a running process are left alone, see `isWriterRunning`.
+ *
+ * @param {string} dir - The directory to clean.
+ * @returns {string[]} The paths of the removed files.
+ */
+const removeTempFilesSync = (dir: string): string[] => {
+    const removed: string[] = []
+
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const entryPath = join(dir, entry.name)
+
+        if (entry.isDirectory()) {
+            removed.push(...removeTempFilesSync(entryPath))
+        } else if (isTempFile(entry.name) && !isWriterRunning(entryPath)) {
+            unlinkSync(entryPath)
+            removed.push(entryPath)
+        }
+    }
+
+    return removed
+}
+
+export {
+    writeFileAtomic,
+    writeStreamAtomic,
+    writeFileAtomicSync,
+    stageFileSync,
+    commitStagedFileSync,
+    removeTempFilesSync,
+    isTempFile
+}
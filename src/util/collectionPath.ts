@@ -0,0 +1,86 @@
+import { existsSync, readdirSync } from "fs"
+import { join } from "path"
+
+/**
+ * @interface ParentDocument
+ * @description The document a sub-collection belongs to.
+ * @property {string} collection - The collection holding the document.
+ * @property {string} documentId - The `_id` of the document.
+ */
+export interface ParentDocument {
+    collection: string
+    documentId: string
+}
+
+// separates the segments of a collection path, ex: `projects/<projectId>/tasks`
+const COLLECTION_PATH_SEPARATOR = "/"
+
+/**
+ * @description Checks that a collection name is a valid collection path: a collection name,
+ * optionally followed by pairs of document `_id` and sub-collection name.
+ *
+ * @param {string} path - The collection path.
+ *
+ * @throws {Error} If the path holds an even number of segments, or an empty, hidden
+ * (dot-prefixed) or backslashed segment.
+ */
+const assertCollectionPath = (path: string) => {
+    const segments = path.split(COLLECTION_PATH_SEPARATOR)
+
+    if (segments.length % 2 === 0) {
+        throw Error(`collection path ${path} must alternate collection names and document ids`)
+    }
+
+    for (const segment of segments) {
+        if (segment === "" || segment.startsWith(".") || segment.includes("\\")) {
+            throw Error(`collection path ${path} holds an invalid segment "${segment}"`)
+        }
+    }
+}
+
+/**
+ * @description Returns the document a collection path belongs to.
+ *
+ * @param {string} path - The collection path.
+ *
+ * @returns {ParentDocument | undefined} The parent document, `undefined` for a top-level
+ * collection.
+ */
+const parentDocument = (path: string): ParentDocument | undefined => {
+    const segments = path.split(COLLECTION_PATH_SEPARATOR)
+    if (segments.length < 3) return undefined
+
+    return {
+        collection: segments.slice(0, -2).join(COLLECTION_PATH_SEPARATOR),
+        documentId: segments[segments.length - 2]
+    }
+}
+
+/**
+ * @description Synchronously lists the sub-collections directly under a collection directory,
+ * as `<_id>/<name>` paths relative to it. A sub-collection directory is told apart from shard
+ * directories by the collection metadata file it holds.
+ *
+ * @param {string} collectionPath - The collection directory.
+ * @param {string} metadataFileName - The name of the collection metadata file.
+ *
+ * @returns {string[]} The relative paths of the sub-collections.
+ */
+const listSubCollectionsSync = (collectionPath: string, metadataFileName: string): string[] =>
+    readdirSync(collectionPath, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith("."))
+        .flatMap(document => readdirSync(join(collectionPath, document.name), {
+            withFileTypes: true
+        })
+            .filter(entry => entry.isDirectory() && !entry.name.startsWith("."))
+            .filter(entry => existsSync(
+                join(collectionPath, document.name, entry.name, metadataFileName)
+            ))
+            .map(entry => `${document.name}${COLLECTION_PATH_SEPARATOR}${entry.name}`))
+
+export {
+    COLLECTION_PATH_SEPARATOR,
+    assertCollectionPath,
+    parentDocument,
+    listSubCollectionsSync
+}
@@ -0,0 +1,98 @@
+import { brotliCompressSync, brotliDecompressSync, constants, gunzipSync, gzipSync } from "zlib"
+
+/**
+ * @type Compression
+ * @description The compression of document files: `gzip` or `brotli`.
+ */
+export type Compression = "gzip" | "brotli"
+
+/**
+ * @interface StorageOptions
+ * @description How the document files of a collection are written.
+ * @property {Compression} [compression] - Compresses document files, they are plain JSON when not
+ * set.
+ * @property {number} [level] - The compression level: 1 to 9 for gzip, 0 to 11 for brotli. Defaults
+ * to the zlib default of the compression.
+ * @property {boolean} [compact] - Writes the JSON without indentation.
+ */
+export interface StorageOptions {
+    compression?: Compression
+    level?: number
+    compact?: boolean
+}
+
+// first bytes of every gzip stream
+const GZIP_MAGIC = [0x1f, 0x8b]
+// start of plain JSON text, possibly hand-edited with a byte order mark or leading whitespace
+const JSON_START = /^\s*[{[]/
+// byte order mark some editors write at the start of text files
+const BYTE_ORDER_MARK = "\uFEFF"
+
+/**
+ * @description Returns the indentation of the JSON text of document files.
+ *
+ * @param {StorageOptions} [storage] - The storage options of the collection.
+ *
+ * @returns {number | undefined} The indentation, `undefined` for compact JSON.
+ */
+const documentIndent = (storage?: StorageOptions | null): number | undefined =>
+    storage?.compact ? undefined : 2
+
+/**
+ * @description Compresses the JSON text of a document file with the compression of the storage
+ * options, if any.
+ *
+ * @param {string} text - The JSON text.
+ * @param {StorageOptions} [storage] - The storage options of the collection.
+ *
+ * @returns {string | Buffer} The compressed contents, or the text itself without compression.
+ * @throws {Error} If the compression is unknown.
+ */
+const compress = (text: string, storage?: StorageOptions | null): string | Buffer => {
+    const level = typeof storage?.level === "number" ? storage.level : undefined
+
+    switch (storage?.compression ?? undefined) {
+        case undefined:
+            return text
+        case "gzip":
+            return gzipSync(text, { level })
+        case "brotli":
+            return brotliCompressSync(text, level === undefined
+                ? {}
+                : { params: { [constants.BROTLI_PARAM_QUALITY]: level } })
+        default:
+            throw Error(`unknown compression ${storage?.compression}`)
+    }
+}
+
+/**
+ * @description Returns the JSON text of file contents, detecting their compression: gzip streams
+ * start with the gzip magic bytes, plain JSON with `{` (after an optional byte order mark and
+ * whitespace) and anything else is read as brotli. Contents that are not a valid brotli stream
+ * either are returned as text, for the JSON parser to report.
+ *
+ * @param {string | Buffer} contents - The file contents.
+ *
+ * @returns {string} The JSON text, without its byte order mark.
+ */
+const decompress = (contents: string | Buffer): string => {
+    const text = contents.toString("utf8")
+    const plain = text.startsWith(BYTE_ORDER_MARK) ? text.slice(1) : text
+    if (typeof contents === "string" || plain.length === 0 || JSON_START.test(plain)) return plain
+
+    if (contents[0] === GZIP_MAGIC[0] && contents[1] === GZIP_MAGIC[1]) {
+        return gunzipSync(contents).toString("utf8")
+    }
+
+    try {
+        return brotliDecompressSync(contents).toString("utf8")
+    } catch (error) {
+        return plain
+    }
+}
+
+export {
+    documentIndent,
+    compress,
+    decompress
+}
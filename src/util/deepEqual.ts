@@ -0,0 +1,40 @@
+// Compared values are arbitrary JSON data, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * @description Structurally compares two JSON-like values. Arrays are compared element by element
+ * in order, plain objects are compared key by key regardless of key order, Dates are compared by
+ * time value and everything else uses strict equality.
+ *
+ * @param {any} a - The first value to compare.
+ * @param {any} b - The second value to compare.
+ *
+ * @returns {boolean} Whether both values are deeply equal.
+ */
+const deepEqual = (a: any, b: any): boolean => {
+    if (a === b) return true
+
+    if (a instanceof Date || b instanceof Date) {
+        return a instanceof Date && b instanceof Date && a.getTime() === b.getTime()
+    }
+
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+        return false
+    }
+
+    if (Array.isArray(a) !== Array.isArray(b)) return false
+
+    if (Array.isArray(a)) {
+        return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]))
+    }
+
+    const aKeys = Object.keys(a)
+    const bKeys = Object.keys(b)
+
+    const hasKey = (key: string) => Object.prototype.hasOwnProperty.call(b, key)
+
+    return aKeys.length === bKeys.length &&
+        aKeys.every(key => hasKey(key) && deepEqual(a[key], b[key]))
+}
+
+export default deepEqual
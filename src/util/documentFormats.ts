@@ -0,0 +1,221 @@
+// Formats serialize arbitrary JSON documents, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import undefinedReplacer from "./undefinedReplacer.js"
+import { setPathValue } from "./objectPath.js"
+
+/**
+ * @type DocumentFormat
+ * @description The text formats documents can be exported to and imported from: newline
+ * delimited JSON (one document per line) or comma separated values (one column per field).
+ */
+export type DocumentFormat = "ndjson" | "csv"
+
+/**
+ * @description Returns the format of a file from its extension: `.ndjson` or `.jsonl` for NDJSON
+ * and `.csv` for CSV.
+ *
+ * @param {string} filePath - The path of the file.
+ *
+ * @returns {DocumentFormat} The format of the file.
+ * @throws {Error} If the extension is not a known format.
+ */
+const formatFromPath = (filePath: string): DocumentFormat => {
+    const extension = filePath.slice(filePath.lastIndexOf(".") + 1).toLowerCase()
+
+    if (extension === "ndjson" || extension === "jsonl") return "ndjson"
+    if (extension === "csv") return "csv"
+
+    throw Error(`cannot infer the format of ${filePath}, pass the format option`)
+}
+
+/**
+ * @description Serializes documents to NDJSON, one document per line.
+ *
+ * @param {any[]} documents - The documents to serialize.
+ * @returns {string} The NDJSON text.
+ */
+const toNdjson = (documents: any[]): string =>
+    documents.map(document => JSON.stringify(document, undefinedReplacer) + "\n").join("")
+
+/**
+ * @description Parses NDJSON text, blank lines are ignored.
+ *
+ * @param {string} text - The NDJSON text.
+ *
+ * @returns {any[]} The documents, in order.
+ * @throws {Error} If a line is not valid JSON.
+ */
+const fromNdjson = (text: string): any[] => {
+    const documents: any[] = []
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (line.trim() === "") return
+
+        try {
+            documents.push(JSON.parse(line))
+        } catch (error) {
+            throw Error(`invalid JSON on line ${index + 1}`)
+        }
+    })
+
+    return documents
+}
+
+/**
+ * @description Flattens nested plain objects into dot-path keyed cells, other values (including
+ * arrays and empty objects) are kept whole.
+ */
+const flattenDocument = (document: any, prefix = "", row: Record<string, any> = {}) => {
+    for (const [key, value] of Object.entries(document)) {
+        const path = prefix ? `${prefix}.${key}` : key
+        const isNested = value !== null && typeof value === "object" && !Array.isArray(value)
+
+        if (isNested && Object.keys(value as object).length > 0) {
+            flattenDocument(value, path, row)
+        } else if (value !== undefined) {
+            row[path] = value
+        }
+    }
+
+    return row
+}
+
+/**
+ * @description Returns whether a cell holds valid JSON.
+ */
+const isJson = (cell: string): boolean => {
+    try {
+        JSON.parse(cell)
+        return true
+    } catch (error) {
+        return false
+    }
+}
+
+/**
+ * @description Encodes a value into a cell. Strings are written as is unless they would be read
+ * back as another value (ex: `"42"` or `""`), in which case they are JSON encoded like every other
+ * value, so that values survive a round trip.
+ */
+const encodeCell = (value: any): string => {
+    if (value === undefined) return ""
+    if (typeof value === "string" && value !== "" && !isJson(value)) return value
+
+    return JSON.stringify(value)
+}
+
+/**
+ * @description Decodes a cell written by `encodeCell`, empty cells are missing fields.
+ */
+const decodeCell = (cell: string): any => {
+    if (cell === "") return undefined
+
+    return isJson(cell) ? JSON.parse(cell) : cell
+}
+
+/**
+ * @description Quotes a CSV field when it holds a separator, a quote or a line break.
+ */
+const quoteField = (field: string): string =>
+    /[",\r\n]/.test(field) ? `"${field.replace(/"/g, "\"\"")}"` : field
+
+/**
+ * @description Serializes documents to CSV. The header lists every field (as dot-paths into nested
+ * objects) found in any document, `_id` first, and missing fields are left empty.
+ *
+ * @param {any[]} documents - The documents to serialize.
+ * @returns {string} The CSV text.
+ */
+const toCsv = (documents: any[]): string => {
+    const rows = documents.map(document => flattenDocument(document))
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+        .sort((a, b) => Number(b === "_id") - Number(a === "_id"))
+
+    return [columns, ...rows.map(row => columns.map(column => encodeCell(row[column])))]
+        .map(fields => fields.map(quoteField).join(",") + "\r\n")
+        .join("")
+}
+
+/**
+ * @description Splits CSV text into records of fields, following RFC 4180 quoting.
+ *
+ * @throws {Error} If a quoted field is not closed.
+ */
+const parseCsvRecords = (text: string): string[][] => {
+    const records: string[][] = []
+    let record: string[] = []
+    let field = ""
+    let quoted = false
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index]
+
+        if (quoted) {
+            if (char === "\"" && text[index + 1] === "\"") {
+                field += char
+                index++
+            } else if (char === "\"") {
+                quoted = false
+            } else {
+                field += char
+            }
+        } else if (char === "\"") {
+            quoted = true
+        } else if (char === ",") {
+            record.push(field)
+            field = ""
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[index + 1] === "\n") index++
+            records.push([...record, field])
+            record = []
+            field = ""
+        } else {
+            field += char
+        }
+    }
+
+    if (quoted) throw Error("invalid CSV, unterminated quoted field")
+    if (field !== "" || record.length > 0) records.push([...record, field])
+
+    return records
+}
+
+/**
+ * @description Parses CSV text written by `toCsv`, or by a spreadsheet using the same header. The
+ * header names the field (or dot-path) of each column, empty cells are missing fields and blank
+ * lines are ignored.
+ *
+ * @param {string} text - The CSV text.
+ *
+ * @returns {any[]} The documents, in order.
+ * @throws {Error} If the CSV is malformed.
+ */
+const fromCsv = (text: string): any[] => {
+    const [header, ...records] = parseCsvRecords(text)
+    if (!header) return []
+
+    return records
+        .filter(record => record.some(field => field !== ""))
+        .map((record, index) => {
+            if (record.length > header.length) {
+                throw Error(`invalid CSV, record ${index + 1} has more fields than the header`)
+            }
+
+            const document: any = {}
+            record.forEach((cell, column) => {
+                const value = decodeCell(cell)
+                if (value !== undefined) setPathValue(document, header[column], value)
+            })
+
+            return document
+        })
+}
+
+export {
+    formatFromPath,
+    toNdjson,
+    fromNdjson,
+    toCsv,
+    fromCsv
+}
@@ -0,0 +1,40 @@
+// Checked values are arbitrary JSON documents, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * @description Returns the expiration time of a document from its `expireAt` field, which holds
+ * either an ISO date string or a timestamp in milliseconds.
+ *
+ * @param {any} document - The document to read.
+ *
+ * @returns {number | undefined} The expiration timestamp, `undefined` if the document does not
+ * expire or its `expireAt` cannot be read as a date.
+ */
+const expirationTime = (document: any): number | undefined => {
+    const expireAt = document?.expireAt
+
+    const time = typeof expireAt === "number"
+        ? expireAt
+        : typeof expireAt === "string" ? Date.parse(expireAt) : Number.NaN
+
+    return Number.isNaN(time) ? undefined : time
+}
+
+/**
+ * @description Returns whether a document is past its `expireAt`, see `expirationTime`.
+ *
+ * @param {any} document - The document to check.
+ * @param {number} [now] - The current timestamp, defaults to `Date.now()`.
+ *
+ * @returns {boolean} Whether the document is expired.
+ */
+const isExpired = (document: any, now: number = Date.now()): boolean => {
+    const time = expirationTime(document)
+
+    return time !== undefined && time <= now
+}
+
+export {
+    expirationTime,
+    isExpired
+}
@@ -1,4 +1,5 @@
 import { statSync, PathLike } from "fs"
+import { access } from "fs/promises"
 
 /**
  * @description returns whether a directory exists or not
@@ -14,6 +15,22 @@ const dirExists = (dir: PathLike): boolean => {
     }
 }
 
+/**
+ * @description returns whether a file or directory exists or not
+ *
+ * @param path Path to test if it exists
+ * @returns {Promise<boolean>} Whether the path exists or not
+ */
+const pathExists = async (path: PathLike): Promise<boolean> => {
+    try {
+        await access(path)
+        return true
+    } catch (error) {
+        return false
+    }
+}
+
 export {
-    dirExists
+    dirExists,
+    pathExists
 }
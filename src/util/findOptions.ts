@@ -0,0 +1,199 @@
+// Find options reshape arbitrary JSON documents, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { getPathValue, hasPath, setPathValue, deletePathValue } from "./objectPath.js"
+import { compareValues } from "./queryMatcher.js"
+
+/**
+ * @type SortDirection
+ * @description Ascending (`1` or `"asc"`) or descending (`-1` or `"desc"`) order.
+ */
+export type SortDirection = 1 | -1 | "asc" | "desc"
+
+/**
+ * @type Sort
+ * @description Fields (or dot-paths) to order documents by, in order of precedence.
+ */
+export type Sort = Record<string, SortDirection>
+
+/**
+ * @type Projection
+ * @description Fields (or dot-paths) to include (`1` or `true`) or exclude (`0` or `false`) from
+ * returned documents. Inclusions and exclusions cannot be mixed, except for `_id` which is always
+ * included unless excluded.
+ */
+export type Projection = Record<string, 0 | 1 | boolean>
+
+/**
+ * @interface FindOptions
+ * @description Options shaping the documents returned by a query.
+ * @property {Sort} [sort] - The order of the documents.
+ * @property {number} [skip] - Number of matching documents to skip.
+ * @property {number} [limit] - Maximum number of documents to return.
+ * @property {Projection} [projection] - The fields to include or exclude.
+ */
+export interface FindOptions {
+    sort?: Sort
+    skip?: number
+    limit?: number
+    projection?: Projection
+}
+
+/**
+ * @description Ranks value types so that values of different types have a stable order: missing
+ * and `null` values first, then numbers, strings, booleans, objects and arrays.
+ */
+const typeRank = (value: any): number => {
+    if (value === undefined || value === null) return 0
+    if (typeof value === "number" || typeof value === "bigint") return 1
+    if (typeof value === "string") return 2
+    if (typeof value === "boolean") return 3
+    if (Array.isArray(value)) return 5
+
+    return 4
+}
+
+/**
+ * @description Orders two values of any type, see `typeRank`. Objects and arrays of the same type
+ * are ordered by their JSON representation.
+ */
+const compareSortValues = (a: any, b: any): number => {
+    const rankDifference = typeRank(a) - typeRank(b)
+    if (rankDifference !== 0) return Math.sign(rankDifference)
+
+    return compareValues(a, b) ?? compareValues(JSON.stringify(a), JSON.stringify(b)) ?? 0
+}
+
+/**
+ * @description Returns the sort key of a document: the value of each sort field followed by its
+ * `_id`, which breaks ties so that every document has a distinct position.
+ *
+ * @param {any} document - The document.
+ * @param {Sort} [sort] - The sort fields.
+ *
+ * @returns {any[]} The sort key.
+ */
+const sortKey = (document: any, sort?: Sort): any[] => [
+    ...Object.keys(sort ?? {}).map(field => getPathValue(document, field)),
+    document._id
+]
+
+/**
+ * @description Orders two sort keys built with `sortKey`, `_id` is always ascending.
+ *
+ * @param {any[]} a - The first sort key.
+ * @param {any[]} b - The second sort key.
+ * @param {Sort} [sort] - The sort fields the keys were built with.
+ *
+ * @returns {number} A negative number if `a` comes first, positive if `b` comes first, else `0`.
+ */
+const compareSortKeys = (a: any[], b: any[], sort?: Sort): number => {
+    const directions = Object.values(sort ?? {})
+        .map(direction => direction === -1 || direction === "desc" ? -1 : 1)
+
+    for (let index = 0; index < a.length; index++) {
+        const comparison = compareSortValues(a[index], b[index]) * (directions[index] ?? 1)
+        if (comparison !== 0) return comparison
+    }
+
+    return 0
+}
+
+/**
+ * @description Sorts documents in place by the sort fields, then by `_id`.
+ *
+ * @param {any[]} documents - The documents to sort.
+ * @param {Sort} [sort] - The sort fields.
+ *
+ * @returns {any[]} The sorted documents.
+ */
+const sortDocuments = (documents: any[], sort?: Sort): any[] => {
+    const keys = new Map(documents.map(document => [document, sortKey(document, sort)]))
+
+    return documents.sort((a, b) => compareSortKeys(keys.get(a)!, keys.get(b)!, sort))
+}
+
+/**
+ * @description Returns a copy of a document holding only the projected fields.
+ *
+ * @param {any} document - The document to project.
+ * @param {Projection} [projection] - The fields to include or exclude.
+ *
+ * @returns {any} The projected document.
+ * @throws {Error} If inclusions and exclusions are mixed.
+ */
+const applyProjection = (document: any, projection?: Projection): any => {
+    if (!projection || Object.keys(projection).length === 0) return document
+
+    const fields = Object.entries(projection).filter(([field]) => field !== "_id")
+    const inclusive = fields.some(([, include]) => Boolean(include))
+    if (inclusive && fields.some(([, include]) => !include)) {
+        throw Error("projection cannot mix included and excluded fields")
+    }
+
+    const keepId = projection._id === undefined || Boolean(projection._id)
+
+    if (!inclusive) {
+        const projected = structuredClone(document)
+        for (const [field] of fields) deletePathValue(projected, field)
+        if (!keepId) delete projected._id
+
+        return projected
+    }
+
+    const projected: any = {}
+    if (keepId && document._id !== undefined) projected._id = document._id
+
+    for (const [field] of fields) {
+        if (hasPath(document, field)) {
+            setPathValue(projected, field, structuredClone(getPathValue(document, field)))
+        }
+    }
+
+    return projected
+}
+
+/**
+ * @description Encodes the sort key of a document into an opaque pagination cursor.
+ *
+ * @param {any} document - The last document of a page.
+ * @param {Sort} [sort] - The sort fields of the query.
+ *
+ * @returns {string} The cursor.
+ */
+const encodeCursor = (document: any, sort?: Sort): string =>
+    Buffer.from(JSON.stringify(sortKey(document, sort))).toString("base64url")
+
+/**
+ * @description Decodes a pagination cursor built with `encodeCursor`.
+ *
+ * @param {string} cursor - The cursor.
+ * @param {Sort} [sort] - The sort fields of the query.
+ *
+ * @returns {any[]} The sort key of the last document of the previous page.
+ * @throws {Error} If the cursor is malformed or was built for other sort fields.
+ */
+const decodeCursor = (cursor: string, sort?: Sort): any[] => {
+    let key: unknown
+
+    try {
+        key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    } catch (error) {
+        throw Error("invalid pagination cursor")
+    }
+
+    if (!Array.isArray(key) || key.length !== Object.keys(sort ?? {}).length + 1) {
+        throw Error("invalid pagination cursor")
+    }
+
+    return key
+}
+
+export {
+    sortKey,
+    compareSortKeys,
+    sortDocuments,
+    applyProjection,
+    encodeCursor,
+    decodeCursor
+}
@@ -4,10 +4,23 @@
 
 import undefinedReplacer from "./undefinedReplacer.js"
 import getPackageVersion from "./getPackageVersion.js"
+import deepEqual from "./deepEqual.js"
 
 export * from "./fileSystem.js"
+export * from "./atomicWrite.js"
+export * from "./objectPath.js"
+export * from "./queryMatcher.js"
+export * from "./findOptions.js"
+export * from "./validateSchema.js"
+export * from "./updateOperators.js"
+export * from "./documentFormats.js"
+export * from "./expiration.js"
+export * from "./compression.js"
+export * from "./sharding.js"
+export * from "./collectionPath.js"
 
 export {
     undefinedReplacer,
-    getPackageVersion
+    getPackageVersion,
+    deepEqual
 }
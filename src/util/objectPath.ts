@@ -0,0 +1,87 @@
+// Paths resolve into arbitrary JSON data, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * @description Resolves a dot-path (ex: "address.city" or "tags.0") against an object.
+ *
+ * @param {any} target - The object to read from.
+ * @param {string} path - The dot separated path to resolve.
+ *
+ * @returns {any} The value at the path, or `undefined` if any segment along the path is missing.
+ */
+const getPathValue = (target: any, path: string): any => {
+    let current = target
+
+    for (const segment of path.split(".")) {
+        if (current === null || typeof current !== "object") return undefined
+        current = current[segment]
+    }
+
+    return current
+}
+
+/**
+ * @description Returns whether a dot-path exists on an object, including paths that explicitly
+ * hold `undefined` or `null`.
+ *
+ * @param {any} target - The object to inspect.
+ * @param {string} path - The dot separated path to look up.
+ *
+ * @returns {boolean} Whether every segment of the path is present.
+ */
+const hasPath = (target: any, path: string): boolean => {
+    let current = target
+
+    for (const segment of path.split(".")) {
+        if (current === null || typeof current !== "object" || !(segment in current)) {
+            return false
+        }
+        current = current[segment]
+    }
+
+    return true
+}
+
+/**
+ * @description Sets the value at a dot-path on an object, creating the missing intermediate
+ * objects along the path.
+ *
+ * @param {any} target - The object to write to.
+ * @param {string} path - The dot separated path to write.
+ * @param {any} value - The value to set.
+ */
+const setPathValue = (target: any, path: string, value: any) => {
+    const segments = path.split(".")
+    let current = target
+
+    for (const segment of segments.slice(0, -1)) {
+        if (current[segment] === null || typeof current[segment] !== "object") {
+            current[segment] = {}
+        }
+        current = current[segment]
+    }
+
+    current[segments[segments.length - 1]] = value
+}
+
+/**
+ * @description Removes the value at a dot-path from an object, if present.
+ *
+ * @param {any} target - The object to remove from.
+ * @param {string} path - The dot separated path to remove.
+ */
+const deletePathValue = (target: any, path: string) => {
+    const segments = path.split(".")
+    const parent = segments.length > 1
+        ? getPathValue(target, segments.slice(0, -1).join("."))
+        : target
+
+    if (parent !== null && typeof parent === "object") delete parent[segments[segments.length - 1]]
+}
+
+export {
+    getPathValue,
+    hasPath,
+    setPathValue,
+    deletePathValue
+}
@@ -0,0 +1,194 @@
+// Queries match arbitrary JSON documents, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import deepEqual from "./deepEqual.js"
+import { getPathValue, hasPath } from "./objectPath.js"
+
+/**
+ * @interface QueryOperators
+ * @description Operators that can be used in place of a literal value for a single field.
+ * @property {any} [$eq] - Matches values deeply equal to the operand.
+ * @property {any} [$ne] - Matches values not deeply equal to the operand.
+ * @property {any} [$gt] - Matches values greater than the operand.
+ * @property {any} [$gte] - Matches values greater than or equal to the operand.
+ * @property {any} [$lt] - Matches values less than the operand.
+ * @property {any} [$lte] - Matches values less than or equal to the operand.
+ * @property {any[]} [$in] - Matches values deeply equal to any entry of the operand.
+ * @property {any[]} [$nin] - Matches values not deeply equal to any entry of the operand.
+ * @property {boolean} [$exists] - Matches when the field presence equals the operand.
+ * @property {RegExp | string} [$regex] - Matches string values against a regular expression.
+ * @property {string} [$options] - Flags used when `$regex` is given as a string.
+ * @property {QueryOperators | RegExp} [$not] - Inverts the result of the nested operators.
+ */
+export interface QueryOperators {
+    $eq?: any
+    $ne?: any
+    $gt?: any
+    $gte?: any
+    $lt?: any
+    $lte?: any
+    $in?: any[]
+    $nin?: any[]
+    $exists?: boolean
+    $regex?: RegExp | string
+    $options?: string
+    $not?: QueryOperators | RegExp
+}
+
+/**
+ * @type Query
+ * @description A query object. Each key is a field name or dot-path into nested objects, and each
+ * value is either a literal (matched by deep equality) or a `QueryOperators` object. The logical
+ * operators `$and`, `$or` and `$not` combine nested queries.
+ */
+export type Query = {
+    $and?: Query[]
+    $or?: Query[]
+    $not?: Query
+    [field: string]: any
+}
+
+/**
+ * @description Returns whether an object is made up of operator keys (keys starting with `$`).
+ *
+ * @param {any} value - The query value to inspect.
+ * @returns {boolean} Whether the value should be evaluated as a set of operators.
+ */
+const isOperatorObject = (value: any): boolean => {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) return false
+    if (value instanceof RegExp || value instanceof Date) return false
+
+    const keys = Object.keys(value)
+    return keys.length > 0 && keys.every(key => key.startsWith("$"))
+}
+
+/**
+ * @description Orders two values of the same primitive type, returning `undefined` when the values
+ * are not comparable (ex: a number against a string).
+ */
+const compareValues = (a: any, b: any): number | undefined => {
+    if (a instanceof Date) a = a.getTime()
+    if (b instanceof Date) b = b.getTime()
+
+    const comparable = ["number", "string", "bigint", "boolean"]
+    if (typeof a !== typeof b || !comparable.includes(typeof a)) return undefined
+
+    return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * @description Matches a value against a literal. Arrays match when they deeply equal the literal
+ * or when one of their elements does.
+ */
+const matchesLiteral = (value: any, literal: any): boolean => {
+    if (deepEqual(value, literal)) return true
+
+    if (literal instanceof RegExp) {
+        return typeof value === "string" && literal.test(value)
+    }
+
+    return Array.isArray(value) && value.some(item => deepEqual(item, literal))
+}
+
+/**
+ * @description Applies a comparison predicate to a value, or to each element when the value is an
+ * array.
+ */
+const matchesAny = (value: any, predicate: (item: any) => boolean): boolean =>
+    predicate(value) || (Array.isArray(value) && value.some(predicate))
+
+/**
+ * @description Evaluates every operator of a `QueryOperators` object against a field.
+ *
+ * @throws {Error} If an unknown operator is used.
+ */
+const matchesOperators = (
+    document: any,
+    path: string,
+    operators: QueryOperators
+): boolean => {
+    const value = getPathValue(document, path)
+
+    return Object.entries(operators).every(([operator, operand]) => {
+        switch (operator) {
+            case "$eq":
+                return matchesLiteral(value, operand)
+            case "$ne":
+                return !matchesLiteral(value, operand)
+            case "$gt":
+                return matchesAny(value, item => (compareValues(item, operand) ?? 0) > 0)
+            case "$gte":
+                return matchesAny(value, item => (compareValues(item, operand) ?? -1) >= 0)
+            case "$lt":
+                return matchesAny(value, item => (compareValues(item, operand) ?? 0) < 0)
+            case "$lte":
+                return matchesAny(value, item => (compareValues(item, operand) ?? 1) <= 0)
+            case "$in":
+                if (!Array.isArray(operand)) throw Error("$in requires an array")
+                return operand.some(candidate => matchesLiteral(value, candidate))
+            case "$nin":
+                if (!Array.isArray(operand)) throw Error("$nin requires an array")
+                return !operand.some(candidate => matchesLiteral(value, candidate))
+            case "$exists":
+                return hasPath(document, path) === Boolean(operand)
+            case "$regex": {
+                const regex = operand instanceof RegExp
+                    ? operand
+                    : new RegExp(operand, operators.$options)
+                return matchesAny(value, item => typeof item === "string" && regex.test(item))
+            }
+            case "$options":
+                return true // consumed by $regex
+            case "$not":
+                return operand instanceof RegExp
+                    ? !matchesAny(value, item => typeof item === "string" && operand.test(item))
+                    : !matchesOperators(document, path, operand)
+            default:
+                throw Error(`unknown query operator ${operator}`)
+        }
+    })
+}
+
+/**
+ * @description Tests whether a document matches a query. This is the single matcher shared by
+ * every query taking method so that all of them behave the same way.
+ *
+ * - Literal values are matched with deep equality, arrays also match on any contained element.
+ * - Keys may be dot-paths (ex: `"address.city"`) to reach into nested objects and arrays.
+ * - Operator objects (ex: `{ $gte: 18 }`) are evaluated with the operators in `QueryOperators`.
+ * - `$and`, `$or` and `$not` combine nested queries.
+ *
+ * @param {any} document - The document to test.
+ * @param {Query} [query] - The query to test against. An empty or missing query matches anything.
+ *
+ * @returns {boolean} Whether the document matches the query.
+ * @throws {Error} If the query uses an unknown or malformed operator.
+ */
+const matchesQuery = (document: any, query?: Query): boolean => {
+    if (!query) return true
+
+    return Object.entries(query).every(([key, condition]) => {
+        switch (key) {
+            case "$and":
+                if (!Array.isArray(condition)) throw Error("$and requires an array")
+                return condition.every(subQuery => matchesQuery(document, subQuery))
+            case "$or":
+                if (!Array.isArray(condition)) throw Error("$or requires an array")
+                return condition.some(subQuery => matchesQuery(document, subQuery))
+            case "$not":
+                return !matchesQuery(document, condition)
+        }
+
+        if (key.startsWith("$")) throw Error(`unknown query operator ${key}`)
+
+        return isOperatorObject(condition)
+            ? matchesOperators(document, key, condition)
+            : matchesLiteral(getPathValue(document, key), condition)
+    })
+}
+
+export {
+    matchesQuery,
+    isOperatorObject,
+    compareValues
+}
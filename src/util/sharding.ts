@@ -0,0 +1,125 @@
+import { readdirSync } from "fs"
+import { opendir, readdir, rmdir } from "fs/promises"
+import { createHash } from "crypto"
+import { join } from "path"
+
+// name of a shard directory, two lowercase hex characters of the hash of the _id
+const SHARD_DIR_PATTERN = /^[0-9a-f]{2}$/
+
+/**
+ * @description Returns whether a directory name within a collection directory is a shard.
+ *
+ * @param {string} name - The directory name.
+ *
+ * @returns {boolean} Whether the directory is a shard directory.
+ */
+const isShardDir = (name: string): boolean => SHARD_DIR_PATTERN.test(name)
+
+/**
+ * @description Returns whether a file name within a collection directory is a document file,
+ * hidden entries are internal.
+ *
+ * @param {string} name - The file name.
+ *
+ * @returns {boolean} Whether the file is a document file.
+ */
+const isDocumentFileName = (name: string): boolean =>
+    name.endsWith(".json") && !name.startsWith(".")
+
+/**
+ * @description Returns the path of the document file of an `_id`, relative to the collection
+ * directory. Sharded layouts nest the file in one directory per level, named after the sha1 hash
+ * of the `_id` (ex: `ab/cd/<_id>.json` for a depth of 2). Non-string ids are hashed in the string
+ * form their file is named after.
+ *
+ * @param {string} id - The `_id` of the document.
+ * @param {number} [depth] - The number of shard levels, `0` for a flat collection.
+ *
+ * @returns {string} The relative path of the document file.
+ */
+const documentFilePath = (id: string, depth: number = 0): string => {
+    if (depth === 0) return `${id}.json`
+
+    const hash = createHash("sha1").update(String(id)).digest("hex")
+    const shards = Array.from({ length: depth }, (_, level) => hash.slice(level * 2, level * 2 + 2))
+
+    return join(...shards, `${id}.json`)
+}
+
+/**
+ * @description Streams the relative paths of the document files of a collection directory laid out
+ * with the given shard depth. Files in other layouts are skipped.
+ *
+ * @param {string} collectionPath - The collection directory.
+ * @param {number} [depth] - The number of shard levels, `0` for a flat collection.
+ *
+ * @returns {AsyncGenerator<string>} The relative paths of the document files.
+ */
+async function* streamDocumentFiles(
+    collectionPath: string,
+    depth: number = 0,
+    prefix: string = ""
+): AsyncGenerator<string, void, undefined> {
+    for await (const entry of await opendir(join(collectionPath, prefix))) {
+        if (depth > 0) {
+            if (entry.isDirectory() && isShardDir(entry.name)) {
+                yield* streamDocumentFiles(collectionPath, depth - 1, join(prefix, entry.name))
+            }
+        } else if (entry.isFile() && isDocumentFileName(entry.name)) {
+            yield join(prefix, entry.name)
+        }
+    }
+}
+
+/**
+ * @description Synchronously lists the relative paths of the document files of a collection
+ * directory, see `streamDocumentFiles`.
+ *
+ * @param {string} collectionPath - The collection directory.
+ * @param {number} [depth] - The number of shard levels, `0` for a flat collection.
+ *
+ * @returns {string[]} The relative paths of the document files.
+ */
+const listDocumentFilesSync = (
+    collectionPath: string,
+    depth: number = 0,
+    prefix: string = ""
+): string[] => readdirSync(join(collectionPath, prefix), { withFileTypes: true })
+    .flatMap(entry => {
+        if (depth > 0) {
+            return entry.isDirectory() && isShardDir(entry.name)
+                ? listDocumentFilesSync(collectionPath, depth - 1, join(prefix, entry.name))
+                : []
+        }
+
+        return entry.isFile() && isDocumentFileName(entry.name) ? [join(prefix, entry.name)] : []
+    })
+
+/**
+ * @description Removes the empty shard directories of a collection directory, deepest first.
+ * Directories that still hold files are kept.
+ *
+ * @param {string} dir - The collection directory.
+ *
+ * @returns {Promise<void>} A promise that resolves once the empty directories are removed.
+ */
+const removeEmptyShardDirs = async (dir: string): Promise<void> => {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+        if (!entry.isDirectory() || !isShardDir(entry.name)) continue
+
+        const shardDir = join(dir, entry.name)
+        await removeEmptyShardDirs(shardDir)
+        await rmdir(shardDir).catch(error => {
+            if ((error as NodeJS.ErrnoException).code !== "ENOTEMPTY") throw error
+        })
+    }
+}
+
+export {
+    isShardDir,
+    isDocumentFileName,
+    documentFilePath,
+    streamDocumentFiles,
+    listDocumentFilesSync,
+    removeEmptyShardDirs
+}
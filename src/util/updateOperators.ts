@@ -0,0 +1,264 @@
+// Updates modify arbitrary JSON documents, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import deepEqual from "./deepEqual.js"
+import { getPathValue, hasPath, setPathValue, deletePathValue } from "./objectPath.js"
+import { compareValues, isOperatorObject, matchesQuery } from "./queryMatcher.js"
+
+/**
+ * @interface UpdateOperators
+ * @description Operators describing changes to a document. Each operator maps field names or
+ * dot-paths to its operand.
+ * @property {Record<string, any>} [$set] - Sets the value of fields.
+ * @property {Record<string, any>} [$unset] - Removes fields, the operands are ignored.
+ * @property {Record<string, number>} [$inc] - Adds to numeric fields, missing fields start at 0.
+ * @property {Record<string, number>} [$mul] - Multiplies numeric fields, missing fields become 0.
+ * @property {Record<string, any>} [$min] - Sets fields to the operand when it is smaller.
+ * @property {Record<string, any>} [$max] - Sets fields to the operand when it is greater.
+ * @property {Record<string, any>} [$push] - Appends to array fields, `{ $each: [] }` appends
+ * several values.
+ * @property {Record<string, any>} [$pull] - Removes the array elements equal to the operand, or
+ * matching it when it is an operator object (ex: `{ $lt: 5 }`).
+ * @property {Record<string, any>} [$addToSet] - Appends to array fields unless already present,
+ * `{ $each: [] }` adds several values.
+ * @property {Record<string, string>} [$rename] - Moves fields to a new name or dot-path.
+ * @property {Record<string, true | { $type: "date" | "timestamp" }>} [$currentDate] - Sets fields
+ * to the current time as an ISO date string (default) or a millisecond timestamp.
+ */
+export interface UpdateOperators {
+    $set?: Record<string, any>
+    $unset?: Record<string, any>
+    $inc?: Record<string, number>
+    $mul?: Record<string, number>
+    $min?: Record<string, any>
+    $max?: Record<string, any>
+    $push?: Record<string, any>
+    $pull?: Record<string, any>
+    $addToSet?: Record<string, any>
+    $rename?: Record<string, string>
+    $currentDate?: Record<string, true | { $type: "date" | "timestamp" }>
+}
+
+// the operators supported by `applyUpdateOperators`
+const UPDATE_OPERATORS = new Set([
+    "$set", "$unset", "$inc", "$mul", "$min", "$max",
+    "$push", "$pull", "$addToSet", "$rename", "$currentDate"
+])
+
+/**
+ * @description Returns whether an update is made of update operators rather than data to merge.
+ * The `_id` and `_rev` keys next to the operators identify the document and are ignored.
+ *
+ * @param {any} changes - The update to inspect.
+ * @returns {boolean} Whether the update should be applied with `applyUpdateOperators`.
+ * @throws {Error} If the update holds an unknown `$` key or mixes update operators with plain
+ * fields, which would otherwise be stored as is.
+ */
+const isUpdateOperators = (changes: any): boolean => {
+    if (changes === null || typeof changes !== "object" || Array.isArray(changes)) return false
+
+    const keys = Object.keys(changes).filter(key => key !== "_id" && key !== "_rev")
+    const operators = keys.filter(key => key.startsWith("$"))
+
+    const unknown = operators.find(key => !UPDATE_OPERATORS.has(key))
+    if (unknown) throw Error(`unknown update operator ${unknown}`)
+
+    if (operators.length > 0 && operators.length < keys.length) {
+        const fields = keys.filter(key => !key.startsWith("$"))
+        throw Error(
+            `an update cannot mix update operators (${operators.join(", ")}) with plain fields ` +
+            `(${fields.join(", ")}), use $set for the fields`
+        )
+    }
+
+    return operators.length > 0
+}
+
+/**
+ * @description Returns whether a value is a plain object that can be merged into.
+ */
+const isPlainObject = (value: any): boolean =>
+    value !== null && typeof value === "object" && !Array.isArray(value) &&
+    !(value instanceof Date) && !(value instanceof RegExp)
+
+/**
+ * @description Deep merges the source into the target: nested plain objects are merged key by key
+ * while any other value (including arrays) replaces the target value.
+ *
+ * @param {any} target - The object to merge into, modified in place.
+ * @param {any} source - The changes to merge.
+ *
+ * @returns {any} The target.
+ */
+const mergeDeep = (target: any, source: any): any => {
+    for (const [key, value] of Object.entries(source)) {
+        if (isPlainObject(value) && isPlainObject(target[key])) {
+            mergeDeep(target[key], value)
+        } else {
+            target[key] = structuredClone(value)
+        }
+    }
+
+    return target
+}
+
+/**
+ * @description Reads the array at a path for an array operator, missing fields start empty.
+ *
+ * @throws {Error} If the field holds a value that is not an array.
+ */
+const arrayAt = (document: any, path: string, operator: string): any[] => {
+    const value = getPathValue(document, path)
+    if (value === undefined) return []
+    if (!Array.isArray(value)) throw Error(`${operator} requires ${path} to be an array`)
+
+    return value
+}
+
+/**
+ * @description Returns the values an array operator adds, unwrapping `{ $each: [] }`.
+ */
+const eachValue = (operand: any): any[] =>
+    isPlainObject(operand) && Array.isArray(operand.$each) ? operand.$each : [operand]
+
+/**
+ * @description Reads the number at a path for an arithmetic operator.
+ *
+ * @throws {Error} If the operand or the field holds a value that is not a number.
+ */
+const numberAt = (document: any, path: string, operand: any, operator: string): number => {
+    if (typeof operand !== "number") throw Error(`${operator} requires a number for ${path}`)
+
+    const value = getPathValue(document, path) ?? 0
+    if (typeof value !== "number") throw Error(`${operator} requires ${path} to be a number`)
+
+    return value
+}
+
+/**
+ * @description Applies update operators to a copy of a document. Operators are applied in the
+ * order they are listed, each to every field it names.
+ *
+ * @param {any} document - The document to update.
+ * @param {UpdateOperators} update - The operators to apply, `_id` and `_rev` keys are ignored.
+ *
+ * @returns {any} The updated copy of the document.
+ * @throws {Error} If an operator is unknown or used on a field of the wrong type.
+ */
+const applyUpdateOperators = (document: any, update: UpdateOperators): any => {
+    const updated = structuredClone(document)
+
+    for (const [operator, fields] of Object.entries(update)) {
+        if (operator === "_id" || operator === "_rev") continue
+        if (!isPlainObject(fields)) throw Error(`${operator} requires an object of fields`)
+
+        for (const [path, operand] of Object.entries(fields as Record<string, any>)) {
+            switch (operator) {
+                case "$set":
+                    setPathValue(updated, path, structuredClone(operand))
+                    break
+                case "$unset":
+                    deletePathValue(updated, path)
+                    break
+                case "$inc":
+                    setPathValue(
+                        updated,
+                        path,
+                        numberAt(updated, path, operand, operator) + operand
+                    )
+                    break
+                case "$mul":
+                    setPathValue(
+                        updated,
+                        path,
+                        numberAt(updated, path, operand, operator) * operand
+                    )
+                    break
+                case "$min":
+                case "$max": {
+                    const current = getPathValue(updated, path)
+                    const comparison = compareValues(operand, current)
+                    const replaces = operator === "$min" ? comparison! < 0 : comparison! > 0
+
+                    if (current === undefined || (comparison !== undefined && replaces)) {
+                        setPathValue(updated, path, structuredClone(operand))
+                    }
+                    break
+                }
+                case "$push":
+                    setPathValue(updated, path, [
+                        ...arrayAt(updated, path, operator),
+                        ...structuredClone(eachValue(operand))
+                    ])
+                    break
+                case "$addToSet": {
+                    const values = [...arrayAt(updated, path, operator)]
+                    for (const value of eachValue(operand)) {
+                        if (!values.some(item => deepEqual(item, value))) {
+                            values.push(structuredClone(value))
+                        }
+                    }
+                    setPathValue(updated, path, values)
+                    break
+                }
+                case "$pull": {
+                    const removes = (item: any) => isOperatorObject(operand)
+                        ? matchesQuery({ item }, { item: operand })
+                        : deepEqual(item, operand)
+
+                    setPathValue(
+                        updated,
+                        path,
+                        arrayAt(updated, path, operator).filter(item => !removes(item))
+                    )
+                    break
+                }
+                case "$rename":
+                    if (typeof operand !== "string") throw Error(`$rename requires a new name`)
+                    if (!hasPath(updated, path)) break
+
+                    setPathValue(updated, operand, getPathValue(updated, path))
+                    deletePathValue(updated, path)
+                    break
+                case "$currentDate":
+                    setPathValue(
+                        updated,
+                        path,
+                        operand?.$type === "timestamp" ? Date.now() : new Date().toISOString()
+                    )
+                    break
+                default:
+                    throw Error(`unknown update operator ${operator}`)
+            }
+        }
+    }
+
+    return updated
+}
+
+/**
+ * @description Applies an update to a copy of a document: update operators when every key (other
+ * than `_id` and `_rev`) is an operator, else a deep merge of the data, see `mergeDeep`.
+ *
+ * @param {any} document - The document to update.
+ * @param {any} changes - Update operators or the data to merge.
+ *
+ * @returns {any} The updated copy of the document.
+ * @throws {Error} If the update changes the `_id` of the document or an operator is invalid.
+ */
+const applyUpdate = (document: any, changes: any): any => {
+    const updated = isUpdateOperators(changes)
+        ? applyUpdateOperators(document, changes)
+        : mergeDeep(structuredClone(document), changes)
+
+    if (document._id !== undefined && updated._id !== document._id) {
+        throw Error("cannot change the _id of a document")
+    }
+
+    return updated
+}
+
+export {
+    isUpdateOperators,
+    applyUpdate
+}
@@ -0,0 +1,193 @@
+// Schemas validate arbitrary JSON data, disabling linting rule for 'no use of type: any'
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import deepEqual from "./deepEqual.js"
+
+/**
+ * @type SchemaType
+ * @description The value types a schema can require. `integer` only accepts whole numbers.
+ */
+export type SchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null"
+
+/**
+ * @interface CollectionSchema
+ * @description A dependency free subset of JSON-Schema used to validate collection documents.
+ * @property {SchemaType | SchemaType[]} [type] - The accepted type(s) of the value.
+ * @property {any[]} [enum] - The only accepted values, compared with deep equality.
+ * @property {number} [minimum] - Smallest accepted number.
+ * @property {number} [maximum] - Largest accepted number.
+ * @property {number} [minLength] - Smallest accepted string length.
+ * @property {number} [maxLength] - Largest accepted string length.
+ * @property {string} [pattern] - Regular expression strings must match.
+ * @property {Record<string, CollectionSchema>} [properties] - Schemas of the object properties.
+ * @property {string[]} [required] - Object properties that must be present.
+ * @property {boolean | CollectionSchema} [additionalProperties] - Whether (or how) properties not
+ * listed in `properties` are accepted, accepted by default.
+ * @property {CollectionSchema} [items] - Schema of every array element.
+ * @property {number} [minItems] - Smallest accepted array length.
+ * @property {number} [maxItems] - Largest accepted array length.
+ */
+export interface CollectionSchema {
+    type?: SchemaType | SchemaType[]
+    enum?: any[]
+    minimum?: number
+    maximum?: number
+    minLength?: number
+    maxLength?: number
+    pattern?: string
+    properties?: Record<string, CollectionSchema>
+    required?: string[]
+    additionalProperties?: boolean | CollectionSchema
+    items?: CollectionSchema
+    minItems?: number
+    maxItems?: number
+}
+
+/**
+ * @interface ValidationIssue
+ * @description A single schema violation.
+ * @property {string} path - Dot-path of the invalid value, empty for the document itself.
+ * @property {string} message - Description of the violation.
+ */
+export interface ValidationIssue {
+    path: string
+    message: string
+}
+
+/**
+ * @class SchemaValidationError
+ * @classdesc Thrown when a document written to a collection does not conform to its schema.
+ */
+export class SchemaValidationError extends Error {
+
+    readonly collection: string
+    readonly issues: ValidationIssue[]
+
+    /**
+     * @constructor
+     * @param {string} collection - The collection whose schema was violated.
+     * @param {ValidationIssue[]} issues - The violations found.
+     */
+    constructor(collection: string, issues: ValidationIssue[]) {
+        const paths = issues.map(issue => issue.path || "(document)").join(", ")
+
+        super(`document does not match the ${collection} schema at: ${paths}`)
+        this.name = "SchemaValidationError"
+        this.collection = collection
+        this.issues = issues
+    }
+}
+
+/**
+ * @description Returns the schema type of a value.
+ */
+const typeOf = (value: any): SchemaType | "undefined" => {
+    if (value === null) return "null"
+    if (Array.isArray(value)) return "array"
+    if (typeof value === "object") return "object"
+    if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number"
+
+    return typeof value as SchemaType | "undefined"
+}
+
+/**
+ * @description Joins a parent dot-path and a child key.
+ */
+const childPath = (path: string, key: string | number): string =>
+    path ? `${path}.${key}` : String(key)
+
+/**
+ * @description Validates a value against a schema, collecting every violation rather than
+ * stopping at the first one.
+ *
+ * @param {CollectionSchema} schema - The schema to validate against.
+ * @param {any} value - The value to validate.
+ * @param {string} [path] - Dot-path of the value, used in the reported issues.
+ *
+ * @returns {ValidationIssue[]} The violations found, empty when the value is valid.
+ */
+const validateSchema = (schema: CollectionSchema, value: any, path = ""): ValidationIssue[] => {
+    const issues: ValidationIssue[] = []
+    const issue = (message: string) => issues.push({ path, message })
+    const valueType = typeOf(value)
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+        const matchesType = types.some(type =>
+            type === valueType || (type === "number" && valueType === "integer"))
+
+        if (!matchesType) {
+            issue(`expected ${types.join(" or ")} but received ${valueType}`)
+            return issues
+        }
+    }
+
+    if (schema.enum && !schema.enum.some(option => deepEqual(option, value))) {
+        issue(`must be one of ${JSON.stringify(schema.enum)}`)
+    }
+
+    if (typeof value === "number") {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            issue(`must be >= ${schema.minimum}`)
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            issue(`must be <= ${schema.maximum}`)
+        }
+    }
+
+    if (typeof value === "string") {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            issue(`must be at least ${schema.minLength} characters`)
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            issue(`must be at most ${schema.maxLength} characters`)
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            issue(`must match pattern ${schema.pattern}`)
+        }
+    }
+
+    if (valueType === "object") {
+        for (const key of schema.required ?? []) {
+            if (value[key] === undefined) {
+                issues.push({ path: childPath(path, key), message: "is required" })
+            }
+        }
+
+        for (const [key, propertyValue] of Object.entries(value)) {
+            const propertySchema = schema.properties?.[key]
+
+            if (propertySchema) {
+                issues.push(...validateSchema(propertySchema, propertyValue, childPath(path, key)))
+            } else if (schema.additionalProperties === false) {
+                issues.push({ path: childPath(path, key), message: "is not an allowed property" })
+            } else if (typeof schema.additionalProperties === "object") {
+                issues.push(...validateSchema(
+                    schema.additionalProperties,
+                    propertyValue,
+                    childPath(path, key)
+                ))
+            }
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            issue(`must contain at least ${schema.minItems} items`)
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            issue(`must contain at most ${schema.maxItems} items`)
+        }
+        if (schema.items) {
+            value.forEach((item, index) => {
+                issues.push(...validateSchema(schema.items!, item, childPath(path, index)))
+            })
+        }
+    }
+
+    return issues
+}
+
+export {
+    validateSchema
+}
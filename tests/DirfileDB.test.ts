@@ -1,9 +1,31 @@
-import DirfileDB, { DirfileDBMetadataFile, KeyValuePair } from "../src/DirfileDB.js"
+import DirfileDB, {
+    ConflictError,
+    DirfileDBEvents,
+    DirfileDBMetadataFile,
+    KeyValuePair,
+    LockError,
+    SchemaValidationError
+} from "../src/DirfileDB.js"
+import Cli from "../src/Cli.js"
+import Cipher from "../src/Cipher.js"
+import LockManager from "../src/LockManager.js"
+import Migrator from "../src/Migrator.js"
 import path from "path"
 import assert from "node:assert"
 import { readFile } from "node:fs/promises"
 import { test } from "@kistools/test"
-import { PathLike, readFileSync } from "node:fs"
+import {
+    PathLike,
+    existsSync,
+    mkdirSync,
+    readFileSync,
+    readdirSync,
+    rmSync,
+    utimesSync,
+    writeFileSync
+} from "node:fs"
+import { hostname } from "node:os"
+import { createHash, randomBytes } from "node:crypto"
 
 //directory to contain all test DirfileDB databases
 const rootTestDbsDir = "./testDBs/"
@@ -418,3 +440,2574 @@ test("deleteAll", {
         })
     ]
 })
+
+const queryDBDir = `${rootTestDbsDir}.queryDB`
+const queryCollection = "query-collection"
+const queryTestData = [
+    { _id: "q1", name: "alice", age: 31, tags: ["admin", "dev"], address: { city: "Oslo" } },
+    { _id: "q2", name: "bob", age: 25, tags: ["dev"], address: { city: "Bergen" } },
+    { _id: "q3", name: "carol", age: 42, tags: [], address: { city: "Oslo", zip: "0150" } }
+]
+const seedQueryDB = async () => {
+    const testDB = newDB(queryDBDir)
+    await testDB.newCollection(queryCollection)
+    await testDB.deleteAll(queryCollection, {})
+    for (const data of queryTestData) await testDB.create(queryCollection, data)
+    return testDB
+}
+const queryIds = (documents: { _id: string }[]) => documents.map(doc => doc._id).sort()
+test("query operators", {
+    subTests: [
+        test("matches comparison operators", async () => {
+            const testDB = await seedQueryDB()
+
+            const documents = await testDB.findAll(
+                queryCollection,
+                { age: { $gte: 30, $lt: 42 } }
+            )
+            assert.deepEqual(queryIds(documents), ["q1"])
+
+            const notBob = await testDB.findAll(queryCollection, { name: { $ne: "bob" } })
+            assert.deepEqual(queryIds(notBob), ["q1", "q3"])
+        }),
+
+        test("matches $in, $nin, $exists and $regex", async () => {
+            const testDB = await seedQueryDB()
+
+            const inNames = await testDB.findAll(
+                queryCollection,
+                { name: { $in: ["bob", "carol"] } }
+            )
+            assert.deepEqual(queryIds(inNames), ["q2", "q3"])
+
+            const notIn = await testDB.findAll(queryCollection, { name: { $nin: ["bob"] } })
+            assert.deepEqual(queryIds(notIn), ["q1", "q3"])
+
+            const withZip = await testDB.findAll(
+                queryCollection,
+                { "address.zip": { $exists: true } }
+            )
+            assert.deepEqual(queryIds(withZip), ["q3"])
+
+            const regex = await testDB.findAll(
+                queryCollection,
+                { name: { $regex: "^A", $options: "i" } }
+            )
+            assert.deepEqual(queryIds(regex), ["q1"])
+        }),
+
+        test("matches logical $and, $or and $not", async () => {
+            const testDB = await seedQueryDB()
+
+            const documents = await testDB.findAll(queryCollection, {
+                $or: [{ name: "bob" }, { $and: [{ "address.city": "Oslo" }, { age: { $gt: 40 } }] }]
+            })
+            assert.deepEqual(queryIds(documents), ["q2", "q3"])
+
+            const negated = await testDB.findAll(
+                queryCollection,
+                { $not: { "address.city": "Oslo" } }
+            )
+            assert.deepEqual(queryIds(negated), ["q2"])
+        }),
+
+        test("matches arrays and nested objects with deep equality", async () => {
+            const testDB = await seedQueryDB()
+
+            const exactArray = await testDB.find(queryCollection, { tags: ["admin", "dev"] })
+            assert.equal(exactArray?._id, "q1")
+
+            const containsTag = await testDB.findAll(queryCollection, { tags: "dev" })
+            assert.deepEqual(queryIds(containsTag), ["q1", "q2"])
+
+            const nested = await testDB.find(queryCollection, { address: { city: "Bergen" } })
+            assert.equal(nested?._id, "q2")
+        }),
+
+        test("shares the matcher with deleteAll", async () => {
+            const testDB = await seedQueryDB()
+
+            await testDB.deleteAll(queryCollection, { age: { $lt: 40 } })
+
+            const documents = await testDB.findAll(queryCollection)
+            assert.deepEqual(queryIds(documents), ["q3"])
+        })
+    ]
+})
+
+const indexDBDir = `${rootTestDbsDir}.indexDB`
+const indexCollection = "index-collection"
+test("indexes", {
+    subTests: [
+        test("creates, lists and persists an index", async () => {
+            const testDB = newDB(indexDBDir)
+            await testDB.newCollection(indexCollection)
+            await testDB.create(indexCollection, { _id: "i1", email: "a@test.com", age: 20 })
+
+            const definition = await testDB.createIndex(indexCollection, "email", { unique: true })
+            assert.deepEqual(definition, { field: "email", unique: true })
+
+            const reconnectDB = newDB(indexDBDir)
+            assert.deepEqual(reconnectDB.listIndexes(indexCollection), [definition])
+        }),
+
+        test("rejects duplicate values on a unique index", async () => {
+            const testDB = newDB(indexDBDir)
+
+            await assert.rejects(
+                testDB.create(indexCollection, { _id: "i2", email: "a@test.com" })
+            )
+        }),
+
+        test("rejects duplicate _id on create", async () => {
+            const testDB = newDB(indexDBDir)
+
+            await assert.rejects(testDB.create(indexCollection, { _id: "i1", email: "b@test.com" }))
+        }),
+
+        test("keeps the index up to date on update and delete", async () => {
+            const testDB = newDB(indexDBDir)
+            await testDB.create(indexCollection, { _id: "i3", email: "c@test.com", age: 30 })
+            await testDB.update(indexCollection, { _id: "i3", email: "d@test.com" })
+
+            assert.equal(await testDB.find(indexCollection, { email: "c@test.com" }), null)
+            assert.equal((await testDB.find(indexCollection, { email: "d@test.com" }))?._id, "i3")
+
+            await testDB.delete(indexCollection, { email: "d@test.com" })
+            await testDB.create(indexCollection, { _id: "i4", email: "d@test.com" })
+        }),
+
+        test("answers range queries from the index", async () => {
+            const testDB = newDB(indexDBDir)
+            await testDB.createIndex(indexCollection, "age")
+            await testDB.create(indexCollection, { _id: "i5", email: "e@test.com", age: 40 })
+
+            const documents = await testDB.findAll(indexCollection, { age: { $gte: 20, $lt: 40 } })
+            assert.deepEqual(documents.map(doc => doc._id), ["i1"])
+        }),
+
+        test("drops an index", async () => {
+            const testDB = newDB(indexDBDir)
+            await testDB.dropIndex(indexCollection, "email")
+
+            assert.deepEqual(testDB.listIndexes(indexCollection), [{ field: "age", unique: false }])
+            await testDB.create(indexCollection, { _id: "i6", email: "a@test.com" })
+        })
+    ]
+})
+
+const cacheDBDir = `${rootTestDbsDir}.cacheDB`
+const cacheCollection = "cache-collection"
+test("cache", {
+    subTests: [
+        test("answers repeated reads from the cache", async () => {
+            const testDB = new DirfileDB({ rootDir: cacheDBDir, cache: { maxEntries: 10 } })
+            await testDB.newCollection(cacheCollection)
+            await testDB.create(cacheCollection, { _id: "c1", value: 1 })
+
+            await testDB.find(cacheCollection, { _id: "c1" })
+            await testDB.find(cacheCollection, { _id: "c1" })
+
+            const stats = testDB.getCacheStats()
+            assert.equal(stats?.hits, 2)
+            assert.equal(stats?.misses, 0)
+        }),
+
+        test("returns copies that cannot mutate the cache", async () => {
+            const testDB = new DirfileDB({ rootDir: cacheDBDir, cache: {} })
+            await testDB.create(cacheCollection, { _id: "c2", value: 1 })
+
+            const document = await testDB.find(cacheCollection, { _id: "c2" })
+            document.value = 2
+
+            assert.equal((await testDB.find(cacheCollection, { _id: "c2" })).value, 1)
+        }),
+
+        test("stays consistent with update and delete", async () => {
+            const testDB = new DirfileDB({ rootDir: cacheDBDir, cache: {} })
+            await testDB.create(cacheCollection, { _id: "c3", value: 1 })
+            await testDB.find(cacheCollection, { _id: "c3" })
+
+            await testDB.update(cacheCollection, { _id: "c3", value: 2 })
+            assert.equal((await testDB.find(cacheCollection, { _id: "c3" })).value, 2)
+
+            await testDB.delete(cacheCollection, { _id: "c3" })
+            assert.equal(await testDB.find(cacheCollection, { _id: "c3" }), null)
+        }),
+
+        test("evicts least recently used entries", async () => {
+            const testDB = new DirfileDB({ rootDir: cacheDBDir, cache: { maxEntries: 2 } })
+            await testDB.create(cacheCollection, { _id: "c4" })
+            await testDB.create(cacheCollection, { _id: "c5" })
+            await testDB.find(cacheCollection, { _id: "c4" })
+            await testDB.create(cacheCollection, { _id: "c6" })
+
+            assert.equal(testDB.getCacheStats()?.evictions, 1)
+
+            await testDB.find(cacheCollection, { _id: "c4" })
+            assert.equal(testDB.getCacheStats()?.misses, 0)
+
+            await testDB.find(cacheCollection, { _id: "c5" })
+            assert.equal(testDB.getCacheStats()?.misses, 1)
+        }),
+
+        test("evicts least frequently used entries", async () => {
+            const testDB = new DirfileDB({
+                rootDir: cacheDBDir,
+                cache: { maxEntries: 2, eviction: "lfu" }
+            })
+            await testDB.create(cacheCollection, { _id: "c7" })
+            await testDB.create(cacheCollection, { _id: "c8" })
+            await testDB.find(cacheCollection, { _id: "c8" })
+            await testDB.create(cacheCollection, { _id: "c9" })
+
+            await testDB.find(cacheCollection, { _id: "c8" })
+            assert.equal(testDB.getCacheStats()?.misses, 0)
+        }),
+
+        test("drops cached documents of a deleted collection", async () => {
+            const testDB = new DirfileDB({ rootDir: cacheDBDir, cache: {} })
+            await testDB.newCollection("cache-drop")
+            await testDB.create("cache-drop", { _id: "d1" })
+
+            await testDB.deleteCollection("cache-drop")
+
+            assert.equal(testDB.getCacheStats()?.entries, 0)
+        })
+    ]
+})
+
+const collectionInfoDBDir = `${rootTestDbsDir}.collectionInfoDB`
+const infoCollection = "info-collection"
+test("getCollectionInfo", {
+    subTests: [
+        test("writes a metadata file in the collection directory", async () => {
+            const testDB = newDB(collectionInfoDBDir)
+            const collectionPath = await testDB.newCollection(infoCollection)
+
+            const rawMetadata = readFileSync(
+                path.join(collectionPath.toString(), DirfileDB.COLLECTION_METADATA_FILENAME),
+                { encoding: "utf8" }
+            )
+
+            assert.equal(JSON.parse(rawMetadata).name, infoCollection)
+        }),
+
+        test("tracks document count and size", async () => {
+            const testDB = newDB(collectionInfoDBDir)
+            await testDB.create(infoCollection, { _id: "m1", value: "a" })
+            await testDB.create(infoCollection, { _id: "m2", value: "b" })
+            await testDB.update(infoCollection, { _id: "m2", value: "longer value" })
+            await testDB.delete(infoCollection, { _id: "m1" })
+
+            const info = testDB.getCollectionInfo(infoCollection)
+            const file = readFileSync(
+                path.join(testDB.getCollection(infoCollection)!.toString(), "m2.json")
+            )
+
+            assert.equal(info?.documentCount, 1)
+            assert.equal(info?.totalSize, file.byteLength)
+        }),
+
+        test("loads collection metadata when reconnecting", async () => {
+            const testDB = newDB(collectionInfoDBDir)
+            await testDB.createIndex(infoCollection, "value")
+
+            const reconnectDB = newDB(collectionInfoDBDir)
+
+            assert.deepEqual(
+                reconnectDB.getCollectionInfo(infoCollection),
+                testDB.getCollectionInfo(infoCollection)
+            )
+            assert.deepEqual(
+                reconnectDB.getCollectionInfo(infoCollection)?.settings.indexes,
+                [{ field: "value", unique: false }]
+            )
+        }),
+
+        test("generates ids with the collection id strategy", async () => {
+            const testDB = newDB(collectionInfoDBDir)
+            await testDB.newCollection("timestamp-ids", { idStrategy: "timestamp" })
+            await testDB.create("timestamp-ids", { value: 1 })
+
+            const files = readdirSync(testDB.getCollection("timestamp-ids")!)
+                .filter(file => !file.startsWith("."))
+
+            assert.match(files[0], /^[0-9a-z]{10}-[0-9a-f]{12}\.json$/)
+            assert.equal(
+                testDB.getCollectionInfo("timestamp-ids")?.settings.idStrategy,
+                "timestamp"
+            )
+        }),
+
+        test("deleteCollection updates the metadata file", async () => {
+            const testDB = newDB(collectionInfoDBDir)
+            await testDB.newCollection("info-delete")
+            await testDB.deleteCollection("info-delete")
+
+            const metadataFilePath = path.resolve(collectionInfoDBDir, DirfileDB.METADATA_FILENAME)
+            const metadataFile = JSON.parse(readFileSync(metadataFilePath, { encoding: "utf8" }))
+
+            assert(!metadataFile.collections.some(
+                (pair: KeyValuePair<string, PathLike>) => pair[0] === "info-delete"))
+            assert.equal(testDB.getCollectionInfo("info-delete"), undefined)
+        })
+    ]
+})
+
+const atomicWriteDBDir = `${rootTestDbsDir}.atomicWriteDB`
+const atomicCollection = "atomic-collection"
+test("atomic writes", {
+    subTests: [
+        test("leaves no temporary files after writes", async () => {
+            const testDB = newDB(atomicWriteDBDir)
+            await testDB.newCollection(atomicCollection)
+            await testDB.create(atomicCollection, { _id: "a1", value: 1 })
+            await testDB.update(atomicCollection, { _id: "a1", value: 2 })
+
+            const files = readdirSync(testDB.getCollection(atomicCollection)!)
+            assert.deepEqual(files.sort(), [DirfileDB.COLLECTION_METADATA_FILENAME, "a1.json"])
+        }),
+
+        test("init removes temporary files left by an interrupted write", async () => {
+            const collectionPath = path.join(atomicWriteDBDir, atomicCollection)
+            const leftoverDocument = path.join(collectionPath, ".a1.json.0a1b2c3d4e5f.dirfile-tmp")
+            const leftoverMetadata = path.join(
+                atomicWriteDBDir,
+                `.${DirfileDB.METADATA_FILENAME}.0a1b2c3d4e5f.dirfile-tmp`
+            )
+            writeFileSync(leftoverDocument, "{ \"_id\": \"a1\", \"val")
+            writeFileSync(leftoverMetadata, "{")
+
+            const testDB = newDB(atomicWriteDBDir)
+
+            assert(!existsSync(leftoverDocument))
+            assert(!existsSync(leftoverMetadata))
+            assert.equal((await testDB.find(atomicCollection, { _id: "a1" })).value, 2)
+        }),
+
+        test("init keeps the temporary files of a running writer", async () => {
+            const writing = path.join(
+                atomicWriteDBDir,
+                atomicCollection,
+                `.a1.json.${process.pid}.0a1b2c3d4e5f.dirfile-tmp`
+            )
+            writeFileSync(writing, "{ \"_id\": \"a1\", \"val")
+
+            const testDB = newDB(atomicWriteDBDir)
+
+            assert(existsSync(writing))
+            assert.equal((await testDB.find(atomicCollection, { _id: "a1" })).value, 2)
+            rmSync(writing)
+        }),
+
+        test("init checks the host and age of temporary files", () => {
+            const collectionPath = path.join(atomicWriteDBDir, atomicCollection)
+            const tempFile = (writer: string, modifiedAt?: Date) => {
+                const filePath = path.join(collectionPath, `.a1.json.${writer}.0a1b.dirfile-tmp`)
+                writeFileSync(filePath, "{ \"_id\": \"a1\", \"val")
+                if (modifiedAt) utimesSync(filePath, modifiedAt, modifiedAt)
+
+                return filePath
+            }
+
+            // the process id of a file written before the host started was reused since
+            const beforeBoot = tempFile(`${process.pid}`, new Date(0))
+            const otherHostWriting = tempFile(`${process.pid}@another-host`)
+            const otherHostAbandoned = tempFile("1@another-host", new Date(Date.now() - 60000))
+
+            newDB(atomicWriteDBDir)
+
+            assert(!existsSync(beforeBoot))
+            assert(existsSync(otherHostWriting))
+            assert(!existsSync(otherHostAbandoned))
+            rmSync(otherHostWriting)
+        })
+    ]
+})
+
+const transactionDBDir = `${rootTestDbsDir}.transactionDB`
+test("transaction", {
+    subTests: [
+        test("commits writes across collections", async () => {
+            const testDB = newDB(transactionDBDir)
+            await testDB.newCollection("orders")
+            await testDB.newCollection("stock")
+            await testDB.create("stock", { _id: "book", count: 3 })
+
+            await testDB.transaction(async tx => {
+                const order = await tx.create("orders", { _id: "o1", item: "book" })
+                await tx.update("stock", { _id: "book", count: 2, lastOrder: order._id })
+            })
+
+            assert.equal((await testDB.find("orders", { _id: "o1" })).item, "book")
+            assert.equal((await testDB.find("stock", { _id: "book" })).lastOrder, "o1")
+            assert.deepEqual(
+                readdirSync(path.join(transactionDBDir, DirfileDB.JOURNAL_DIRNAME)),
+                []
+            )
+        }),
+
+        test("reads its own writes before committing", async () => {
+            const testDB = newDB(transactionDBDir)
+
+            await testDB.transaction(async tx => {
+                await tx.create("orders", { _id: "o2", item: "pen" })
+                await tx.delete("orders", { _id: "o1" })
+
+                assert.equal((await tx.find("orders", { item: "pen" }))?._id, "o2")
+                assert.equal(await tx.find("orders", { _id: "o1" }), null)
+                assert.equal(await testDB.find("orders", { _id: "o2" }), null)
+            })
+
+            assert.equal(await testDB.find("orders", { _id: "o1" }), null)
+            assert.equal(testDB.getCollectionInfo("orders")?.documentCount, 1)
+        }),
+
+        test("writes nothing when the callback throws", async () => {
+            const testDB = newDB(transactionDBDir)
+
+            await assert.rejects(testDB.transaction(async tx => {
+                await tx.create("orders", { _id: "o3" })
+                throw Error("abort")
+            }))
+
+            assert.equal(await testDB.find("orders", { _id: "o3" }), null)
+        }),
+
+        test("deletes documents stored without an _id field", async () => {
+            const testDB = newDB(transactionDBDir)
+            await testDB.newCollection("legacy")
+            const legacyFile = path.join(transactionDBDir, "legacy", "l1.json")
+            writeFileSync(legacyFile, JSON.stringify({ item: "lamp" }))
+
+            await testDB.transaction(async tx => {
+                await tx.delete("legacy", { item: "lamp" })
+                assert.deepEqual(await tx.findAll("legacy"), [])
+            })
+
+            assert(!existsSync(legacyFile))
+        }),
+
+        test("fails when a document changed since it was read", async () => {
+            const testDB = newDB(transactionDBDir)
+            await testDB.create("stock", { _id: "pen", count: 5 })
+
+            await assert.rejects(testDB.transaction(async tx => {
+                await tx.update("stock", { _id: "pen", count: 4 })
+                await testDB.update("stock", { _id: "pen", count: 9 })
+            }), ConflictError)
+            await assert.rejects(testDB.transaction(async tx => {
+                await tx.create("stock", { _id: "ink" })
+                await testDB.create("stock", { _id: "ink", count: 1 })
+            }), /changed since it was read/)
+
+            assert.equal((await testDB.find("stock", { _id: "pen" })).count, 9)
+            assert.equal((await testDB.find("stock", { _id: "ink" })).count, 1)
+            await testDB.delete("stock", { _id: "pen" })
+            await testDB.delete("stock", { _id: "ink" })
+        }),
+
+        test("checks staged writes against each other on unique indexes", async () => {
+            const testDB = newDB(transactionDBDir)
+            await testDB.newCollection("accounts")
+            await testDB.createIndex("accounts", "email", { unique: true })
+            await testDB.create("accounts", { _id: "a1", email: "taken@test.com" })
+
+            await assert.rejects(testDB.transaction(async tx => {
+                await tx.create("accounts", { _id: "a2", email: "dup@test.com" })
+                await tx.create("accounts", { _id: "a3", email: "dup@test.com" })
+            }), /duplicate value/)
+            assert.equal(await testDB.count("accounts"), 1)
+
+            // a value freed by a staged write can be taken by another one
+            await testDB.transaction(async tx => {
+                await tx.delete("accounts", { _id: "a1" })
+                await tx.create("accounts", { _id: "a4", email: "taken@test.com" })
+            })
+            assert.equal((await testDB.find("accounts", { email: "taken@test.com" }))?._id, "a4")
+        }),
+
+        test("init replays a committed journal", async () => {
+            const journalDir = path.join(transactionDBDir, DirfileDB.JOURNAL_DIRNAME)
+            mkdirSync(journalDir, { recursive: true })
+            writeFileSync(path.join(journalDir, "crashed.json"), JSON.stringify({
+                _id: "crashed",
+                state: "committed",
+                createdAt: new Date().toISOString(),
+                operations: [{
+                    type: "put",
+                    collection: "orders",
+                    id: "o4",
+                    document: { _id: "o4" },
+                    previous: null
+                }]
+            }))
+
+            const testDB = newDB(transactionDBDir)
+
+            assert((await testDB.find("orders", { _id: "o4" })))
+            assert.equal(testDB.getCollectionInfo("orders")?.documentCount, 2)
+            assert(!existsSync(path.join(journalDir, "crashed.json")))
+        }),
+
+        test("init rolls back a journal that was rolling back", async () => {
+            const journalDir = path.join(transactionDBDir, DirfileDB.JOURNAL_DIRNAME)
+            writeFileSync(path.join(journalDir, "rollback.json"), JSON.stringify({
+                _id: "rollback",
+                state: "rolling-back",
+                createdAt: new Date().toISOString(),
+                operations: [{
+                    type: "put",
+                    collection: "stock",
+                    id: "book",
+                    document: { _id: "book", count: 0 },
+                    previous: { _id: "book", count: 2 }
+                }]
+            }))
+
+            const testDB = newDB(transactionDBDir)
+
+            assert.equal((await testDB.find("stock", { _id: "book" })).count, 2)
+        }),
+
+        test("init skips the journal of a transaction still being committed", async () => {
+            const journalPath = path.join(transactionDBDir, DirfileDB.JOURNAL_DIRNAME, "live.json")
+            writeFileSync(journalPath, JSON.stringify({
+                _id: "live",
+                state: "committed",
+                createdAt: new Date().toISOString(),
+                operations: [{
+                    type: "put",
+                    collection: "orders",
+                    id: "o5",
+                    document: { _id: "o5" },
+                    previous: null
+                }]
+            }))
+            const lockPath = path.join(
+                transactionDBDir,
+                DirfileDB.LOCK_DIRNAME,
+                "documents/orders/o5.lock"
+            )
+            mkdirSync(path.dirname(lockPath), { recursive: true })
+            writeFileSync(lockPath, JSON.stringify({
+                pid: process.pid,
+                hostname: hostname(),
+                acquiredAt: new Date().toISOString(),
+                token: "committing"
+            }))
+
+            const testDB = new DirfileDB({ rootDir: transactionDBDir, locking: { timeout: 50 } })
+
+            assert.equal(await testDB.find("orders", { _id: "o5" }), null)
+            assert(existsSync(journalPath))
+            rmSync(journalPath)
+            rmSync(lockPath)
+        })
+    ]
+})
+
+const lockingDBDir = `${rootTestDbsDir}.lockingDB`
+const lockingCollection = "locking-collection"
+const writeLockFile = (resource: string, holder?: object, age = 0) => {
+    const lockPath = path.join(lockingDBDir, DirfileDB.LOCK_DIRNAME, `${resource}.lock`)
+    mkdirSync(path.dirname(lockPath), { recursive: true })
+    writeFileSync(lockPath, holder ? JSON.stringify(holder) : "")
+    const modifiedAt = new Date(Date.now() - age)
+    utimesSync(lockPath, modifiedAt, modifiedAt)
+    return lockPath
+}
+test("locking", {
+    subTests: [
+        test("leaves no lock files after writes", async () => {
+            const testDB = newDB(lockingDBDir)
+            await testDB.newCollection(lockingCollection)
+            await testDB.create(lockingCollection, { _id: "l1", value: 1 })
+            await testDB.update(lockingCollection, { _id: "l1", value: 2 })
+
+            const lockDir = path.join(lockingDBDir, DirfileDB.LOCK_DIRNAME)
+            const lockFiles = readdirSync(lockDir, { recursive: true })
+                .filter(file => file.toString().endsWith(".lock"))
+
+            assert.deepEqual(lockFiles, [])
+        }),
+
+        test("keeps the collections created by other instances in the metadata", async () => {
+            const first = newDB(lockingDBDir)
+            const second = newDB(lockingDBDir)
+            await first.newCollection("first-collection")
+            await second.newCollection("second-collection")
+            await first.deleteCollection("first-collection")
+
+            const collections = newDB(lockingDBDir).getMetadata().collections
+            assert(collections.has(lockingCollection))
+            assert(collections.has("second-collection"))
+            assert(!collections.has("first-collection"))
+        }),
+
+        test("shares index changes between instances", async () => {
+            const first = newDB(lockingDBDir)
+            await first.newCollection("indexed-collection")
+            await first.createIndex("indexed-collection", "sku", { unique: true })
+            const second = newDB(lockingDBDir)
+
+            await first.create("indexed-collection", { _id: "i1", sku: "a" })
+            await second.create("indexed-collection", { _id: "i2", sku: "b" })
+
+            const found = await second.findAll("indexed-collection", { sku: "a" })
+            assert.deepEqual(found.map(document => document._id), ["i1"])
+            await assert.rejects(second.create("indexed-collection", { _id: "i3", sku: "a" }))
+
+            const reconnectDB = newDB(lockingDBDir)
+            const both = await reconnectDB.findAll("indexed-collection", {
+                sku: { $in: ["a", "b"] }
+            })
+            assert.deepEqual(both.map(document => document._id).sort(), ["i1", "i2"])
+        }),
+
+        test("keeps unique values unique across concurrent writes", async () => {
+            const first = newDB(lockingDBDir)
+            const second = newDB(lockingDBDir)
+
+            const creates = await Promise.allSettled([
+                first.create("indexed-collection", { _id: "i4", sku: "c" }),
+                second.create("indexed-collection", { _id: "i5", sku: "c" })
+            ])
+            assert.deepEqual(creates.map(result => result.status).sort(), ["fulfilled", "rejected"])
+
+            const updates = await Promise.allSettled([
+                first.update("indexed-collection", { _id: "i1", sku: "d" }),
+                second.update("indexed-collection", { _id: "i2", sku: "d" })
+            ])
+            assert.deepEqual(updates.map(result => result.status).sort(), ["fulfilled", "rejected"])
+
+            assert.equal(await first.count("indexed-collection", { sku: "c" }), 1)
+            assert.equal(await second.count("indexed-collection", { sku: "d" }), 1)
+        }),
+
+        test("creates a single document from concurrent upserts", async () => {
+            const first = newDB(lockingDBDir)
+            await first.newCollection("upserted-collection")
+            const second = newDB(lockingDBDir)
+
+            const upserts = await Promise.all([first, second, first, second].map(
+                testDB => testDB.upsert("upserted-collection", { k: "y" }, { $inc: { n: 1 } })
+            ))
+            assert.equal(upserts.filter(({ upserted }) => upserted).length, 1)
+
+            assert.equal(await first.count("upserted-collection"), 1)
+            assert.equal((await second.find("upserted-collection", { k: "y" })).n, 4)
+        }),
+
+        test("lets a single contender take over a stale lock", async () => {
+            const lockDir = path.join(lockingDBDir, DirfileDB.LOCK_DIRNAME)
+            writeLockFile("contended", {
+                pid: 1,
+                hostname: "another-host",
+                acquiredAt: new Date(0).toISOString(),
+                token: "stale"
+            }, LockManager.DEFAULT_STALE_TIMEOUT * 2)
+
+            const contenders = Array.from(
+                { length: 8 },
+                () => new LockManager(lockDir, { timeout: 200 })
+            )
+            const results = await Promise.allSettled(
+                contenders.map(locks => locks.acquire("contended"))
+            )
+
+            const taken = results.filter(result => result.status === "fulfilled")
+            assert.equal(taken.length, 1)
+            for (const result of results) {
+                if (result.status === "rejected") assert(result.reason instanceof LockError)
+            }
+
+            await (taken[0] as PromiseFulfilledResult<() => Promise<void>>).value()
+            assert.deepEqual(readdirSync(lockDir).filter(file => file.startsWith("contended")), [])
+        }),
+
+        test("waits for the database lock without blocking the event loop", async () => {
+            const testDB = new DirfileDB({
+                rootDir: lockingDBDir,
+                locking: { timeout: 200 }
+            })
+            const lockPath = writeLockFile("database", {
+                pid: process.pid,
+                hostname: hostname(),
+                acquiredAt: new Date().toISOString(),
+                token: "metadata"
+            })
+
+            let ticks = 0
+            const timer = setInterval(() => ticks++, 10)
+            await assert.rejects(
+                testDB.newCollection("blocked-collection"),
+                (error: Error) => error instanceof LockError && error.holder?.token === "metadata"
+            )
+            clearInterval(timer)
+
+            assert(ticks > 5)
+            rmSync(lockPath)
+            rmSync(path.join(lockingDBDir, "blocked-collection"), { recursive: true })
+        }),
+
+        test("holds writes while another process holds the write barrier", async () => {
+            const testDB = new DirfileDB({
+                rootDir: lockingDBDir,
+                locking: { timeout: 50 }
+            })
+            const lockPath = writeLockFile("writes", {
+                pid: process.pid,
+                hostname: hostname(),
+                acquiredAt: new Date().toISOString(),
+                token: "rotating"
+            })
+
+            await assert.rejects(
+                testDB.update(lockingCollection, { _id: "l1", value: 3 }),
+                (error: Error) => error instanceof LockError && error.holder?.token === "rotating"
+            )
+            rmSync(lockPath)
+        }),
+
+        test("waits for the writes of other processes before a snapshot", async () => {
+            const testDB = new DirfileDB({
+                rootDir: lockingDBDir,
+                locking: { timeout: 50 }
+            })
+            const sharedPath = writeLockFile("writes.shared/writer", {
+                pid: process.pid,
+                hostname: hostname(),
+                acquiredAt: new Date().toISOString(),
+                token: "writer"
+            })
+
+            await assert.rejects(
+                testDB.exportSnapshot(`${rootTestDbsDir}.locking.dirfile.gz`),
+                (error: Error) => error instanceof LockError && error.holder?.token === "writer"
+            )
+            rmSync(sharedPath)
+        }),
+
+        test("fails with a LockError when another writer holds the lock", async () => {
+            const testDB = new DirfileDB({
+                rootDir: lockingDBDir,
+                locking: { timeout: 50 }
+            })
+            const lockPath = writeLockFile(`documents/${lockingCollection}/l1`, {
+                pid: process.pid,
+                hostname: hostname(),
+                acquiredAt: new Date().toISOString(),
+                token: "held"
+            })
+
+            await assert.rejects(
+                testDB.update(lockingCollection, { _id: "l1", value: 3 }),
+                (error: Error) => error instanceof LockError && error.holder?.token === "held"
+            )
+            rmSync(lockPath)
+        }),
+
+        test("keeps an old lock held by a live process on this host", async () => {
+            const testDB = new DirfileDB({
+                rootDir: lockingDBDir,
+                locking: { timeout: 50, staleTimeout: 1000 }
+            })
+            const lockPath = writeLockFile(`documents/${lockingCollection}/l1`, {
+                pid: process.pid,
+                hostname: hostname(),
+                acquiredAt: new Date(Date.now() - 60000).toISOString(),
+                token: "held"
+            }, 60000)
+
+            await assert.rejects(
+                testDB.update(lockingCollection, { _id: "l1", value: 3 }),
+                (error: Error) => error instanceof LockError && error.holder?.token === "held"
+            )
+            rmSync(lockPath)
+        }),
+
+        test("takes over a stale lock", async () => {
+            const testDB = new DirfileDB({
+                rootDir: lockingDBDir,
+                locking: { timeout: 50, staleTimeout: 1000 }
+            })
+            writeLockFile(`documents/${lockingCollection}/l1`, {
+                pid: process.pid,
+                hostname: `not-${hostname()}`,
+                acquiredAt: new Date(Date.now() - 60000).toISOString(),
+                token: "stale"
+            }, 60000)
+
+            const document = await testDB.update(lockingCollection, { _id: "l1", value: 4 })
+            assert.equal(document.value, 4)
+        }),
+
+        test("takes over a lock file left empty by a crash", async () => {
+            const testDB = new DirfileDB({
+                rootDir: lockingDBDir,
+                locking: { timeout: 50, staleTimeout: 1000 }
+            })
+            writeLockFile(`documents/${lockingCollection}/l1`, undefined, 60000)
+
+            const document = await testDB.update(lockingCollection, { _id: "l1", value: 5 })
+            assert.equal(document.value, 5)
+        })
+    ]
+})
+
+const schemaDBDir = `${rootTestDbsDir}.schemaDB`
+const schemaCollection = "schema-collection"
+const userSchema = {
+    type: "object" as const,
+    required: ["name", "age"],
+    properties: {
+        name: { type: "string" as const, minLength: 1 },
+        age: { type: "integer" as const, minimum: 0 },
+        role: { enum: ["admin", "user"] },
+        email: { type: "string" as const, pattern: "^[^@]+@[^@]+$" },
+        address: {
+            type: "object" as const,
+            required: ["city"],
+            properties: { city: { type: "string" as const } }
+        },
+        tags: { type: "array" as const, maxItems: 2, items: { type: "string" as const } }
+    }
+}
+test("schema validation", {
+    subTests: [
+        test("accepts documents matching the schema", async () => {
+            const testDB = newDB(schemaDBDir)
+            await testDB.newCollection(schemaCollection, { schema: userSchema })
+            await testDB.create(schemaCollection, {
+                _id: "s1",
+                name: "ada",
+                age: 36,
+                address: { city: "london" },
+                tags: ["math"]
+            })
+
+            const info = testDB.getCollectionInfo(schemaCollection)
+            assert.deepEqual(info?.settings.schema, userSchema)
+            assert.equal((await testDB.find(schemaCollection, { _id: "s1" })).age, 36)
+        }),
+
+        test("rejects invalid creates with the failing paths", async () => {
+            const testDB = newDB(schemaDBDir)
+
+            await assert.rejects(
+                testDB.create(schemaCollection, {
+                    _id: "s2",
+                    age: -1,
+                    role: "owner",
+                    email: "nope",
+                    address: {},
+                    tags: ["a", 2, "c"]
+                }),
+                (error: Error) => {
+                    assert.ok(error instanceof SchemaValidationError)
+                    assert.deepEqual(error.issues.map(issue => issue.path).sort(), [
+                        "address.city", "age", "email", "name", "role", "tags", "tags.1"
+                    ])
+                    return true
+                }
+            )
+            assert.equal(await testDB.find(schemaCollection, { _id: "s2" }), null)
+        }),
+
+        test("rejects invalid updates and keeps the stored document", async () => {
+            const testDB = newDB(schemaDBDir)
+
+            await assert.rejects(
+                testDB.update(schemaCollection, { _id: "s1", age: "old" }),
+                SchemaValidationError
+            )
+            assert.equal((await testDB.find(schemaCollection, { _id: "s1" })).age, 36)
+        }),
+
+        test("rejects invalid transaction writes", async () => {
+            const testDB = newDB(schemaDBDir)
+
+            await assert.rejects(
+                testDB.transaction(async tx => {
+                    await tx.create(schemaCollection, { _id: "s3", name: "bob", age: 1 })
+                    await tx.create(schemaCollection, { _id: "s4", name: "", age: 1 })
+                }),
+                SchemaValidationError
+            )
+            assert.equal(await testDB.find(schemaCollection, { _id: "s3" }), null)
+        }),
+
+        test("validateCollection reports existing documents that do not conform", async () => {
+            const testDB = newDB(schemaDBDir)
+            await testDB.setSchema(schemaCollection, undefined)
+            await testDB.create(schemaCollection, { _id: "s5", name: "eve" })
+
+            assert.deepEqual(await testDB.validateCollection(schemaCollection), [])
+
+            await testDB.setSchema(schemaCollection, userSchema)
+            const results = await testDB.validateCollection(schemaCollection)
+
+            assert.deepEqual(results, [
+                { _id: "s5", issues: [{ path: "age", message: "is required" }] }
+            ])
+        })
+    ]
+})
+
+const handleDBDir = `${rootTestDbsDir}.handleDB`
+const handleCollection = "handle-collection"
+interface HandleUser {
+    name: string
+    age: number
+    tags: string[]
+}
+test("collection handle", {
+    subTests: [
+        test("writes and reads typed documents", async () => {
+            const testDB = newDB(handleDBDir)
+            await testDB.newCollection(handleCollection)
+            const users = testDB.collection<HandleUser>(handleCollection)
+
+            await users.create({ _id: "h1", name: "ada", age: 36, tags: ["math"] })
+            await users.create({ _id: "h2", name: "bob", age: 17, tags: [] })
+
+            const ada = await users.find({ tags: "math" })
+            assert.equal(ada?._id, "h1")
+
+            const adults = await users.findAll({ age: { $gte: 18 } })
+            assert.deepEqual(adults.map(user => user.name), ["ada"])
+
+            const updated = await users.update({ _id: "h2", age: 18 })
+            assert.equal(updated.age, 18)
+
+            await users.delete({ _id: "h1" })
+            assert.deepEqual((await users.findAll()).map(user => user._id), ["h2"])
+        }),
+
+        test("type checks documents, queries and updates", async () => {
+            const users = newDB(handleDBDir).collection<HandleUser>(handleCollection)
+
+            // @ts-expect-error wrong field type in query
+            assert.equal(await users.find({ age: "old" }), null)
+            // @ts-expect-error missing _id in update
+            await assert.rejects(users.update({ age: 1 }))
+        })
+    ]
+})
+
+const eventsDBDir = `${rootTestDbsDir}.eventsDB`
+const eventsCollection = "events-collection"
+const nextEvent = <E extends keyof DirfileDBEvents>(db: DirfileDB, event: E) =>
+    new Promise<DirfileDBEvents[E]>((resolve, reject) => {
+        const timer = setTimeout(() => reject(Error(`no ${event} event`)), 2000)
+        db.once(event, payload => {
+            clearTimeout(timer)
+            resolve(payload)
+        })
+    })
+test("events", {
+    subTests: [
+        test("emits events for its own writes", async () => {
+            const testDB = newDB(eventsDBDir)
+            const events: string[] = []
+            const record = (name: string) => (payload: { collection: string, _id?: string }) => {
+                events.push([name, payload.collection, payload._id].filter(Boolean).join(":"))
+            }
+
+            testDB.on("collectionCreated", record("collectionCreated"))
+            testDB.on("documentCreated", record("documentCreated"))
+            testDB.on("documentUpdated", record("documentUpdated"))
+            testDB.on("documentDeleted", record("documentDeleted"))
+            testDB.on("collectionDeleted", record("collectionDeleted"))
+
+            await testDB.newCollection("events-scratch")
+            await testDB.create("events-scratch", { _id: "e1", value: 1 })
+            await testDB.update("events-scratch", { _id: "e1", value: 2 })
+            await testDB.delete("events-scratch", { _id: "e1" })
+            await testDB.deleteCollection("events-scratch")
+
+            assert.deepEqual(events, [
+                "collectionCreated:events-scratch",
+                "documentCreated:events-scratch:e1",
+                "documentUpdated:events-scratch:e1",
+                "documentDeleted:events-scratch:e1",
+                "collectionDeleted:events-scratch"
+            ])
+        }),
+
+        test("includes the new and previous document versions", async () => {
+            const testDB = newDB(eventsDBDir)
+            await testDB.newCollection(eventsCollection)
+            await testDB.create(eventsCollection, { _id: "e2", value: 1 })
+
+            const updated = nextEvent(testDB, "documentUpdated")
+            await testDB.update(eventsCollection, { _id: "e2", value: 2 })
+
+            const { document, previous, external } = await updated
+            assert.deepEqual([document.value, previous.value, external], [2, 1, false])
+        }),
+
+        test("watch emits events for external file edits", async () => {
+            const testDB = newDB(eventsDBDir)
+            await testDB.watch(eventsCollection)
+
+            try {
+                const filePath = path.join(eventsDBDir, eventsCollection, "e3.json")
+
+                const created = nextEvent(testDB, "documentCreated")
+                writeFileSync(filePath, JSON.stringify({ _id: "e3", value: "by hand" }))
+                assert.deepEqual(await created, {
+                    collection: eventsCollection,
+                    _id: "e3",
+                    document: { _id: "e3", value: "by hand" },
+                    external: true
+                })
+
+                const updated = nextEvent(testDB, "documentUpdated")
+                writeFileSync(filePath, JSON.stringify({ _id: "e3", value: "edited" }))
+                assert.equal((await updated).document.value, "edited")
+
+                const deleted = nextEvent(testDB, "documentDeleted")
+                rmSync(filePath)
+                assert.equal((await deleted)._id, "e3")
+            } finally {
+                testDB.close()
+            }
+        }),
+
+        test("watch does not report the instance's own writes as external", async () => {
+            const testDB = newDB(eventsDBDir)
+            const external: string[] = []
+            testDB.on("documentCreated", event => {
+                if (event.external) external.push(event._id)
+            })
+            await testDB.watch()
+
+            try {
+                await testDB.create(eventsCollection, { _id: "e4", value: 1 })
+                await new Promise(resolve => setTimeout(resolve, 200))
+
+                assert.deepEqual(external, [])
+            } finally {
+                testDB.close()
+            }
+        })
+    ]
+})
+
+const migrationDBDir = `${rootTestDbsDir}.migrationDB`
+const migrationCollection = "migration-collection"
+const setStoredVersion = (version: string) => {
+    const metadataPath = path.join(migrationDBDir, DirfileDB.METADATA_FILENAME)
+    const metadata = JSON.parse(readFileSync(metadataPath, "utf8"))
+    writeFileSync(metadataPath, JSON.stringify({ ...metadata, version }))
+}
+const renameSteps = [
+    {
+        from: "0.0.0-a",
+        to: "0.0.0-b",
+        description: "rename fullName to name",
+        document: (document: { fullName?: string, name?: string }) => {
+            document.name = document.fullName
+            delete document.fullName
+        }
+    },
+    { from: "0.0.0-b", to: DirfileDB.VERSION, description: "no document changes" }
+]
+const legacyCollectionDir = path.join(migrationDBDir, "legacy-collection")
+const leftoverMigrationFile = path.join(
+    migrationDBDir,
+    migrationCollection,
+    ".m1.json.0a1b2c3d4e5f.dirfile-tmp"
+)
+test("migrations", {
+    subTests: [
+        test("fails on a version mismatch without migrations", async () => {
+            const testDB = newDB(migrationDBDir)
+            await testDB.newCollection(migrationCollection)
+            await testDB.create(migrationCollection, { _id: "m1", fullName: "ada" })
+            setStoredVersion("0.0.0-a")
+
+            assert.throws(() => newDB(migrationDBDir), /no migrations are configured/)
+        }),
+
+        test("fails when no chain of steps reaches the package version", () => {
+            assert.throws(
+                () => new DirfileDB({
+                    rootDir: migrationDBDir,
+                    migrations: { steps: [renameSteps[0]] }
+                }),
+                /no migration path/
+            )
+        }),
+
+        test("dry run reports without writing", async () => {
+            // a collection without a metadata file and a leftover write, both left alone
+            mkdirSync(legacyCollectionDir)
+            writeFileSync(leftoverMigrationFile, "{")
+
+            const testDB = new DirfileDB({
+                rootDir: migrationDBDir,
+                migrations: { steps: renameSteps, dryRun: true }
+            })
+
+            const report = testDB.getMigrationReport()
+            assert.deepEqual(report?.steps.map(step => step.documentsChanged), [1, 0])
+            assert.equal(report?.backupDir, undefined)
+            assert.equal(testDB.getMetadata().version, "0.0.0-a")
+            assert.equal((await testDB.find(migrationCollection, { _id: "m1" })).fullName, "ada")
+            assert(!existsSync(
+                path.join(legacyCollectionDir, DirfileDB.COLLECTION_METADATA_FILENAME)
+            ))
+            assert(existsSync(leftoverMigrationFile))
+
+            await assert.rejects(
+                testDB.create(migrationCollection, { _id: "m3" }),
+                /opened for a migration dry run and is read-only/
+            )
+            await assert.rejects(testDB.newCollection("dry-run-collection"), /read-only/)
+            assert(!existsSync(path.join(migrationDBDir, migrationCollection, "m3.json")))
+        }),
+
+        test("runs the steps in order, backs up and records the history", async () => {
+            const testDB = new DirfileDB({
+                rootDir: migrationDBDir,
+                migrations: { steps: [...renameSteps].reverse() }
+            })
+
+            const document = await testDB.find(migrationCollection, { _id: "m1" })
+            assert.deepEqual(document, { _id: "m1", name: "ada" })
+            assert.equal(testDB.getMetadata().version, DirfileDB.VERSION)
+            assert.deepEqual(
+                testDB.getMetadata().migrations?.map(record => [record.from, record.to]),
+                [["0.0.0-a", "0.0.0-b"], ["0.0.0-b", DirfileDB.VERSION]]
+            )
+
+            const backupDir = testDB.getMigrationReport()?.backupDir ?? ""
+            const backupDocument = readFileSync(
+                path.join(backupDir, migrationCollection, "m1.json"),
+                "utf8"
+            )
+            assert.equal(JSON.parse(backupDocument).fullName, "ada")
+
+            // the backup is taken before the database is recovered
+            assert(!existsSync(path.join(
+                backupDir,
+                "legacy-collection",
+                DirfileDB.COLLECTION_METADATA_FILENAME
+            )))
+            assert(existsSync(
+                path.join(legacyCollectionDir, DirfileDB.COLLECTION_METADATA_FILENAME)
+            ))
+            assert(!existsSync(leftoverMigrationFile))
+
+            const reconnectDB = newDB(migrationDBDir)
+            assert.equal(reconnectDB.getMetadata().migrations?.length, 2)
+            assert.equal(reconnectDB.getMigrationReport(), undefined)
+        }),
+
+        test("leaves every document as it was when a step fails", async () => {
+            const testDB = newDB(migrationDBDir)
+            await testDB.create(migrationCollection, { _id: "m2", name: "grace" })
+            setStoredVersion("0.0.0-a")
+
+            let migratedDocuments = 0
+            const failingStep = {
+                from: "0.0.0-a",
+                to: DirfileDB.VERSION,
+                document: (document: { migrated?: boolean }) => {
+                    if (++migratedDocuments === 2) throw Error("cannot migrate document")
+                    document.migrated = true
+                }
+            }
+
+            assert.throws(
+                () => new DirfileDB({
+                    rootDir: migrationDBDir,
+                    migrations: { steps: [failingStep] }
+                }),
+                /cannot migrate document/
+            )
+
+            const collectionPath = path.join(migrationDBDir, migrationCollection)
+            for (const id of ["m1", "m2"]) {
+                const document = readFileSync(path.join(collectionPath, `${id}.json`), "utf8")
+                assert.equal(JSON.parse(document).migrated, undefined)
+            }
+            assert.deepEqual(
+                readdirSync(collectionPath).filter(file => file.endsWith(".dirfile-tmp")),
+                []
+            )
+        }),
+
+        test("finishes a migration interrupted while committing documents", async () => {
+            // m1 was replaced by its migrated version before the crash, m2 is still staged
+            const collectionPath = path.join(migrationDBDir, migrationCollection)
+            const stagedFile = ".m2.json.999999.0a1b2c3d4e5f.dirfile-tmp"
+            writeFileSync(
+                path.join(collectionPath, "m1.json"),
+                JSON.stringify({ _id: "m1", name: "ada", visits: 1 })
+            )
+            writeFileSync(
+                path.join(collectionPath, stagedFile),
+                JSON.stringify({ _id: "m2", name: "grace", visits: 1 })
+            )
+
+            const metadataPath = path.join(migrationDBDir, DirfileDB.METADATA_FILENAME)
+            const metadata = JSON.parse(readFileSync(metadataPath, "utf8"))
+            const journalPath = path.join(migrationDBDir, Migrator.JOURNAL_FILENAME)
+            writeFileSync(journalPath, JSON.stringify({
+                metadata: { ...metadata, version: DirfileDB.VERSION },
+                staged: [[
+                    path.join(migrationCollection, stagedFile),
+                    path.join(migrationCollection, "m2.json")
+                ]]
+            }))
+
+            // the step is not idempotent, running it again would count the visits twice
+            const testDB = new DirfileDB({
+                rootDir: migrationDBDir,
+                migrations: {
+                    steps: [{
+                        from: "0.0.0-a",
+                        to: DirfileDB.VERSION,
+                        document: (document: { visits?: number }) => {
+                            document.visits = (document.visits ?? 0) + 1
+                        }
+                    }]
+                }
+            })
+
+            assert.equal(testDB.getMetadata().version, DirfileDB.VERSION)
+            assert.deepEqual(
+                (await testDB.findAll(migrationCollection, {}, { sort: { _id: 1 } }))
+                    .map(document => document.visits),
+                [1, 1]
+            )
+            assert.equal((await testDB.find(migrationCollection, { name: "grace" }))?._id, "m2")
+            assert(!existsSync(journalPath))
+        }),
+
+        test("leaves the documents no step changed as stored", async () => {
+            // written compact, unlike the documents of the collection
+            const compactFile = path.join(migrationDBDir, migrationCollection, "m1.json")
+            const compact = JSON.stringify({ _id: "m1", name: "ada", visits: 1 })
+            writeFileSync(compactFile, compact)
+            setStoredVersion("0.0.0-a")
+
+            const testDB = new DirfileDB({
+                rootDir: migrationDBDir,
+                migrations: {
+                    steps: [{
+                        from: "0.0.0-a",
+                        to: DirfileDB.VERSION,
+                        document: (document: { _id: string, visits: number }) => {
+                            if (document._id === "m2") document.visits++
+                        }
+                    }],
+                    backup: false
+                }
+            })
+
+            assert.deepEqual(
+                testDB.getMigrationReport()?.steps.map(step => step.documentsChanged),
+                [1]
+            )
+            assert.equal(readFileSync(compactFile, "utf8"), compact)
+            assert.equal((await testDB.find(migrationCollection, { _id: "m2" })).visits, 2)
+        })
+    ]
+})
+
+const bulkDBDir = `${rootTestDbsDir}.bulkDB`
+const bulkCollection = "bulk-collection"
+test("bulk writes", {
+    subTests: [
+        test("create returns the stored document with its _id", async () => {
+            const testDB = newDB(bulkDBDir)
+            await testDB.newCollection(bulkCollection)
+
+            const document = await testDB.create(bulkCollection, { name: "generated" })
+            assert.equal(typeof document._id, "string")
+            assert.deepEqual(await testDB.find(bulkCollection, { _id: document._id }), document)
+        }),
+
+        test("createMany stops at the first failure when ordered", async () => {
+            const testDB = newDB(bulkDBDir)
+
+            const result = await testDB.createMany(bulkCollection, [
+                { _id: "b1", group: "a" },
+                { _id: "b1", group: "a" },
+                { _id: "b2", group: "a" }
+            ])
+
+            assert.equal(result.insertedCount, 1)
+            assert.deepEqual(result.insertedIds, ["b1"])
+            assert.deepEqual(result.results.map(item => [item.index, !item.error]), [
+                [0, true],
+                [1, false]
+            ])
+        }),
+
+        test("createMany attempts every item when unordered", async () => {
+            const testDB = newDB(bulkDBDir)
+
+            const result = await testDB.createMany(bulkCollection, [
+                { _id: "b1", group: "a" },
+                { _id: "b2", group: "a" },
+                { _id: "b3", group: "b" }
+            ], { ordered: false })
+
+            assert.deepEqual(result.insertedIds, ["b2", "b3"])
+            assert.match(result.results[0].error?.message ?? "", /already exists/)
+        }),
+
+        test("updateMany reports matched and modified counts", async () => {
+            const testDB = newDB(bulkDBDir)
+            await testDB.update(bulkCollection, { _id: "b2", flag: true })
+
+            const result = await testDB.updateMany(bulkCollection, { group: "a" }, { flag: true })
+
+            assert.equal(result.matchedCount, 2)
+            assert.equal(result.modifiedCount, 1)
+            assert.deepEqual((await testDB.findAll(bulkCollection, { flag: true })).length, 2)
+        }),
+
+        test("upsert updates a match or creates from the query fields", async () => {
+            const testDB = newDB(bulkDBDir)
+
+            const updated = await testDB.upsert(bulkCollection, { _id: "b3" }, { score: 1 })
+            assert.deepEqual([updated.upserted, updated.document.group], [false, "b"])
+
+            const created = await testDB.upsert(
+                bulkCollection,
+                { group: "c", score: { $gt: 5 } },
+                { score: 10 }
+            )
+            assert.equal(created.upserted, true)
+            assert.deepEqual({ ...created.document, _id: undefined }, {
+                _id: undefined,
+                group: "c",
+                score: 10
+            })
+        }),
+
+        test("delete and deleteAll report the number of removed documents", async () => {
+            const testDB = newDB(bulkDBDir)
+
+            assert.equal(await testDB.delete(bulkCollection, { group: "missing" }), 0)
+            assert.equal(await testDB.delete(bulkCollection, { group: "a" }), 1)
+            assert.equal(await testDB.deleteAll(bulkCollection, { group: { $in: ["a", "b"] } }), 2)
+        })
+    ]
+})
+
+const pagingDBDir = `${rootTestDbsDir}.pagingDB`
+const pagingCollection = "paging-collection"
+test("sorting and pagination", {
+    subTests: [
+        test("sorts by several fields in both directions", async () => {
+            const testDB = newDB(pagingDBDir)
+            await testDB.newCollection(pagingCollection)
+            await testDB.createMany(pagingCollection, [
+                { _id: "p1", team: "b", score: 3, profile: { city: "oslo", age: 30 } },
+                { _id: "p2", team: "a", score: 5, profile: { city: "rome", age: 41 } },
+                { _id: "p3", team: "b", score: 9, profile: { city: "lima", age: 25 } },
+                { _id: "p4", team: "a", score: 1, profile: { city: "oslo", age: 37 } },
+                { _id: "p5", team: "c", score: 5, profile: { city: "rome", age: 52 } }
+            ])
+
+            const documents = await testDB.findAll(pagingCollection, {}, {
+                sort: { team: "asc", score: -1 }
+            })
+
+            assert.deepEqual(documents.map(doc => doc._id), ["p2", "p4", "p3", "p1", "p5"])
+        }),
+
+        test("applies skip, limit and projection", async () => {
+            const testDB = newDB(pagingDBDir)
+
+            const included = await testDB.findAll(pagingCollection, { score: { $gte: 3 } }, {
+                sort: { score: 1 },
+                skip: 1,
+                limit: 2,
+                projection: { "profile.city": 1 }
+            })
+            assert.deepEqual(included, [
+                { _id: "p2", profile: { city: "rome" } },
+                { _id: "p5", profile: { city: "rome" } }
+            ])
+
+            const excluded = await testDB.findAll(pagingCollection, { _id: "p1" }, {
+                projection: { _id: 0, profile: 0 }
+            })
+            assert.deepEqual(excluded, [{ team: "b", score: 3 }])
+
+            await assert.rejects(
+                testDB.findAll(pagingCollection, {}, { projection: { team: 1, score: 0 } }),
+                /cannot mix/
+            )
+        }),
+
+        test("pages through documents with a cursor", async () => {
+            const testDB = newDB(pagingDBDir)
+            const pages: string[][] = []
+            let cursor: string | undefined
+
+            do {
+                const page = await testDB.findPage(pagingCollection, {}, {
+                    sort: { score: "desc" },
+                    limit: 2,
+                    cursor
+                })
+                pages.push(page.documents.map(doc => doc._id))
+                cursor = page.nextCursor
+            } while (cursor)
+
+            assert.deepEqual(pages, [["p3", "p2"], ["p5", "p1"], ["p4"]])
+        }),
+
+        test("continues after the cursor when documents are added", async () => {
+            const testDB = newDB(pagingDBDir)
+
+            const first = await testDB.findPage(pagingCollection, {}, { limit: 2 })
+            await testDB.create(pagingCollection, { _id: "p0", team: "d", score: 0 })
+            const second = await testDB.findPage(pagingCollection, {}, {
+                limit: 2,
+                cursor: first.nextCursor
+            })
+
+            assert.deepEqual(first.documents.map(doc => doc._id), ["p1", "p2"])
+            assert.deepEqual(second.documents.map(doc => doc._id), ["p3", "p4"])
+            await assert.rejects(
+                testDB.findPage(pagingCollection, {}, { cursor: "not-a-cursor" }),
+                /invalid pagination cursor/
+            )
+        }),
+
+        test("count returns the number of matches", async () => {
+            const testDB = newDB(pagingDBDir)
+
+            assert.equal(await testDB.count(pagingCollection), 6)
+            assert.equal(await testDB.count(pagingCollection, { "profile.city": "oslo" }), 2)
+        })
+    ]
+})
+
+const iterateDBDir = `${rootTestDbsDir}.iterateDB`
+const iterateCollection = "iterate-collection"
+test("iterate", {
+    subTests: [
+        test("yields every matching document", async () => {
+            const testDB = newDB(iterateDBDir)
+            await testDB.newCollection(iterateCollection)
+            await testDB.createMany(iterateCollection, Array.from({ length: 20 }, (_, index) => ({
+                _id: `it${String(index).padStart(2, "0")}`,
+                even: index % 2 === 0
+            })))
+
+            const ids: string[] = []
+            for await (const document of testDB.iterate(iterateCollection, { even: true })) {
+                ids.push(document._id)
+            }
+
+            assert.equal(ids.length, 10)
+            assert.ok(ids.every(id => Number(id.slice(2)) % 2 === 0))
+        }),
+
+        test("stops reading when the loop is left early", async () => {
+            const testDB = new DirfileDB({ rootDir: iterateDBDir, cache: {} })
+
+            const documents = testDB.iterate(iterateCollection, {}, { concurrency: 2 })
+            for await (const document of documents) {
+                assert.ok(document._id)
+                break
+            }
+
+            assert.equal(testDB.getCacheStats()?.misses, 2)
+        }),
+
+        test("throws when the signal is aborted", async () => {
+            const testDB = newDB(iterateDBDir)
+            const controller = new AbortController()
+            let count = 0
+
+            await assert.rejects(async () => {
+                for await (const document of testDB.iterate(iterateCollection, {}, {
+                    signal: controller.signal
+                })) {
+                    assert.ok(document)
+                    if (++count === 3) controller.abort()
+                }
+            }, { name: "AbortError" })
+            assert.equal(count, 3)
+        })
+    ]
+})
+
+const operatorsDBDir = `${rootTestDbsDir}.operatorsDB`
+const operatorsCollection = "operators-collection"
+test("update operators", {
+    subTests: [
+        test("applies field and array operators", async () => {
+            const testDB = newDB(operatorsDBDir)
+            await testDB.newCollection(operatorsCollection)
+            await testDB.create(operatorsCollection, {
+                _id: "o1",
+                count: 1,
+                price: 10,
+                low: 5,
+                tags: ["a", "b"],
+                scores: [1, 5, 9],
+                profile: { name: "ann", city: "oslo" },
+                legacy: true
+            })
+
+            const updated = await testDB.update(operatorsCollection, {
+                _id: "o1",
+                $set: { "profile.city": "rome" },
+                $unset: { legacy: "" },
+                $inc: { count: 2, visits: 1 },
+                $mul: { price: 1.5 },
+                $min: { low: 3 },
+                $max: { low: 1 },
+                $push: { tags: { $each: ["c", "a"] } },
+                $addToSet: { "profile.roles": "admin" },
+                $pull: { scores: { $gt: 4 } },
+                $rename: { "profile.name": "profile.first" },
+                $currentDate: { stamp: { $type: "timestamp" } }
+            })
+
+            assert.deepEqual({ ...updated, stamp: undefined }, {
+                _id: "o1",
+                count: 3,
+                visits: 1,
+                price: 15,
+                low: 3,
+                tags: ["a", "b", "c", "a"],
+                scores: [1],
+                profile: { first: "ann", city: "rome", roles: ["admin"] },
+                stamp: undefined
+            })
+            assert.equal(typeof updated.stamp, "number")
+            assert.deepEqual(await testDB.find(operatorsCollection, { _id: "o1" }), updated)
+        }),
+
+        test("deep merges plain data and replaces with the replace option", async () => {
+            const testDB = newDB(operatorsDBDir)
+            await testDB.create(operatorsCollection, {
+                _id: "o2",
+                profile: { name: "bob", city: "oslo" },
+                tags: ["a"]
+            })
+
+            const merged = await testDB.update(operatorsCollection, {
+                _id: "o2",
+                profile: { city: "rome" },
+                tags: ["b"]
+            })
+            assert.deepEqual(merged.profile, { name: "bob", city: "rome" })
+            assert.deepEqual(merged.tags, ["b"])
+
+            const replaced = await testDB.update(
+                operatorsCollection,
+                { _id: "o2", value: 1 },
+                { replace: true }
+            )
+            assert.deepEqual(replaced, { _id: "o2", value: 1 })
+        }),
+
+        test("rejects changes to _id and invalid operators", async () => {
+            const testDB = newDB(operatorsDBDir)
+
+            await assert.rejects(
+                testDB.update(operatorsCollection, { _id: "o2", $set: { _id: "other" } }),
+                /cannot change the _id/
+            )
+            await assert.rejects(
+                testDB.updateMany(operatorsCollection, { _id: "o2" }, { _id: "other" })
+                    .then(result => { throw result.results[0].error }),
+                /cannot change the _id/
+            )
+            await assert.rejects(
+                testDB.update(operatorsCollection, { _id: "o2", $push: { value: 2 } }),
+                /\$push requires value to be an array/
+            )
+            await assert.rejects(
+                testDB.update(operatorsCollection, { _id: "o2", $bogus: { value: 1 } }),
+                /unknown update operator/
+            )
+            await assert.rejects(
+                testDB.update(operatorsCollection, { _id: "o2", $set: { value: 2 }, extra: 3 }),
+                /cannot mix update operators \(\$set\) with plain fields \(extra\)/
+            )
+            await assert.rejects(
+                testDB.update(operatorsCollection, { _id: "o2", $bogus: { value: 2 }, extra: 3 }),
+                /unknown update operator \$bogus/
+            )
+            assert.deepEqual(
+                await testDB.find(operatorsCollection, { _id: "o2" }),
+                { _id: "o2", value: 1 }
+            )
+        }),
+
+        test("applies operators in updateMany, upsert and transactions", async () => {
+            const testDB = newDB(operatorsDBDir)
+
+            const result = await testDB.updateMany(
+                operatorsCollection,
+                { _id: { $in: ["o1", "o2"] } },
+                { $inc: { count: 1 } }
+            )
+            assert.equal(result.modifiedCount, 2)
+
+            const upserted = await testDB.upsert(
+                operatorsCollection,
+                { _id: "o3", kind: "counter" },
+                { $inc: { count: 5 } }
+            )
+            assert.deepEqual(upserted.document, { _id: "o3", kind: "counter", count: 5 })
+
+            await testDB.transaction(async tx => {
+                await tx.update(operatorsCollection, { _id: "o3", $push: { log: "tx" } })
+            })
+            assert.deepEqual(
+                (await testDB.find(operatorsCollection, { _id: "o3" }))?.log,
+                ["tx"]
+            )
+        })
+    ]
+})
+
+const snapshotDBDir = `${rootTestDbsDir}.snapshotDB`
+const snapshotCollection = "snapshot-collection"
+const snapshotFile = `${rootTestDbsDir}.snapshot.dirfile.gz`
+test("snapshots", {
+    subTests: [
+        test("restores an exported snapshot into a new directory", async () => {
+            const testDB = newDB(snapshotDBDir)
+            await testDB.newCollection(snapshotCollection)
+            await testDB.createIndex(snapshotCollection, "email", { unique: true })
+            await testDB.createMany(snapshotCollection, [
+                { _id: "s1", email: "a@test.com", profile: { age: 30 } },
+                { _id: "s2", email: "b@test.com", tags: ["x", "y"] }
+            ])
+
+            const manifest = await testDB.exportSnapshot(snapshotFile)
+            assert.deepEqual(manifest.collections, { [snapshotCollection]: 2 })
+            assert.equal(manifest.databaseId, testDB.getMetadata()._id)
+
+            const restoreDir = `${rootTestDbsDir}.snapshotRestoreDB`
+            const restored = await DirfileDB.restoreSnapshot(snapshotFile, restoreDir)
+
+            assert.deepEqual(
+                await restored.findAll(snapshotCollection, {}, { sort: { _id: 1 } }),
+                await testDB.findAll(snapshotCollection, {}, { sort: { _id: 1 } })
+            )
+            assert.equal(
+                (await restored.find(snapshotCollection, { email: "b@test.com" }))?._id,
+                "s2"
+            )
+            assert.equal(
+                restored.getCollection(snapshotCollection),
+                path.join(restoreDir, snapshotCollection)
+            )
+            await assert.rejects(restored.create(snapshotCollection, { email: "a@test.com" }))
+            await assert.rejects(
+                DirfileDB.restoreSnapshot(snapshotFile, restoreDir),
+                /is not empty/
+            )
+        }),
+
+        test("rejects corrupted snapshots", async () => {
+            const { gunzipSync, gzipSync } = await import("node:zlib")
+            const lines = gunzipSync(readFileSync(snapshotFile)).toString("utf8").split("\n")
+            const tampered = { ...JSON.parse(lines[1]), data: Buffer.from("x").toString("base64") }
+            const corruptedFile = `${rootTestDbsDir}.corrupted.dirfile.gz`
+            const restoreDir = `${rootTestDbsDir}.corruptedRestoreDB`
+
+            writeFileSync(
+                corruptedFile,
+                gzipSync([lines[0], JSON.stringify(tampered), ...lines.slice(2)].join("\n"))
+            )
+            await assert.rejects(
+                DirfileDB.restoreSnapshot(corruptedFile, restoreDir),
+                /does not match its checksum/
+            )
+            assert.equal(existsSync(restoreDir), false)
+
+            writeFileSync(corruptedFile, gzipSync(lines.slice(0, -2).join("\n")))
+            await assert.rejects(
+                DirfileDB.restoreSnapshot(corruptedFile, restoreDir),
+                /is truncated/
+            )
+            assert.equal(existsSync(restoreDir), false)
+        }),
+
+        test("exports and imports collections as NDJSON and CSV", async () => {
+            const testDB = newDB(snapshotDBDir)
+            await testDB.create(snapshotCollection, {
+                _id: "s3",
+                email: "c@test.com",
+                note: "says \"hi\", twice\nthen leaves",
+                code: "42",
+                empty: ""
+            })
+            const documents = await testDB.findAll(snapshotCollection, {}, { sort: { _id: 1 } })
+
+            for (const format of ["ndjson", "csv"]) {
+                const filePath = `${rootTestDbsDir}.snapshot-export.${format}`
+                assert.equal(await testDB.exportCollection(snapshotCollection, filePath), 3)
+
+                await testDB.newCollection(`imported-${format}`)
+                const result = await testDB.importCollection(`imported-${format}`, filePath)
+
+                assert.equal(result.insertedCount, 3)
+                assert.deepEqual(
+                    await testDB.findAll(`imported-${format}`, {}, { sort: { _id: 1 } }),
+                    documents
+                )
+            }
+
+            const csv = readFileSync(`${rootTestDbsDir}.snapshot-export.csv`, "utf8")
+            assert.ok(csv.startsWith("_id,email,profile.age,tags,note,code,empty\r\n"))
+            await assert.rejects(
+                testDB.exportCollection(snapshotCollection, `${rootTestDbsDir}.export.txt`),
+                /cannot infer the format/
+            )
+        }),
+
+        test("exports the writes in progress whole", async () => {
+            const testDB = newDB(snapshotDBDir)
+            const collection = "snapshot-writes"
+            await testDB.newCollection(collection)
+            await testDB.createIndex(collection, "email", { unique: true })
+            const ids = ["w1", "w2", "w3", "w4"]
+            const writesFile = `${rootTestDbsDir}.snapshot-writes.dirfile.gz`
+
+            const [manifest] = await Promise.all([
+                testDB.exportSnapshot(writesFile),
+                ...ids.map(_id => testDB.create(collection, { _id, email: `${_id}@test.com` }))
+            ])
+
+            const restored = await DirfileDB.restoreSnapshot(
+                writesFile,
+                `${rootTestDbsDir}.snapshotWritesRestoreDB`
+            )
+            const documents = await restored.findAll(collection)
+            assert.equal(documents.length, manifest.collections[collection])
+            for (const document of documents) {
+                assert.equal(
+                    (await restored.find(collection, { email: document.email }))?._id,
+                    document._id
+                )
+            }
+        })
+    ]
+})
+
+const cliDBDir = `${rootTestDbsDir}.cliDB`
+const runCli = async (args: string[], stdin = "") => {
+    let stdout = ""
+    let stderr = ""
+    const code = await new Cli({
+        stdin: [stdin],
+        stdout: text => { stdout += text },
+        stderr: text => { stderr += text }
+    }).run(["--db", cliDBDir, ...args])
+
+    return { code, stdout, stderr }
+}
+test("command line tool", {
+    subTests: [
+        test("refuses to open a missing database before init", async () => {
+            const { code, stderr } = await runCli(["stats"])
+
+            assert.equal(code, Cli.EXIT_FAILURE)
+            assert.match(stderr, /run dirfile-db init first/)
+            assert.equal((await runCli(["init"])).code, Cli.EXIT_SUCCESS)
+        }),
+
+        test("creates, finds, updates and deletes documents", async () => {
+            assert.equal((await runCli(["collections", "create", "people"])).code, 0)
+
+            const inserted = await runCli(
+                ["insert", "people"],
+                "{\"_id\":\"c1\",\"age\":30}\n{\"_id\":\"c2\",\"age\":40}\n"
+            )
+            assert.equal(JSON.parse(inserted.stdout).insertedCount, 2)
+
+            const updated = await runCli(
+                ["update", "people", "{\"_id\":\"c1\"}"],
+                "{\"$inc\":{\"age\":1}}"
+            )
+            assert.equal(JSON.parse(updated.stdout).modifiedCount, 1)
+
+            const found = await runCli(
+                ["find", "people", "{\"age\":{\"$gt\":30}}", "--sort", "{\"age\":1}"]
+            )
+            assert.deepEqual(
+                JSON.parse(found.stdout),
+                [{ _id: "c1", age: 31 }, { _id: "c2", age: 40 }]
+            )
+
+            const deleted = await runCli(["delete", "people", "{\"_id\":\"c2\"}"])
+            assert.deepEqual(JSON.parse(deleted.stdout), { deletedCount: 1 })
+
+            const table = await runCli(["collections", "ls", "--output", "table"])
+            assert.match(table.stdout, /^name\s+documentCount\s+totalSize\s+createdAt\n/)
+            assert.match(table.stdout, /\npeople\s+1\s+/)
+        }),
+
+        test("exports and imports through stdout and stdin", async () => {
+            const exported = await runCli(["export", "people", "--format", "csv"])
+            assert.equal(exported.stdout, "_id,age\r\nc1,31\r\n")
+
+            assert.equal((await runCli(["collections", "create", "copies"])).code, 0)
+            const imported = await runCli(["import", "copies", "--format", "csv"], exported.stdout)
+            assert.equal(JSON.parse(imported.stdout).insertedCount, 1)
+
+            const verified = await runCli(["verify"])
+            assert.equal(verified.code, Cli.EXIT_SUCCESS)
+            assert.deepEqual(JSON.parse(verified.stdout).issues, [])
+        }),
+
+        test("returns distinct exit codes for usage errors and failures", async () => {
+            assert.equal((await runCli(["bogus"])).code, Cli.EXIT_USAGE)
+            assert.equal((await runCli(["find"])).code, Cli.EXIT_USAGE)
+            assert.equal((await runCli(["find", "people", "{not json"])).code, Cli.EXIT_USAGE)
+            assert.equal((await runCli(["find", "missing"])).code, Cli.EXIT_FAILURE)
+
+            const duplicate = await runCli(["insert", "people", "{\"_id\":\"c1\"}"])
+            assert.equal(duplicate.code, Cli.EXIT_FAILURE)
+            assert.match(JSON.parse(duplicate.stdout).errors[0].error, /already exists/)
+        })
+    ]
+})
+
+const verifyDBDir = `${rootTestDbsDir}.verifyDB`
+const verifyCollection = "verify-collection"
+test("verify and repair", {
+    subTests: [
+        test("reports no issues for a healthy database", async () => {
+            const testDB = newDB(verifyDBDir)
+            await testDB.newCollection(verifyCollection)
+            await testDB.createIndex(verifyCollection, "email", { unique: true })
+            await testDB.createMany(verifyCollection, [
+                { _id: "v1", email: "a@test.com" },
+                { _id: "v2", email: "b@test.com" }
+            ])
+
+            assert.deepEqual(await testDB.verify(), { ok: true, checkedDocuments: 2, issues: [] })
+        }),
+
+        test("reports hand edited files", async () => {
+            const testDB = newDB(verifyDBDir)
+            const collectionDir = path.join(verifyDBDir, verifyCollection)
+            writeFileSync(path.join(collectionDir, "v3.json"), "{ \"_id\": \"v3\", ")
+            writeFileSync(path.join(collectionDir, "v4.json"), JSON.stringify({ _id: "v1" }))
+            writeFileSync(path.join(collectionDir, "v5.json"), JSON.stringify({ _id: "other" }))
+            writeFileSync(path.join(collectionDir, "notes.txt"), "hello")
+            mkdirSync(path.join(verifyDBDir, "unlisted"))
+
+            const report = await testDB.verify()
+            const issues = report.issues.map(issue => [issue.type, issue.file ?? issue.collection])
+
+            assert.equal(report.ok, false)
+            assert.equal(report.checkedDocuments, 5)
+            assert.deepEqual(issues.sort(), [
+                ["duplicateId", `${verifyCollection}/v4.json`],
+                ["idMismatch", `${verifyCollection}/v5.json`],
+                ["strayFile", `${verifyCollection}/notes.txt`],
+                ["unparsableDocument", `${verifyCollection}/v3.json`],
+                ["unregisteredCollection", "unlisted"]
+            ])
+        }),
+
+        test("quarantines bad files and rebuilds the metadata", async () => {
+            const testDB = newDB(verifyDBDir)
+
+            const { fixed, quarantineDir } = await testDB.repair({ quarantine: true })
+
+            assert.equal(fixed.length, 5)
+            assert.ok(quarantineDir)
+            assert.deepEqual(
+                readdirSync(path.join(quarantineDir, verifyCollection)).sort(),
+                ["notes.txt", "v3.json", "v4.json", "v5.json"]
+            )
+            assert.deepEqual((await testDB.verify()).issues, [])
+            assert.deepEqual(testDB.listCollections().sort(), ["unlisted", verifyCollection])
+            assert.equal(testDB.getCollectionInfo(verifyCollection)?.documentCount, 2)
+            assert.equal((await testDB.findAll(verifyCollection)).length, 2)
+            await assert.rejects(testDB.create(verifyCollection, { email: "a@test.com" }))
+        })
+    ]
+})
+
+const revisionsDBDir = `${rootTestDbsDir}.revisionsDB`
+const revisionsCollection = "revisions-collection"
+test("revisions", {
+    subTests: [
+        test("maintains _rev and rejects stale updates", async () => {
+            const testDB = newDB(revisionsDBDir)
+            await testDB.newCollection(revisionsCollection, { revisions: { history: 2 } })
+
+            const created = await testDB.create(revisionsCollection, { _id: "r1", title: "a" })
+            assert.match(created._rev, /^1-[0-9a-f]{12}$/)
+
+            const updated = await testDB.update(revisionsCollection, {
+                _id: "r1",
+                _rev: created._rev,
+                title: "b"
+            })
+            assert.match(updated._rev, /^2-/)
+
+            const unchanged = await testDB.update(revisionsCollection, { _id: "r1", title: "b" })
+            assert.equal(unchanged._rev, updated._rev)
+
+            await assert.rejects(
+                testDB.update(revisionsCollection, { _id: "r1", _rev: created._rev, title: "c" }),
+                (error: unknown) => error instanceof ConflictError &&
+                    error.expectedRev === created._rev && error.currentRev === updated._rev
+            )
+            await assert.rejects(
+                testDB.transaction(async tx => {
+                    const document = await tx.find(revisionsCollection, { _id: "r1" })
+                    await testDB.update(revisionsCollection, { _id: "r1", $set: { title: "d" } })
+                    await tx.update(revisionsCollection, { ...document, title: "e" })
+                }),
+                ConflictError
+            )
+            assert.equal((await testDB.find(revisionsCollection, { _id: "r1" })).title, "d")
+        }),
+
+        test("keeps the last revisions and reverts to them", async () => {
+            const testDB = newDB(revisionsDBDir)
+
+            const history = await testDB.getHistory(revisionsCollection, "r1")
+            assert.deepEqual(history.map(revision => revision.title), ["b", "a"])
+
+            const reverted = await testDB.revert(revisionsCollection, "r1", history[1]._rev)
+            assert.equal(reverted.title, "a")
+            assert.match(reverted._rev, /^4-/)
+            assert.deepEqual(
+                (await testDB.getHistory(revisionsCollection, "r1")).map(doc => doc.title),
+                ["d", "b"]
+            )
+            await assert.rejects(
+                testDB.revert(revisionsCollection, "r1", "9-missing"),
+                /revision 9-missing of document with _id r1 not found/
+            )
+
+            await testDB.delete(revisionsCollection, { _id: "r1" })
+            assert.deepEqual(await testDB.getHistory(revisionsCollection, "r1"), [])
+        })
+    ]
+})
+
+const trashDBDir = `${rootTestDbsDir}.trashDB`
+const trashCollection = "trash-collection"
+test("soft delete", {
+    subTests: [
+        test("moves deleted documents to the trash and restores them", async () => {
+            const testDB = new DirfileDB({ rootDir: trashDBDir, trash: {} })
+            await testDB.newCollection(trashCollection)
+            await testDB.createMany(trashCollection, [
+                { _id: "t1", kind: "a" },
+                { _id: "t2", kind: "a" },
+                { _id: "t3", kind: "b" }
+            ])
+
+            assert.equal(await testDB.deleteAll(trashCollection, { kind: "a" }), 2)
+            assert.equal(await testDB.count(trashCollection), 1)
+            assert.equal(await testDB.find(trashCollection, { _id: "t1" }), null)
+
+            const entries = await testDB.listTrash(trashCollection)
+            assert.deepEqual(entries.map(entry => entry.documentId).sort(), ["t1", "t2"])
+            assert.ok(entries.every(entry => entry.type === "document" && entry.deletedAt))
+
+            const t1 = entries.find(entry => entry.documentId === "t1")!
+            await testDB.restore(t1._id)
+            assert.deepEqual(await testDB.find(trashCollection, { _id: "t1" }), {
+                _id: "t1",
+                kind: "a"
+            })
+            assert.equal((await testDB.listTrash()).length, 1)
+            await assert.rejects(testDB.restore(t1._id), /trash entry .* not found/)
+
+            assert.equal(await testDB.purge(), 1)
+            assert.deepEqual(await testDB.listTrash(), [])
+        }),
+
+        test("moves deleted collections to the trash and restores them", async () => {
+            const testDB = new DirfileDB({ rootDir: trashDBDir, trash: {} })
+
+            await testDB.deleteCollection(trashCollection)
+            assert.ok(!testDB.listCollections().includes(trashCollection))
+
+            const [entry] = await testDB.listTrash()
+            assert.equal(entry.type, "collection")
+
+            await testDB.restore(entry._id)
+            assert.ok(testDB.listCollections().includes(trashCollection))
+            assert.equal(await testDB.count(trashCollection), 2)
+            assert.equal(testDB.getCollectionInfo(trashCollection)?.documentCount, 2)
+        }),
+
+        test("trashes transaction deletes only once they are applied", async () => {
+            const testDB = new DirfileDB({ rootDir: trashDBDir, trash: {} })
+            await testDB.createIndex(trashCollection, "sku", { unique: true })
+            await testDB.createMany(trashCollection, [
+                { _id: "u1", sku: "a" },
+                { _id: "u2", sku: "b" }
+            ])
+            const trashedIds = async () =>
+                (await testDB.listTrash(trashCollection)).map(entry => entry.documentId)
+
+            await assert.rejects(testDB.transaction(async tx => {
+                await tx.delete(trashCollection, { _id: "u1" })
+                await tx.create(trashCollection, { _id: "u3", sku: "b" })
+            }), /unique/)
+            assert.ok(!(await trashedIds()).includes("u1"))
+            assert.ok(await testDB.find(trashCollection, { _id: "u1" }))
+
+            await testDB.transaction(tx => tx.delete(trashCollection, { _id: "u1" }))
+            assert.ok((await trashedIds()).includes("u1"))
+        }),
+
+        test("purges entries past the retention period", async () => {
+            const testDB = new DirfileDB({ rootDir: trashDBDir, trash: { retention: 0 } })
+
+            await testDB.delete(trashCollection, { _id: "t3" })
+            assert.deepEqual(await testDB.listTrash(), [])
+            await assert.rejects(
+                newDB(trashDBDir).listTrash(),
+                /soft deletes are not enabled/
+            )
+        })
+    ]
+})
+
+const expirationDBDir = `${rootTestDbsDir}.expirationDB`
+const expirationCollection = "expiration-collection"
+test("document expiration", {
+    subTests: [
+        test("hides expired documents and sweeps them", async () => {
+            const testDB = newDB(expirationDBDir)
+            await testDB.newCollection(expirationCollection, { ttl: 60_000 })
+
+            const session = await testDB.create(expirationCollection, { _id: "s1" })
+            assert.ok(Date.parse(session.expireAt) > Date.now())
+
+            await testDB.create(expirationCollection, { _id: "s2", expireAt: Date.now() - 1 })
+            await testDB.create(expirationCollection, {
+                _id: "s3",
+                expireAt: new Date(Date.now() - 1000).toISOString()
+            })
+
+            assert.equal(await testDB.find(expirationCollection, { _id: "s2" }), null)
+            assert.deepEqual(
+                (await testDB.findAll(expirationCollection)).map(document => document._id),
+                ["s1"]
+            )
+            await assert.rejects(
+                testDB.update(expirationCollection, { _id: "s3", user: "x" }),
+                /document with _id s3 does not exist/
+            )
+
+            const recreated = await testDB.create(expirationCollection, { _id: "s3" })
+            assert.ok(Date.parse(recreated.expireAt) > Date.now())
+            assert.equal(await testDB.count(expirationCollection), 2)
+
+            assert.equal(await testDB.sweepExpired(), 1)
+            assert.equal(await testDB.count(expirationCollection), 2)
+        }),
+
+        test("sweeps in the background until closed", async () => {
+            const testDB = new DirfileDB({
+                rootDir: expirationDBDir,
+                expiration: { sweepInterval: 10 }
+            })
+            await testDB.create(expirationCollection, { _id: "s4", expireAt: Date.now() - 1 })
+
+            await new Promise(resolve => setTimeout(resolve, 50))
+            assert.equal(await testDB.count(expirationCollection), 2)
+
+            testDB.close()
+            await testDB.create(expirationCollection, { _id: "s5", expireAt: Date.now() - 1 })
+            await new Promise(resolve => setTimeout(resolve, 50))
+            assert.equal(await testDB.count(expirationCollection), 2)
+            assert.ok(existsSync(path.join(expirationDBDir, expirationCollection, "s5.json")))
+        })
+    ]
+})
+
+const encryptionDBDir = `${rootTestDbsDir}.encryptionDB`
+const encryptionCollection = "encryption-collection"
+const encryptionKey = randomBytes(32)
+test("encryption", {
+    subTests: [
+        test("encrypts documents, metadata and indexes on disk", async () => {
+            const testDB = new DirfileDB({
+                rootDir: encryptionDBDir,
+                encryption: { key: encryptionKey }
+            })
+            await testDB.newCollection(encryptionCollection)
+            await testDB.createIndex(encryptionCollection, "email")
+            await testDB.create(encryptionCollection, { _id: "e1", email: "secret@mail.com" })
+
+            const collectionDir = path.join(encryptionDBDir, encryptionCollection)
+            for (const file of [
+                path.join(collectionDir, "e1.json"),
+                path.join(collectionDir, DirfileDB.INDEX_DIRNAME, "email.json")
+            ]) {
+                const contents = readFileSync(file, "utf8")
+                assert.ok(contents.startsWith("{\"$encrypted\":"))
+                assert.ok(!contents.includes("secret@mail.com"))
+            }
+
+            const reopened = new DirfileDB({
+                rootDir: encryptionDBDir,
+                encryption: { key: encryptionKey.toString("hex") }
+            })
+            assert.deepEqual(
+                await reopened.find(encryptionCollection, { email: "secret@mail.com" }),
+                { _id: "e1", email: "secret@mail.com" }
+            )
+        }),
+
+        test("rejects a missing or wrong key", () => {
+            assert.throws(() => newDB(encryptionDBDir), /database is encrypted/)
+            assert.throws(
+                () => new DirfileDB({
+                    rootDir: encryptionDBDir,
+                    encryption: { key: randomBytes(32) }
+                }),
+                /encryption key does not match the database/
+            )
+        }),
+
+        test("rejects and reports plain files in an encrypted collection", async () => {
+            const testDB = new DirfileDB({
+                rootDir: encryptionDBDir,
+                encryption: { key: encryptionKey }
+            })
+            const plantedFile = path.join(encryptionDBDir, encryptionCollection, "planted.json")
+            writeFileSync(plantedFile, JSON.stringify({ _id: "planted", email: "a@mail.com" }))
+
+            await assert.rejects(
+                testDB.find(encryptionCollection, { _id: "planted" }),
+                /file is not encrypted/
+            )
+            assert.deepEqual(
+                (await testDB.verify()).issues.map(({ type, file }) => ({ type, file })),
+                [{ type: "unparsableDocument", file: `${encryptionCollection}/planted.json` }]
+            )
+
+            rmSync(plantedFile)
+        }),
+
+        test("encrypts the files written before encryption was enabled", async () => {
+            const rootDir = `${rootTestDbsDir}.encryptionEnabledDB`
+            const plainDB = newDB(rootDir)
+            await plainDB.newCollection("notes")
+            await plainDB.create("notes", { _id: "n1", text: "secret" })
+
+            const testDB = new DirfileDB({ rootDir, encryption: { key: encryptionKey } })
+            assert.ok(Cipher.isEncrypted(readFileSync(path.join(rootDir, "notes", "n1.json"))))
+            assert.deepEqual(await testDB.find("notes", { _id: "n1" }), {
+                _id: "n1",
+                text: "secret"
+            })
+            assert.equal((await testDB.verify()).issues.length, 0)
+        }),
+
+        test("encrypts only the chosen collections per collection", async () => {
+            const rootDir = `${rootTestDbsDir}.encryptionPerCollectionDB`
+            const testDB = new DirfileDB({
+                rootDir,
+                encryption: { passphrase: "correct horse", perCollection: true }
+            })
+            await testDB.newCollection("plain")
+            await testDB.newCollection("secret", { encrypted: true })
+            await testDB.create("plain", { _id: "p1" })
+            await testDB.create("secret", { _id: "s1" })
+
+            assert.ok(readFileSync(path.join(rootDir, "plain", "p1.json"), "utf8").includes("p1"))
+            assert.ok(Cipher.isEncrypted(readFileSync(path.join(rootDir, "secret", "s1.json"))))
+            await assert.rejects(
+                newDB(`${rootTestDbsDir}.encryptionPlainDB`)
+                    .newCollection("secret", { encrypted: true }),
+                /encrypted collections require the encryption option/
+            )
+
+            const reopened = new DirfileDB({
+                rootDir,
+                encryption: { passphrase: "correct horse", perCollection: true }
+            })
+            assert.deepEqual(await reopened.find("secret", { _id: "s1" }), { _id: "s1" })
+        }),
+
+        test("rotates the key", async () => {
+            const testDB = new DirfileDB({
+                rootDir: encryptionDBDir,
+                encryption: { key: encryptionKey }
+            })
+            await testDB.rotateKey({ passphrase: "new passphrase" })
+            await testDB.create(encryptionCollection, { _id: "e2" })
+
+            assert.throws(
+                () => new DirfileDB({
+                    rootDir: encryptionDBDir,
+                    encryption: { key: encryptionKey }
+                }),
+                /encryption key does not match the database/
+            )
+            const reopened = new DirfileDB({
+                rootDir: encryptionDBDir,
+                encryption: { passphrase: "new passphrase" }
+            })
+            assert.equal(await reopened.count(encryptionCollection), 2)
+            assert.ok(await reopened.find(encryptionCollection, { email: "secret@mail.com" }))
+
+            await reopened.rotateKey({ key: encryptionKey })
+        }),
+
+        test("drains writes during a rotation and keeps the previous key", async () => {
+            const testDB = new DirfileDB({
+                rootDir: encryptionDBDir,
+                encryption: { key: encryptionKey }
+            })
+            const collectionDir = path.join(encryptionDBDir, encryptionCollection)
+            const nextKey = randomBytes(32)
+            const ids = ["e3", "e4", "e5"]
+
+            await Promise.all([
+                ...ids.map(_id => testDB.create(encryptionCollection, { _id })),
+                testDB.rotateKey({ key: nextKey }),
+                testDB.create(encryptionCollection, { _id: "e6" })
+            ])
+
+            const next = new Cipher(nextKey)
+            for (const id of ["e1", ...ids, "e6"]) {
+                const contents = readFileSync(path.join(collectionDir, `${id}.json`))
+                assert.equal(JSON.parse(next.decryptBuffer(contents).toString())._id, id)
+            }
+
+            // files written with the previous key, ex: by another process, are still read
+            const previousFile = path.join(collectionDir, "e7.json")
+            writeFileSync(
+                previousFile,
+                new Cipher(encryptionKey).encrypt(JSON.stringify({ _id: "e7" }))
+            )
+            assert.deepEqual(await testDB.find(encryptionCollection, { _id: "e7" }), { _id: "e7" })
+
+            rmSync(previousFile)
+            for (const _id of [...ids, "e6"]) await testDB.delete(encryptionCollection, { _id })
+            await testDB.rotateKey({ key: encryptionKey })
+        }),
+
+        test("finishes an interrupted rotation with either key", async () => {
+            const previous = new Cipher(encryptionKey)
+            const nextKey = randomBytes(32)
+            const next = new Cipher(nextKey)
+            const metadataFile = path.join(encryptionDBDir, DirfileDB.METADATA_FILENAME)
+            const documentFile = path.join(encryptionDBDir, encryptionCollection, "e1.json")
+
+            const interrupt = () => {
+                const { encryption } = JSON.parse(readFileSync(metadataFile, "utf8"))
+                writeFileSync(
+                    path.join(encryptionDBDir, DirfileDB.KEY_ROTATION_FILENAME),
+                    JSON.stringify({
+                        from: { ...encryption, wrappedKey: next.wrap(previous) },
+                        to: {
+                            algorithm: Cipher.ALGORITHM,
+                            keyId: next.keyId,
+                            wrappedKey: previous.wrap(next)
+                        }
+                    })
+                )
+                const rotating = previous.rotate(nextKey)
+                writeFileSync(
+                    documentFile,
+                    rotating.encrypt(rotating.decrypt(readFileSync(documentFile, "utf8")))
+                )
+            }
+
+            for (const key of [encryptionKey, nextKey]) {
+                interrupt()
+                const testDB = new DirfileDB({ rootDir: encryptionDBDir, encryption: { key } })
+
+                assert.equal(await testDB.count(encryptionCollection), 2)
+                assert.ok(await testDB.find(encryptionCollection, { _id: "e1" }))
+                assert.ok(
+                    !existsSync(path.join(encryptionDBDir, DirfileDB.KEY_ROTATION_FILENAME))
+                )
+                assert.equal(testDB.getMetadata().encryption?.keyId, Cipher.keyId(key))
+                assert.equal(
+                    JSON.parse(readFileSync(documentFile, "utf8")).keyId,
+                    Cipher.keyId(key)
+                )
+
+                await testDB.rotateKey({ key: encryptionKey })
+            }
+        })
+    ]
+})
+
+const storageDBDir = `${rootTestDbsDir}.storageDB`
+const storageCollection = "storage-collection"
+const storageFilePath = (id: string) => path.join(storageDBDir, storageCollection, `${id}.json`)
+const storageFile = (id: string) => readFileSync(storageFilePath(id))
+test("storage options", {
+    subTests: [
+        test("writes compressed and compact document files", async () => {
+            const testDB = newDB(storageDBDir)
+            await testDB.newCollection(storageCollection, { storage: { compression: "gzip" } })
+            await testDB.create(storageCollection, { _id: "g1", text: "a".repeat(1000) })
+            assert.deepEqual([...storageFile("g1").subarray(0, 2)], [0x1f, 0x8b])
+            assert.ok(storageFile("g1").length < 1000)
+
+            await testDB.recompactCollection(storageCollection, { compact: true })
+            await testDB.create(storageCollection, { _id: "c1", nested: { value: 1 } })
+            assert.equal(
+                storageFile("c1").toString("utf8"),
+                "{\"_id\":\"c1\",\"nested\":{\"value\":1}}"
+            )
+
+            const reopened = newDB(storageDBDir)
+            assert.equal((await reopened.find(storageCollection, { _id: "g1" })).text.length, 1000)
+            assert.deepEqual(await reopened.find(storageCollection, { _id: "c1" }), {
+                _id: "c1",
+                nested: { value: 1 }
+            })
+        }),
+
+        test("recompacts a mixed format collection", async () => {
+            const testDB = newDB(storageDBDir)
+            await testDB.recompactCollection(storageCollection, { compact: false })
+            await testDB.create(storageCollection, { _id: "p1", plain: true })
+
+            assert.equal(
+                await testDB.recompactCollection(storageCollection, {
+                    compression: "brotli",
+                    level: 5
+                }),
+                3
+            )
+            for (const id of ["g1", "c1", "p1"]) assert.notEqual(storageFile(id)[0], 0x7b)
+            assert.equal(await testDB.count(storageCollection, { plain: true }), 1)
+            assert.equal(
+                testDB.getCollectionInfo(storageCollection)?.totalSize,
+                ["g1", "c1", "p1"].reduce((size, id) => size + storageFile(id).length, 0)
+            )
+            assert.equal((await testDB.verify()).issues.length, 0)
+        }),
+
+        test("reads hand-edited files with leading whitespace", async () => {
+            const testDB = newDB(storageDBDir)
+            writeFileSync(storageFilePath("h1"), "\n  {\"_id\":\"h1\"}")
+            writeFileSync(storageFilePath("h2"), "\uFEFF{\"_id\":\"h2\"}")
+
+            assert.deepEqual(await testDB.find(storageCollection, { _id: "h1" }), { _id: "h1" })
+            assert.deepEqual(await testDB.find(storageCollection, { _id: "h2" }), { _id: "h2" })
+            assert.equal((await testDB.findAll(storageCollection)).length, 5)
+        }),
+
+        test("reads compact documents starting like an encrypted file", async () => {
+            const testDB = newDB(storageDBDir)
+            await testDB.newCollection("compact-notes", { storage: { compact: true } })
+            await testDB.create("compact-notes", { $encrypted: "yes", _id: "n1" })
+
+            assert.deepEqual(await testDB.findAll("compact-notes"), [
+                { $encrypted: "yes", _id: "n1" }
+            ])
+            assert.equal((await testDB.verify()).issues.length, 0)
+        }),
+
+        test("compresses before encrypting", async () => {
+            const rootDir = `${rootTestDbsDir}.storageEncryptedDB`
+            const encryption = { key: randomBytes(32) }
+            const testDB = new DirfileDB({ rootDir, encryption })
+            await testDB.newCollection("compressed", { storage: { compression: "gzip" } })
+            await testDB.create("compressed", { _id: "e1", text: "b".repeat(1000) })
+
+            const contents = readFileSync(path.join(rootDir, "compressed", "e1.json"), "utf8")
+            assert.ok(contents.startsWith("{\"$encrypted\":") && contents.length < 1000)
+            assert.equal(
+                (await new DirfileDB({ rootDir, encryption }).find("compressed", { _id: "e1" }))
+                    .text.length,
+                1000
+            )
+        })
+    ]
+})
+
+const shardingDBDir = `${rootTestDbsDir}.shardingDB`
+const shardingCollection = "sharding-collection"
+const shardedFile = (id: string, depth: number) => {
+    const hash = createHash("sha1").update(id).digest("hex")
+    const shards = Array.from({ length: depth }, (_, level) => hash.slice(level * 2, level * 2 + 2))
+
+    return path.join(shardingDBDir, shardingCollection, ...shards, `${id}.json`)
+}
+test("sharded layout", {
+    subTests: [
+        test("writes documents under hash-prefix directories", async () => {
+            const testDB = newDB(shardingDBDir)
+            await testDB.newCollection(shardingCollection, { shardDepth: 2 })
+            await testDB.createMany(shardingCollection, [
+                { _id: "s1", group: 1 },
+                { _id: "s2", group: 1 },
+                { _id: "s3", group: 2 }
+            ])
+            assert.ok(existsSync(shardedFile("s1", 2)))
+
+            await testDB.update(shardingCollection, { _id: "s1", group: 2 })
+            assert.equal(JSON.parse(readFileSync(shardedFile("s1", 2), "utf8")).group, 2)
+            await testDB.delete(shardingCollection, { _id: "s2" })
+            assert.ok(!existsSync(shardedFile("s2", 2)))
+
+            const reopened = newDB(shardingDBDir)
+            assert.equal(await reopened.count(shardingCollection), 2)
+            assert.equal(await reopened.count(shardingCollection, { group: 2 }), 2)
+            assert.equal(reopened.getCollectionInfo(shardingCollection)?.documentCount, 2)
+            assert.equal((await reopened.verify()).issues.length, 0)
+            await assert.rejects(
+                reopened.newCollection("too-deep", { shardDepth: 5 }),
+                /shard depth must be an integer from 0 to 4/
+            )
+        }),
+
+        test("reshards a collection online", async () => {
+            const testDB = newDB(shardingDBDir)
+
+            assert.equal(await testDB.reshardCollection(shardingCollection, 0), 2)
+            assert.ok(existsSync(shardedFile("s1", 0)))
+            assert.deepEqual(
+                readdirSync(path.join(shardingDBDir, shardingCollection))
+                    .filter(entry => !entry.startsWith(".")),
+                ["s1.json", "s3.json"]
+            )
+
+            assert.equal(await testDB.reshardCollection(shardingCollection, 1), 2)
+            assert.ok(existsSync(shardedFile("s3", 1)) && !existsSync(shardedFile("s3", 0)))
+            assert.deepEqual(await testDB.find(shardingCollection, { _id: "s3" }), {
+                _id: "s3",
+                group: 2
+            })
+            assert.equal(await testDB.reshardCollection(shardingCollection, 1), 0)
+        }),
+
+        test("finishes an interrupted reshard", async () => {
+            const metadataPath = path.join(
+                shardingDBDir,
+                shardingCollection,
+                DirfileDB.COLLECTION_METADATA_FILENAME
+            )
+            const metadata = JSON.parse(readFileSync(metadataPath, "utf8"))
+            metadata.settings.resharding = { from: 1, to: 2 }
+            writeFileSync(metadataPath, JSON.stringify(metadata))
+
+            const testDB = newDB(shardingDBDir)
+            await testDB.create(shardingCollection, { _id: "s4" })
+            assert.ok(existsSync(shardedFile("s4", 1)) && existsSync(shardedFile("s4", 2)))
+            await assert.rejects(
+                testDB.reshardCollection(shardingCollection, 0),
+                /collection is being resharded to depth 2/
+            )
+
+            assert.equal(await testDB.reshardCollection(shardingCollection, 2), 3)
+            assert.equal(testDB.getCollectionInfo(shardingCollection)?.settings.resharding, null)
+            assert.ok(!existsSync(shardedFile("s4", 1)))
+            assert.equal(await testDB.count(shardingCollection), 3)
+        }),
+
+        test("shards non-string _ids", async () => {
+            const testDB = newDB(shardingDBDir)
+            await testDB.newCollection("numeric-ids")
+            await testDB.create("numeric-ids", { _id: 5 })
+
+            assert.equal(await testDB.reshardCollection("numeric-ids", 2), 1)
+            await testDB.create("numeric-ids", { _id: 6 })
+            assert.deepEqual(await testDB.find("numeric-ids", { _id: 5 }), { _id: 5 })
+            assert.equal(await testDB.count("numeric-ids"), 2)
+        })
+    ]
+})
+
+const subCollectionsDBDir = `${rootTestDbsDir}.subCollectionsDB`
+const tasksCollection = "projects/p1/tasks"
+test("sub-collections", {
+    subTests: [
+        test("creates and loads sub-collections of documents", async () => {
+            const testDB = newDB(subCollectionsDBDir)
+            await testDB.newCollection("projects")
+            await testDB.createMany("projects", [{ _id: "p1" }, { _id: "p2" }])
+            await testDB.newCollection(tasksCollection)
+            await testDB.newCollection("projects/p1/notes")
+            await testDB.newCollection("projects/p2/tasks", { shardDepth: 1 })
+            await testDB.create(tasksCollection, { _id: "t1", title: "write tests" })
+            await testDB.newCollection(`${tasksCollection}/t1/comments`)
+
+            assert.ok(existsSync(path.join(subCollectionsDBDir, tasksCollection, "t1.json")))
+            await assert.rejects(testDB.newCollection("projects/p1"), /must alternate/)
+            await assert.rejects(testDB.newCollection("projects//tasks"), /invalid segment/)
+            await assert.rejects(
+                testDB.newCollection("missing/m1/tasks"),
+                /parent collection missing does not exist/
+            )
+
+            const reopened = newDB(subCollectionsDBDir)
+            assert.deepEqual(reopened.listCollections().sort(), [
+                "projects",
+                "projects/p1/notes",
+                "projects/p1/tasks",
+                "projects/p1/tasks/t1/comments",
+                "projects/p2/tasks"
+            ])
+            assert.deepEqual(reopened.listSubCollections("projects", "p1").sort(), [
+                "projects/p1/notes",
+                "projects/p1/tasks"
+            ])
+            assert.equal(reopened.listSubCollections("projects").length, 3)
+            assert.equal(await reopened.count("projects"), 2)
+            assert.equal((await reopened.find(tasksCollection, { _id: "t1" })).title, "write tests")
+            assert.equal((await reopened.verify()).issues.length, 0)
+        }),
+
+        test("deletes a sub-collection with its own sub-collections", async () => {
+            const testDB = newDB(subCollectionsDBDir)
+            const deleted: string[] = []
+            testDB.on("collectionDeleted", ({ collection }) => deleted.push(collection))
+
+            await testDB.deleteCollection(tasksCollection)
+            assert.deepEqual(deleted.sort(), [tasksCollection, `${tasksCollection}/t1/comments`])
+            assert.ok(!existsSync(path.join(subCollectionsDBDir, tasksCollection)))
+            assert.deepEqual(testDB.listSubCollections("projects", "p1"), ["projects/p1/notes"])
+
+            await testDB.deleteCollection("projects/p1/notes")
+            assert.ok(!existsSync(path.join(subCollectionsDBDir, "projects", "p1")))
+            assert.deepEqual(newDB(subCollectionsDBDir).listSubCollections("projects"), [
+                "projects/p2/tasks"
+            ])
+        }),
+
+        test("cascades document deletes to their sub-collections", async () => {
+            const testDB = newDB(subCollectionsDBDir)
+            await testDB.newCollection(tasksCollection)
+
+            assert.equal(await testDB.delete("projects", { _id: "p1" }), 1)
+            assert.deepEqual(testDB.listSubCollections("projects", "p1"), [tasksCollection])
+
+            await testDB.create("projects", { _id: "p1" })
+            assert.equal(await testDB.deleteAll("projects", {}, { cascade: true }), 2)
+            assert.deepEqual(testDB.listCollections(), ["projects"])
+            assert.deepEqual(readdirSync(path.join(subCollectionsDBDir, "projects")), [
+                DirfileDB.COLLECTION_METADATA_FILENAME
+            ])
+        })
+    ]
+})